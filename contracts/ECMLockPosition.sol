@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./interfaces/IECMLockPosition.sol";
+
+/// @notice Lock data ECMLockPosition reads from the sale for its metadata
+interface IECMPositionSource {
+    function getPosition(uint256 tokenId) external view returns (
+        uint256 amount,
+        uint256 releaseTime,
+        uint256 vestingDuration,
+        uint256 claimed,
+        uint256 claimable
+    );
+}
+
+/**
+ * @title ECMLockPosition
+ * @dev ERC-721 positions for ECMSale locks
+ * - Each token is the right to claim one tokenized lock through ECMSale.claimPositions
+ * - Only the sale mints (tokenizeLock) and burns (once a position is fully claimed)
+ * - Metadata (amount, release time, claimed) and an SVG image are generated on-chain
+ *   from the sale's lock data
+ */
+contract ECMLockPosition is ERC721, IECMLockPosition {
+    using Strings for uint256;
+
+    address public immutable sale;
+    uint256 public nextTokenId = 1;
+
+    modifier onlySale() {
+        require(msg.sender == sale, "only sale");
+        _;
+    }
+
+    constructor(address _sale) ERC721("ECM Lock Position", "ECM-LOCK") {
+        require(_sale != address(0), "zero addr");
+        sale = _sale;
+    }
+
+    /**
+     * @notice Mint the next position to `to`
+     * @dev Only the sale can call
+     * @return tokenId New token id
+     */
+    function mint(address to) external onlySale returns (uint256 tokenId) {
+        tokenId = nextTokenId++;
+        _safeMint(to, tokenId);
+    }
+
+    /**
+     * @notice Burn a fully claimed position
+     * @dev Only the sale can call
+     */
+    function burn(uint256 tokenId) external onlySale {
+        _burn(tokenId);
+    }
+
+    /// @inheritdoc ERC721
+    function ownerOf(uint256 tokenId) public view override(ERC721, IECMLockPosition) returns (address) {
+        return super.ownerOf(tokenId);
+    }
+
+    /**
+     * @notice Base64 JSON metadata with amount, release time and claimed, plus an SVG image
+     */
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        (uint256 amount, uint256 releaseTime, uint256 vestingDuration, uint256 claimed, ) =
+            IECMPositionSource(sale).getPosition(tokenId);
+
+        string memory json = string.concat(
+            "{\"name\":\"ECM Lock #", tokenId.toString(),
+            "\",\"description\":\"Right to claim locked ECM from the ECM sale.\",",
+            "\"image\":\"data:image/svg+xml;base64,",
+            Base64.encode(bytes(_svg(tokenId, amount, releaseTime, claimed))),
+            "\",\"attributes\":[{\"trait_type\":\"Amount\",\"value\":", (amount / 1e18).toString(),
+            "},{\"trait_type\":\"Claimed\",\"value\":", (claimed / 1e18).toString(),
+            "},{\"trait_type\":\"Release Time\",\"display_type\":\"date\",\"value\":", releaseTime.toString(),
+            "},{\"trait_type\":\"Vesting Duration\",\"value\":", vestingDuration.toString(),
+            "}]}"
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    /**
+     * @dev Card with the position's amount, claimed amount and release time (whole ECM, unix time)
+     */
+    function _svg(
+        uint256 tokenId,
+        uint256 amount,
+        uint256 releaseTime,
+        uint256 claimed
+    ) internal pure returns (string memory) {
+        return string.concat(
+            "<svg xmlns=\"http://www.w3.org/2000/svg\" width=\"350\" height=\"200\" viewBox=\"0 0 350 200\">",
+            "<rect width=\"350\" height=\"200\" rx=\"16\" fill=\"#10162f\"/>",
+            "<text x=\"24\" y=\"44\" fill=\"#fff\" font-family=\"monospace\" font-size=\"20\">ECM Lock #",
+            tokenId.toString(),
+            "</text>",
+            _svgLine("96", string.concat("Amount: ", (amount / 1e18).toString(), " ECM")),
+            _svgLine("126", string.concat("Claimed: ", (claimed / 1e18).toString(), " ECM")),
+            _svgLine("156", string.concat("Release: ", releaseTime.toString())),
+            "</svg>"
+        );
+    }
+
+    /**
+     * @dev One line of detail text on the card, at height y
+     */
+    function _svgLine(string memory y, string memory text) internal pure returns (string memory) {
+        return string.concat(
+            "<text x=\"24\" y=\"", y, "\" fill=\"#9aa4c7\" font-family=\"monospace\" font-size=\"14\">", text, "</text>"
+        );
+    }
+}
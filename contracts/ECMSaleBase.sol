@@ -0,0 +1,501 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./interfaces/IPriceOracle.sol";
+import "./interfaces/ISignatureTransfer.sol";
+import "./interfaces/IUniswapV2Router.sol";
+import "./interfaces/IECMLockPosition.sol";
+
+/**
+ * @title ECMSaleBase
+ * @dev State, events and shared views of ECMSale (and ECMSaleUpgradeable) and of the modules it delegatecalls
+ *      (ECMSalePurchases, ECMSaleLocks). It is the first base of all three, followed by
+ *      OpenZeppelin bases in ECMSale's order, so the modules run against ECMSale's storage layout.
+ */
+abstract contract ECMSaleBase {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // ============ State Variables ============
+
+    IERC20 public immutable ecm;
+    IERC20 public immutable usdt;
+    uint8 internal immutable _usdtDecimals;
+
+    IPriceOracle public oracle;
+    // Uniswap Permit2 used by buyWithPermit2; 0 = disabled
+    ISignatureTransfer public permit2;
+    // Uniswap V2 router used by buyWithETH; 0 = disabled
+    IUniswapV2Router public router;
+
+    struct PaymentToken {
+        IPriceOracle oracle; // quotes ECM for amounts in this token's units; 0 = sale oracle at par with USDT
+        uint8 decimals;
+    }
+
+    // accepted payment tokens besides USDT
+    EnumerableSet.AddressSet internal _paymentTokens;
+    mapping(address => PaymentToken) internal _paymentTokenConfig;
+    // lifetime proceeds per payment token (USDT included), in token units
+    mapping(address => uint256) public tokenRaised;
+
+    enum SaleStatus { Upcoming, Active, Ended }
+
+    // purchase window; 0 = open from deployment / no end
+    uint64 public saleStart;
+    uint64 public saleEnd;
+
+    // 180 days unless changed; set by ECMSaleCore._initSale, which also runs behind a proxy
+    uint256 public lockDuration;
+    // linear release after the lock (cliff) ends; 0 = everything unlocks at releaseTime
+    uint256 public vestingDuration;
+
+    struct Lock {
+        uint256 amount;
+        uint256 releaseTime; // cliff end
+        uint256 vestingDuration; // 0 = pure cliff
+        uint256 claimed; // amount already claimed
+        uint256 bonus; // volume bonus included in amount
+        bool transferred; // moved by transferLock or tokenizeLock, nothing left to claim here
+        uint256 start; // creation time, where the early unlock penalty starts decaying
+        uint256 rewardDebt; // redistributed penalties already accounted for (see accPenaltyPerWeight)
+        uint256 usdtCost; // USDT value paid for the lock, 0 for referral bonus locks
+        uint256 refundDeadline; // cancelPurchase works and the lock cannot move before this; 0 = not refundable
+        uint256 saleRound; // index + 1 of the sale round the ECM was bought in; 0 = none
+    }
+
+    // per-user locks
+    mapping(address => Lock[]) internal _userLocks;
+    // total amount currently locked (sum of unclaimed locked amounts)
+    uint256 public totalLocked;
+    // whether lock owners may move their locks with transferLock/transferLocks
+    bool public lockTransfersEnabled;
+
+    // ERC-721 lock positions; 0 = tokenizing disabled
+    IECMLockPosition public positionNFT;
+    // tokenized locks by NFT id (still counted in totalLocked)
+    mapping(uint256 => Lock) internal _positions;
+
+    enum PenaltyMode { Burn, Inventory, Redistribute }
+
+    // Early unlock: penalty in bps of the unvested amount at lock creation, decaying linearly
+    // to 0 when the lock is fully unlocked
+    bool public earlyUnlockEnabled;
+    uint16 public earlyUnlockPenaltyBps;
+    PenaltyMode public penaltyMode;
+    // redistributed penalties per unit of unclaimed principal, scaled by ACC_PRECISION
+    // (rounding leaves a few wei per penalty in totalLocked)
+    uint256 public accPenaltyPerWeight;
+    // unclaimed principal of all locks (totalLocked also holds redistributed penalties not yet claimed)
+    uint256 public totalLockWeight;
+
+    // Cooling-off: USDT purchases can be cancelled for a refund within refundWindow; 0 = disabled
+    uint256 public refundWindow;
+    // USDT withdrawals must leave for refunds; buckets are released lazily, a day after their deadlines
+    uint256 public refundReserve;
+    // reserved USDT by refund deadline day (deadline / 1 days)
+    mapping(uint256 => uint256) internal _refundBuckets;
+    // first day bucket not released yet, 0 = nothing reserved so far
+    uint256 internal _refundCursor;
+    // referral bonus lock index + 1 by buyer and purchase lock index, voided with a cancelled purchase
+    mapping(address => mapping(uint256 => uint256)) internal _referralLocks;
+
+    enum SaleOutcome { Pending, Succeeded, Failed }
+
+    // Soft cap in USDT; 0 = none. With a cap, proceeds stay in the contract until finalizeSale
+    // confirms it was met, and a failed sale voids all locks and refunds buyers
+    uint256 public softCapUSDT;
+    SaleOutcome public saleOutcome;
+    // amount paid per beneficiary and payment token, in token units (refunded if the sale fails)
+    mapping(address => mapping(address => uint256)) public tokenContributed;
+
+    enum TimelockedParam {
+        Oracle,
+        LockDuration,
+        TimelockDelay,
+        ReferenceOracle,
+        PriceDeviationGuard,
+        PaymentToken,
+        Round,
+        Upgrade // ECMSaleUpgradeable only
+    }
+
+    struct PendingChange {
+        // oracle or implementation address, lock duration or delay; for the other parameters, the
+        // keccak256 hash of the calldata of the setter call to make
+        uint256 value;
+        uint256 readyAt; // executable from here until the grace period ends; 0 = nothing pending
+    }
+
+    // Delay before changes to pricing, the lock duration and upgrades take effect; 0 = they apply at once
+    uint256 public timelockDelay;
+    mapping(TimelockedParam => PendingChange) public pendingChanges;
+
+    // Manual = the treasurer withdraws USDT; Forward = paid to the recipients on each purchase;
+    // Distribute = paid to the recipients when anyone calls distribute()
+    enum TreasuryMode { Manual, Forward, Distribute }
+
+    struct TreasuryRecipient {
+        address account;
+        uint16 shareBps; // share of each payout, the shares sum to 10000
+    }
+
+    // bounds the payout loop run by Forward mode purchases
+    uint256 public constant MAX_TREASURY_RECIPIENTS = 10;
+    TreasuryMode public treasuryMode;
+    TreasuryRecipient[] internal _treasuryRecipients;
+    // lifetime USDT paid to each treasury recipient
+    mapping(address => uint256) public treasuryReceived;
+
+    uint256 internal constant ACC_PRECISION = 1e18;
+    address internal constant BURN_ADDRESS = 0x000000000000000000000000000000000000dEaD;
+
+    struct SaleRound {
+        uint64 start;
+        uint64 end;
+        uint16 discountBps; // discount to the oracle price (ignored with fixedPrice)
+        uint256 ecmCap;
+        uint256 fixedPrice; // USDT units per 1 ECM, 0 = oracle price
+        uint256 lockDuration;
+        uint256 ecmSold;
+        uint256 usdtRaised;
+    }
+
+    // sale rounds in chronological order; when none exist, purchases use the global settings
+    SaleRound[] internal _rounds;
+    // first round that has not ended or sold out
+    uint256 public roundCursor;
+
+    uint256 internal constant ECM_UNIT = 1e18;
+
+    // Purchase caps in USDT units (0 = no limit); other payment tokens count at their USDT value
+    uint256 public minPurchaseUSDT;
+    uint256 public maxPurchaseUSDT;
+    uint256 public walletCapUSDT;
+    uint256 public hardCapUSDT;
+    // lifetime USDT spent per wallet and in total
+    mapping(address => uint256) public usdtContributed;
+    uint256 public totalUSDTRaised;
+
+    // Allowlist phase: leaves are keccak256(bytes.concat(keccak256(abi.encode(account, usdtCap))))
+    bytes32 public allowlistRoot;
+    bool public allowlistOnly;
+
+    struct BonusTier {
+        uint256 minUSDT; // purchases of at least this much USDT get the bonus
+        uint16 bonusBps; // extra ECM in bps of the ECM bought
+    }
+
+    // volume bonus tiers sorted by ascending minUSDT; the highest tier reached applies
+    BonusTier[] internal _bonusTiers;
+
+    // Referrals: bonus in bps of the ECM bought, paid to the referrer as a lock
+    uint16 public referralBonusBps;
+    // referrer bound on a buyer's first referred purchase
+    mapping(address => address) public referrerOf;
+    // total ECM bonus credited to each referrer
+    mapping(address => uint256) public referralEarnings;
+
+    // Oracle-vs-reference circuit breaker
+    IPriceOracle public referenceOracle;
+    uint16 public maxPriceDeviationBps; // 0 = disabled
+    bool public pauseOnDeviation;
+
+    // positions minted on positionNFT and not fully claimed yet; positionNFT cannot change while any are open
+    uint256 public openPositions;
+
+    // Reserved for state added by later versions of ECMSaleUpgradeable, so the OpenZeppelin bases
+    // that follow keep their slots; shrink it by the slots each new variable takes
+    uint256[49] private __gap;
+
+    // ============ Events ============
+    event Purchase(
+        address indexed buyer,
+        address indexed payer,
+        address token,
+        uint256 paidAmount,
+        uint256 ecmAmount,
+        uint256 bonusAmount,
+        uint256 releaseTime,
+        uint256 indexed lockIndex
+    );
+    event Claim(
+        address indexed beneficiary,
+        uint256 ecmAmount,
+        uint256 indexed lockIndex
+    );
+    event LockTransferred(
+        address indexed from,
+        address indexed to,
+        uint256 fromIndex,
+        uint256 toIndex
+    );
+    event LockTransfersUpdated(bool enabled);
+    event LockTokenized(address indexed owner, uint256 lockIndex, uint256 indexed tokenId);
+    event PositionClaim(address indexed owner, uint256 ecmAmount, uint256 indexed tokenId);
+    event PositionNFTUpdated(address positionNFT);
+    event EarlyUnlock(
+        address indexed beneficiary,
+        uint256 indexed lockIndex,
+        uint256 ecmAmount,
+        uint256 penalty,
+        PenaltyMode mode
+    );
+    event EarlyUnlockConfigUpdated(bool enabled, uint16 maxPenaltyBps, PenaltyMode mode);
+    event PurchaseCancelled(
+        address indexed buyer,
+        uint256 indexed lockIndex,
+        uint256 usdtAmount,
+        uint256 ecmAmount
+    );
+    event RefundWindowUpdated(uint256 window);
+    event SoftCapUpdated(uint256 softCap);
+    event SaleFinalized(SaleOutcome outcome, uint256 usdtRaised);
+    event SoftCapRefund(address indexed buyer, address indexed token, uint256 amount);
+    event WithdrawECM(address indexed owner, uint256 amount);
+    event WithdrawUSDT(address indexed owner, uint256 amount);
+    event WithdrawProceeds(address indexed owner, address indexed token, uint256 amount);
+    event TreasuryUpdated(address[] recipients, uint16[] sharesBps, TreasuryMode mode);
+    event TreasuryPayment(address indexed recipient, uint256 amount);
+    event PaymentTokenUpdated(address indexed token, address oracle, uint8 decimals);
+    event PaymentTokenRemoved(address indexed token);
+    event OracleUpdated(address indexed by, address newOracle);
+    event Permit2Updated(address permit2);
+    event RouterUpdated(address router);
+    event LockDurationUpdated(uint256 newDuration);
+    event TimelockDelayUpdated(uint256 delay);
+    event ChangeProposed(TimelockedParam indexed param, uint256 value, uint256 readyAt);
+    event ChangeExecuted(TimelockedParam indexed param, uint256 value);
+    event ChangeCancelled(TimelockedParam indexed param, uint256 value);
+    event VestingDurationUpdated(uint256 newDuration);
+    event SaleScheduleUpdated(uint64 saleStart, uint64 saleEnd);
+    event PurchaseCapsUpdated(
+        uint256 minPurchase,
+        uint256 maxPurchase,
+        uint256 walletCap,
+        uint256 hardCap
+    );
+    event AllowlistRootUpdated(bytes32 root);
+    event AllowlistModeUpdated(bool allowlistOnly);
+    event BonusTiersUpdated(uint256[] minUSDT, uint16[] bonusBps);
+    event ReferralBonusUpdated(uint16 bonusBps);
+    event ReferrerBound(address indexed buyer, address indexed referrer);
+    event ReferralBonus(
+        address indexed referrer,
+        address indexed buyer,
+        uint256 ecmAmount,
+        uint256 indexed lockIndex
+    );
+    event RoundCreated(
+        uint256 indexed roundId,
+        uint64 start,
+        uint64 end,
+        uint256 ecmCap,
+        uint256 fixedPrice,
+        uint16 discountBps,
+        uint256 lockDuration
+    );
+    event RoundClosed(uint256 indexed roundId, uint256 ecmSold, uint256 usdtRaised);
+    event ReferenceOracleUpdated(address indexed by, address newOracle);
+    event PriceDeviationGuardUpdated(uint16 maxDeviationBps, bool pauseOnBreach);
+    event PriceDeviationBreached(uint256 ecmAmount, uint256 referenceECMAmount);
+
+    // ============ Constructor ============
+
+    constructor(address _ecm, address _usdt) {
+        require(_ecm != address(0) && _usdt != address(0), "zero addr");
+        ecm = IERC20(_ecm);
+        usdt = IERC20(_usdt);
+        _usdtDecimals = IERC20Metadata(_usdt).decimals();
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Value of a payment token amount in USDT units, used for caps, rounds and bonus tiers.
+     *      Stablecoins count at par: only the decimals are normalized.
+     */
+    function _usdtValue(address token, uint256 amount) internal view returns (uint256) {
+        if (token == address(usdt)) {
+            return amount;
+        }
+        require(_paymentTokens.contains(token), "token not accepted");
+        uint8 decimals = _paymentTokenConfig[token].decimals;
+        if (decimals >= _usdtDecimals) {
+            return amount / 10 ** (decimals - _usdtDecimals);
+        }
+        return amount * 10 ** (_usdtDecimals - decimals);
+    }
+
+    /**
+     * @dev Volume bonus in basis points for a purchase size (0 below the first tier)
+     */
+    function _bonusBps(uint256 usdtAmount) internal view returns (uint16) {
+        for (uint256 i = _bonusTiers.length; i > 0; i--) {
+            if (usdtAmount >= _bonusTiers[i - 1].minUSDT) {
+                return _bonusTiers[i - 1].bonusBps;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * @dev Sale status from the schedule, ignoring pause state, rounds and caps
+     */
+    function _saleStatus() internal view returns (SaleStatus) {
+        if (block.timestamp < saleStart) {
+            return SaleStatus.Upcoming;
+        }
+        if (saleEnd != 0 && block.timestamp >= saleEnd) {
+            return SaleStatus.Ended;
+        }
+        return SaleStatus.Active;
+    }
+
+    /**
+     * @dev Check an allowlist proof of (account, usdtCap) against the current root
+     */
+    function _isAllowlisted(address account, uint256 usdtCap, bytes32[] calldata proof) internal view returns (bool) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, usdtCap))));
+        return MerkleProof.verifyCalldata(proof, allowlistRoot, leaf);
+    }
+
+    /**
+     * @dev ECM the admin can withdraw: balance minus locked tokens, everything once the sale failed
+     */
+    function _availableECM() internal view returns (uint256) {
+        uint256 bal = IERC20(ecm).balanceOf(address(this));
+        if (saleOutcome == SaleOutcome.Failed) {
+            return bal;
+        } else if (bal > totalLocked) {
+            return bal - totalLocked;
+        } else {
+            return 0;
+        }
+    }
+
+    /**
+     * @dev Vested but unclaimed amount of a lock plus its redistributed penalties
+     *      (0 once transferred or fully claimed, early unlocks included, inside its refund window,
+     *      or if the sale failed)
+     */
+    function _claimable(Lock storage L) internal view returns (uint256) {
+        if (
+            L.transferred || L.claimed == L.amount || block.timestamp < L.refundDeadline
+                || saleOutcome == SaleOutcome.Failed
+        ) {
+            return 0;
+        }
+        return _vested(L) - L.claimed + _pendingPenalties(L);
+    }
+
+    /**
+     * @dev Redistributed penalties earned by a lock's unclaimed principal since its last claim
+     */
+    function _pendingPenalties(Lock storage L) internal view returns (uint256) {
+        return ((L.amount - L.claimed) * accPenaltyPerWeight) / ACC_PRECISION - L.rewardDebt;
+    }
+
+    /**
+     * @dev Early unlock penalty on the unvested part of a lock, decaying linearly from
+     *      earlyUnlockPenaltyBps at creation to 0 at releaseTime + vestingDuration
+     */
+    function _earlyUnlockPenalty(Lock storage L) internal view returns (uint256) {
+        uint256 end = L.releaseTime + L.vestingDuration;
+        if (block.timestamp >= end) {
+            return 0;
+        }
+        return ((L.amount - _vested(L)) * earlyUnlockPenaltyBps * (end - block.timestamp))
+            / ((end - L.start) * 10000);
+    }
+
+    /**
+     * @dev Amount of a lock vested at the current time: nothing before releaseTime,
+     *      then linear over vestingDuration
+     */
+    function _vested(Lock storage L) internal view returns (uint256) {
+        if (block.timestamp < L.releaseTime) {
+            return 0;
+        }
+        uint256 elapsed = block.timestamp - L.releaseTime;
+        if (elapsed >= L.vestingDuration) {
+            return L.amount;
+        }
+        return (L.amount * elapsed) / L.vestingDuration;
+    }
+
+    /**
+     * @dev Reserve usdtAmount of the balance for a refund until the deadline's day is over
+     */
+    function _reserveRefund(uint256 usdtAmount, uint256 deadline) internal {
+        if (_refundCursor == 0) {
+            _refundCursor = block.timestamp / 1 days;
+        }
+        _refundBuckets[deadline / 1 days] += usdtAmount;
+        refundReserve += usdtAmount;
+    }
+
+    /**
+     * @dev Undo _reserveRefund for a refunded purchase
+     */
+    function _unreserveRefund(uint256 usdtAmount, uint256 deadline) internal {
+        _refundBuckets[deadline / 1 days] -= usdtAmount;
+        refundReserve -= usdtAmount;
+    }
+
+    /**
+     * @dev True without a soft cap or once the sale met it
+     */
+    function _softCapMet() internal view returns (bool) {
+        return softCapUSDT == 0 || saleOutcome == SaleOutcome.Succeeded;
+    }
+
+    /**
+     * @dev Release the reserve of every day bucket whose refund windows have all closed
+     */
+    function _releaseRefundReserve() internal {
+        uint256 day = _refundCursor;
+        if (day == 0) {
+            return;
+        }
+        uint256 today = block.timestamp / 1 days;
+        for (; day < today; day++) {
+            refundReserve -= _refundBuckets[day];
+            delete _refundBuckets[day];
+        }
+        _refundCursor = day;
+    }
+
+    /**
+     * @dev First round that has not ended or sold out, and whether it is open
+     * @return active True if that round has started
+     * @return roundId Index of that round
+     */
+    function _findActiveRound() internal view returns (bool active, uint256 roundId) {
+        uint256 n = _rounds.length;
+        roundId = roundCursor;
+        while (roundId < n && _rounds[roundId].end <= block.timestamp) {
+            roundId++;
+        }
+        active = roundId < n && _rounds[roundId].start <= block.timestamp;
+    }
+
+    /**
+     * @dev ECM amount at a price discountBps below the quoted one
+     */
+    function _applyDiscount(uint256 ecmAmount, uint16 discountBps) internal pure returns (uint256) {
+        return (ecmAmount * 10000) / (10000 - discountBps);
+    }
+
+    /**
+     * @dev Absolute deviation of amount from referenceAmount in basis points
+     */
+    function _deviationBps(uint256 amount, uint256 referenceAmount) internal pure returns (uint256) {
+        require(referenceAmount > 0, "zero reference");
+        uint256 diff = amount > referenceAmount ? amount - referenceAmount : referenceAmount - amount;
+        return (diff * 10000) / referenceAmount;
+    }
+}
@@ -0,0 +1,1266 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./ECMSaleBase.sol";
+import "./ECMSalePurchases.sol";
+import "./ECMSaleLocks.sol";
+
+/**
+ * @title ECMSaleCore
+ * @dev Sale and lock contract for ECM tokens, deployed as ECMSale or behind a UUPS proxy as
+ *      ECMSaleUpgradeable
+ * - Users buy ECM with USDT at the price of a pluggable IPriceOracle
+ * - Other stablecoins (USDC, DAI, ...) can be accepted, each with its own oracle or at par with USDT
+ *   (Uniswap V2 spot/TWAP, Chainlink, fixed price, ... see contracts/oracles)
+ * - Purchased tokens are locked for 6 months
+ * - Optional saleStart/saleEnd schedule; after the end unsold ECM can be withdrawn while claims keep working
+ * - Optional sale rounds (seed, private, public, ...) with their own window, cap, price and lock duration
+ * - Optional per-transaction min/max, per-wallet lifetime cap and global hard cap on USDT
+ * - Optional allowlist-only phase gated by a Merkle root of (address, cap) leaves
+ * - Optional volume bonus tiers (extra ECM for large purchases), included in the lock and the estimate
+ * - Single-transaction purchases with EIP-2612 permit or Permit2 signature transfers
+ * - ETH purchases, swapped to USDT through a Uniswap V2 router before the normal purchase
+ * - Custodians can buy for a beneficiary (buyFor): the payer's USDT, the beneficiary's lock
+ * - Optional referral bonus in ECM for the referrer, locked like the purchase it came from
+ * - Optionally, locks then vest linearly over vestingDuration (partial claims tracked per lock)
+ * - Users can claim tokens after lock period
+ * - Optionally, locks can be released early for a linearly decaying penalty that is burned,
+ *   returned to inventory or redistributed to the remaining lockers
+ * - Optionally, owners can move unclaimed locks to another address (wallet rotation)
+ * - Locks can be tokenized as ERC-721 positions (ECMLockPosition), claimed by whoever holds the NFT
+ * - Admin can withdraw unsold tokens and proceeds per payment token
+ * - Optionally, USDT proceeds are split over treasury recipients by share, forwarded on each
+ *   purchase or paid out by a permissionless distribute()
+ * - Contract is pausable for emergency situations
+ * - Purchases are refused (or the sale auto-pauses) when the oracle deviates from a reference oracle
+ * 
+ * Security features:
+ * - ReentrancyGuard on all state-changing functions
+ * - SafeERC20 for USDT compatibility
+ * - Pausable for emergency control
+ * - Role-based admin functions: PAUSER_ROLE pauses, TREASURER_ROLE withdraws, ORACLE_MANAGER_ROLE
+ *   manages oracles and payment tokens, CONFIG_ADMIN_ROLE sets everything else; DEFAULT_ADMIN_ROLE
+ *   grants and revokes the roles
+ *
+ * Purchases and lock operations are implemented in ECMSalePurchases and ECMSaleLocks, passed to
+ * the constructor and delegatecalled after the modifiers ran, to stay under the contract size limit.
+ */
+abstract contract ECMSaleCore is ECMSaleBase, Pausable, AccessControl, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // ============ State Variables ============
+
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+    bytes32 public constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
+    bytes32 public constant CONFIG_ADMIN_ROLE = keccak256("CONFIG_ADMIN_ROLE");
+
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    // how long a proposed change stays executable once its delay has passed
+    uint256 public constant TIMELOCK_GRACE_PERIOD = 7 days;
+
+    // modules run through delegatecall, see ECMSaleBase
+    address private immutable _purchases;
+    address private immutable _locks;
+
+    // ============ Constructor ============
+
+    /**
+     * @param purchases ECMSalePurchases deployed for the same ECM and USDT
+     * @param locks ECMSaleLocks deployed for the same ECM and USDT
+     */
+    constructor(address _ecm, address _usdt, address purchases, address locks) ECMSaleBase(_ecm, _usdt) {
+        _purchases = purchases;
+        _locks = locks;
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Get all locks for a user
+     * @param user Address to query locks for
+     * @return amounts Array of lock amounts
+     * @return releaseTimes Array of lock release (cliff end) timestamps
+     * @return claimed Array of amounts already claimed
+     * @return vestingDurations Array of linear vesting durations after releaseTime (0 = cliff only)
+     * @return bonuses Array of volume bonuses included in amounts
+     * @return transferred Array of flags for locks moved to another address
+     */
+    function getUserLocks(address user) external view returns (
+        uint256[] memory amounts,
+        uint256[] memory releaseTimes,
+        uint256[] memory claimed,
+        uint256[] memory vestingDurations,
+        uint256[] memory bonuses,
+        bool[] memory transferred
+    ) {
+        Lock[] storage locks = _userLocks[user];
+        uint256 n = locks.length;
+        amounts = new uint256[](n);
+        releaseTimes = new uint256[](n);
+        claimed = new uint256[](n);
+        vestingDurations = new uint256[](n);
+        bonuses = new uint256[](n);
+        transferred = new bool[](n);
+        
+        for (uint256 i = 0; i < n; i++) {
+            Lock storage L = locks[i];
+            amounts[i] = L.amount;
+            releaseTimes[i] = L.releaseTime;
+            claimed[i] = L.claimed;
+            vestingDurations[i] = L.vestingDuration;
+            bonuses[i] = L.bonus;
+            transferred[i] = L.transferred;
+        }
+    }
+
+    /**
+     * @notice Get what a lock cost and until when it can be cancelled
+     * @param user Lock owner
+     * @param index Lock index
+     * @return usdtCost USDT value paid for the lock (0 for referral bonus locks)
+     * @return refundDeadline cancelPurchase works before this timestamp (0 = not refundable)
+     */
+    function getLockCost(address user, uint256 index) external view returns (
+        uint256 usdtCost,
+        uint256 refundDeadline
+    ) {
+        require(index < _userLocks[user].length, "invalid index");
+        Lock storage L = _userLocks[user][index];
+        return (L.usdtCost, L.refundDeadline);
+    }
+
+    /**
+     * @notice Get the amount a user can claim right now across all locks
+     * @param user Address to query
+     * @return amount Vested but unclaimed ECM
+     */
+    function getClaimableECM(address user) external view returns (uint256 amount) {
+        Lock[] storage locks = _userLocks[user];
+        for (uint256 i = 0; i < locks.length; i++) {
+            amount += _claimable(locks[i]);
+        }
+    }
+
+    /**
+     * @notice Preview an early unlock of one of a user's locks
+     * @dev (0, 0) for transferred or fully claimed locks and inside the lock's refund window
+     * @param user Lock owner
+     * @param index Lock index
+     * @return ecmAmount ECM the user would receive (vested part and redistributed penalties included)
+     * @return penalty ECM the user would forfeit
+     */
+    function getEarlyUnlockPenalty(address user, uint256 index) external view returns (
+        uint256 ecmAmount,
+        uint256 penalty
+    ) {
+        require(index < _userLocks[user].length, "invalid index");
+        Lock storage L = _userLocks[user][index];
+        if (L.transferred || L.claimed == L.amount || block.timestamp < L.refundDeadline) {
+            return (0, 0);
+        }
+        penalty = _earlyUnlockPenalty(L);
+        ecmAmount = _claimable(L) + L.amount - _vested(L) - penalty;
+    }
+
+    /**
+     * @notice Get a tokenized lock
+     * @param tokenId Position NFT id
+     * @return amount Locked ECM
+     * @return releaseTime Release (cliff end) timestamp
+     * @return vestingDuration Linear vesting duration after releaseTime (0 = cliff only)
+     * @return claimed Amount already claimed
+     * @return claimable Vested but unclaimed amount
+     */
+    function getPosition(uint256 tokenId) external view returns (
+        uint256 amount,
+        uint256 releaseTime,
+        uint256 vestingDuration,
+        uint256 claimed,
+        uint256 claimable
+    ) {
+        Lock storage P = _positions[tokenId];
+        require(P.amount > 0, "invalid position");
+        return (P.amount, P.releaseTime, P.vestingDuration, P.claimed, _claimable(P));
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given USDT input
+     * @dev Uses the active round's fixed price or discount, otherwise the price oracle.
+     *      Includes the volume bonus.
+     * @param usdtAmount Amount of USDT to spend
+     * @return Estimated ECM amount to receive
+     */
+    function getEstimatedECMForUSDT(uint256 usdtAmount) external view returns (uint256) {
+        return getEstimatedECMForToken(address(usdt), usdtAmount);
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given amount of an accepted payment token
+     * @dev Same pricing as buyWithToken, volume bonus included
+     * @param token USDT or an accepted payment token
+     * @param amount Amount to spend in token units
+     * @return Estimated ECM amount to receive
+     */
+    function getEstimatedECMForToken(address token, uint256 amount) public view returns (uint256) {
+        uint256 usdtValue = _usdtValue(token, amount);
+        uint256 ecmAmount;
+        if (_rounds.length == 0) {
+            ecmAmount = _marketQuote(token, amount, usdtValue);
+        } else {
+            (bool active, uint256 roundId) = _findActiveRound();
+            require(active, "no active round");
+            SaleRound storage round = _rounds[roundId];
+            if (round.fixedPrice > 0) {
+                ecmAmount = (usdtValue * ECM_UNIT) / round.fixedPrice;
+            } else {
+                ecmAmount = _applyDiscount(_marketQuote(token, amount, usdtValue), round.discountBps);
+            }
+        }
+        return ecmAmount + (ecmAmount * _bonusBps(usdtValue)) / 10000;
+    }
+
+    /**
+     * @notice Get the accepted payment tokens besides USDT
+     */
+    function getPaymentTokens() external view returns (address[] memory) {
+        return _paymentTokens.values();
+    }
+
+    /**
+     * @notice Get the configuration of a payment token
+     * @param token Payment token address
+     * @return accepted True if the token is accepted
+     * @return tokenOracle Oracle quoting in the token's units (0 = sale oracle at par)
+     * @return decimals Token decimals
+     */
+    function getPaymentToken(address token) external view returns (
+        bool accepted,
+        address tokenOracle,
+        uint8 decimals
+    ) {
+        PaymentToken storage config = _paymentTokenConfig[token];
+        return (_paymentTokens.contains(token), address(config.oracle), config.decimals);
+    }
+
+    /**
+     * @notice Get the volume bonus tiers
+     * @return minUSDT Tier thresholds in USDT units, ascending
+     * @return bonusBps Bonus of each tier in basis points
+     */
+    function getBonusTiers() external view returns (uint256[] memory minUSDT, uint16[] memory bonusBps) {
+        uint256 n = _bonusTiers.length;
+        minUSDT = new uint256[](n);
+        bonusBps = new uint16[](n);
+        for (uint256 i = 0; i < n; i++) {
+            minUSDT[i] = _bonusTiers[i].minUSDT;
+            bonusBps[i] = _bonusTiers[i].bonusBps;
+        }
+    }
+
+    /**
+     * @notice Get the treasury recipients USDT proceeds are split over
+     * @return recipients Recipient addresses
+     * @return sharesBps Share of each recipient in basis points
+     */
+    function getTreasury() external view returns (address[] memory recipients, uint16[] memory sharesBps) {
+        uint256 n = _treasuryRecipients.length;
+        recipients = new address[](n);
+        sharesBps = new uint16[](n);
+        for (uint256 i = 0; i < n; i++) {
+            recipients[i] = _treasuryRecipients[i].account;
+            sharesBps[i] = _treasuryRecipients[i].shareBps;
+        }
+    }
+
+    /**
+     * @notice Get the round purchases are currently routed to
+     * @return active False if no round is open right now
+     * @return roundId Index of the active round (meaningless if not active)
+     */
+    function getCurrentRound() external view returns (bool active, uint256 roundId) {
+        (active, roundId) = _findActiveRound();
+    }
+
+    /**
+     * @notice Get a sale round, including ECM sold and USDT raised in it
+     * @param roundId Round index
+     */
+    function getRound(uint256 roundId) external view returns (SaleRound memory) {
+        require(roundId < _rounds.length, "invalid round");
+        return _rounds[roundId];
+    }
+
+    /**
+     * @notice Number of sale rounds created
+     */
+    function roundCount() external view returns (uint256) {
+        return _rounds.length;
+    }
+
+    /**
+     * @notice USDT a wallet can still spend under the wallet cap and the hard cap
+     * @dev Ignores the per-transaction min/max
+     * @param user Address to query
+     * @return Remaining USDT allowance (type(uint256).max if uncapped)
+     */
+    function getRemainingAllowance(address user) external view returns (uint256) {
+        uint256 remaining = type(uint256).max;
+        if (walletCapUSDT > 0) {
+            remaining = _remaining(walletCapUSDT, usdtContributed[user]);
+        }
+        if (hardCapUSDT > 0) {
+            uint256 global = _remaining(hardCapUSDT, totalUSDTRaised);
+            if (global < remaining) {
+                remaining = global;
+            }
+        }
+        return remaining;
+    }
+
+    /**
+     * @notice Compare the oracle's quote with the circuit breaker reference
+     * @param usdtAmount Amount of USDT to quote
+     * @return ecmAmount Quote from the price oracle
+     * @return referenceECMAmount Quote from the reference oracle
+     * @return deviationBps Absolute deviation of the quote from the reference in basis points
+     */
+    function getPriceDeviation(uint256 usdtAmount) external view returns (
+        uint256 ecmAmount,
+        uint256 referenceECMAmount,
+        uint256 deviationBps
+    ) {
+        require(address(referenceOracle) != address(0), "no reference");
+        ecmAmount = oracle.getECMForUSDT(usdtAmount);
+        referenceECMAmount = referenceOracle.getECMForUSDT(usdtAmount);
+        deviationBps = _deviationBps(ecmAmount, referenceECMAmount);
+    }
+
+    /**
+     * @notice Value of a payment token amount in USDT units, used for caps, rounds and bonus tiers
+     * @dev Stablecoins count at par: only the decimals are normalized
+     * @param token USDT or an accepted payment token
+     * @param amount Amount in token units
+     * @return USDT-equivalent amount
+     */
+    function getUSDTValue(address token, uint256 amount) external view returns (uint256) {
+        return _usdtValue(token, amount);
+    }
+
+    /**
+     * @notice Get the volume bonus for a purchase size
+     * @param usdtAmount Amount of USDT to spend
+     * @return Bonus in basis points of the ECM bought (0 below the first tier)
+     */
+    function getBonusBps(uint256 usdtAmount) external view returns (uint16) {
+        return _bonusBps(usdtAmount);
+    }
+
+    /**
+     * @notice Get the sale status from the schedule
+     * @dev Ignores pause state, rounds and caps
+     * @return Upcoming before saleStart, Ended from saleEnd on, Active otherwise
+     */
+    function getSaleStatus() external view returns (SaleStatus) {
+        return _saleStatus();
+    }
+
+    /**
+     * @notice Check an allowlist proof against the current root
+     * @param account Allowlisted address
+     * @param usdtCap Lifetime USDT cap encoded in the leaf (0 = no per-address cap)
+     * @param proof Merkle proof for the leaf
+     * @return True if the proof is valid
+     */
+    function isAllowlisted(address account, uint256 usdtCap, bytes32[] calldata proof) external view returns (bool) {
+        return _isAllowlisted(account, usdtCap, proof);
+    }
+
+    /**
+     * @notice Get available ECM that admin can withdraw
+     * @dev Available = contract balance - locked tokens; everything once the sale failed
+     * @return Amount of ECM available for withdrawal
+     */
+    function availableECM() external view returns (uint256) {
+        return _availableECM();
+    }
+
+    // ============ User Functions ============
+
+    /**
+     * @notice Buy ECM with USDT and lock for 6 months
+     * @dev Buyer must approve USDT beforehand. If the price deviation guard trips
+     *      with pauseOnDeviation set, the sale is paused and nothing is bought.
+     * @param usdtAmount Amount of USDT to spend
+     * @param minECM Minimum ECM to receive, volume bonus included (slippage protection)
+     */
+    function buyWithUSDT(uint256 usdtAmount, uint256 minECM) 
+        external 
+        nonReentrant 
+        whenNotPaused 
+    {
+        _delegateToPurchases(abi.encodeCall(ECMSalePurchases.buyWithUSDT, (usdtAmount, minECM)));
+    }
+
+    /**
+     * @notice Buy ECM with an accepted payment token (or USDT) and lock it
+     * @dev Buyer must approve the token beforehand. Caps, rounds and bonus tiers use
+     *      the amount's USDT value (see getUSDTValue).
+     * @param token USDT or an accepted payment token
+     * @param amount Amount to spend in token units
+     * @param minECM Minimum ECM to receive, volume bonus included (slippage protection)
+     */
+    function buyWithToken(address token, uint256 amount, uint256 minECM)
+        external
+        nonReentrant
+        whenNotPaused
+    {
+        _delegateToPurchases(abi.encodeCall(ECMSalePurchases.buyWithToken, (token, amount, minECM)));
+    }
+
+    /**
+     * @notice Approve with an EIP-2612 permit and buy in one transaction
+     * @dev For permit-capable stablecoins (e.g. USDC) among USDT and the accepted payment tokens.
+     *      If the permit fails (e.g. it was front-run), an existing allowance is used instead.
+     * @param token USDT or an accepted payment token
+     * @param amount Amount to spend in token units (the permit value)
+     * @param minECM Minimum ECM to receive, volume bonus included (slippage protection)
+     * @param deadline Permit deadline
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function buyWithPermit(
+        address token,
+        uint256 amount,
+        uint256 minECM,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        _delegateToPurchases(
+            abi.encodeCall(ECMSalePurchases.buyWithPermit, (token, amount, minECM, deadline, v, r, s))
+        );
+    }
+
+    /**
+     * @notice Buy with a Permit2 signature transfer in one transaction
+     * @dev For tokens without EIP-2612 (e.g. USDT), among USDT and the accepted payment tokens.
+     *      The buyer approves Permit2 once, then signs a PermitTransferFrom for amount of token
+     *      with this contract as spender.
+     * @param token USDT or an accepted payment token
+     * @param amount Amount to spend in token units (the permitted amount)
+     * @param minECM Minimum ECM to receive, volume bonus included (slippage protection)
+     * @param nonce Permit2 nonce
+     * @param deadline Permit2 signature deadline
+     * @param signature Permit2 signature
+     */
+    function buyWithPermit2(
+        address token,
+        uint256 amount,
+        uint256 minECM,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused {
+        _delegateToPurchases(
+            abi.encodeCall(ECMSalePurchases.buyWithPermit2, (token, amount, minECM, nonce, deadline, signature))
+        );
+    }
+
+    /**
+     * @notice Swap ETH to USDT through the router and buy ECM with it
+     * @dev The whole msg.value is swapped along [WETH, USDT]; the USDT received is the
+     *      purchase amount. If the price deviation guard pauses the sale, the USDT is sent
+     *      back to the buyer instead.
+     * @param minUSDTOut Minimum USDT from the swap (swap slippage protection)
+     * @param minECM Minimum ECM to receive, volume bonus included (slippage protection)
+     * @param deadline Swap deadline
+     */
+    function buyWithETH(uint256 minUSDTOut, uint256 minECM, uint256 deadline)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+    {
+        _delegateToPurchases(abi.encodeCall(ECMSalePurchases.buyWithETH, (minUSDTOut, minECM, deadline)));
+    }
+
+    /**
+     * @notice Buy ECM with the caller's USDT and lock it for a beneficiary
+     * @dev For custodians paying from an omnibus wallet. Caps apply to the beneficiary.
+     * @param beneficiary Address credited with the lock
+     * @param usdtAmount Amount of USDT to spend
+     * @param minECM Minimum ECM to receive, volume bonus included (slippage protection)
+     */
+    function buyFor(address beneficiary, uint256 usdtAmount, uint256 minECM)
+        external
+        nonReentrant
+        whenNotPaused
+    {
+        _delegateToPurchases(abi.encodeCall(ECMSalePurchases.buyFor, (beneficiary, usdtAmount, minECM)));
+    }
+
+    /**
+     * @notice Buy ECM with USDT on behalf of a referrer
+     * @dev The first referred purchase binds the referrer to the buyer for good;
+     *      later referred purchases must name the same referrer. The referrer gets
+     *      referralBonusBps of the ECM bought as a lock with the same schedule.
+     * @param usdtAmount Amount of USDT to spend
+     * @param minECM Minimum ECM to receive (slippage protection)
+     * @param referrer Address that referred the buyer
+     */
+    function buyWithUSDTReferred(uint256 usdtAmount, uint256 minECM, address referrer)
+        external
+        nonReentrant
+        whenNotPaused
+    {
+        _delegateToPurchases(abi.encodeCall(ECMSalePurchases.buyWithUSDTReferred, (usdtAmount, minECM, referrer)));
+    }
+
+    /**
+     * @notice Buy ECM with USDT as an allowlisted address
+     * @dev Works in both allowlist and public mode. usdtCap limits the caller's
+     *      lifetime contribution, including purchases made in public mode.
+     * @param usdtAmount Amount of USDT to spend
+     * @param minECM Minimum ECM to receive (slippage protection)
+     * @param usdtCap Lifetime USDT cap encoded in the caller's leaf (0 = no per-address cap)
+     * @param proof Merkle proof for the caller's leaf
+     */
+    function buyWithUSDTAllowlisted(
+        uint256 usdtAmount,
+        uint256 minECM,
+        uint256 usdtCap,
+        bytes32[] calldata proof
+    ) external nonReentrant whenNotPaused {
+        _delegateToPurchases(
+            abi.encodeCall(ECMSalePurchases.buyWithUSDTAllowlisted, (usdtAmount, minECM, usdtCap, proof))
+        );
+    }
+
+    /**
+     * @notice Buy ECM with the caller's USDT for an allowlisted beneficiary
+     * @dev The proof and usdtCap are the beneficiary's.
+     * @param beneficiary Allowlisted address credited with the lock
+     * @param usdtAmount Amount of USDT to spend
+     * @param minECM Minimum ECM to receive, volume bonus included (slippage protection)
+     * @param usdtCap Lifetime USDT cap encoded in the beneficiary's leaf (0 = no per-address cap)
+     * @param proof Merkle proof for the beneficiary's leaf
+     */
+    function buyForAllowlisted(
+        address beneficiary,
+        uint256 usdtAmount,
+        uint256 minECM,
+        uint256 usdtCap,
+        bytes32[] calldata proof
+    ) external nonReentrant whenNotPaused {
+        _delegateToPurchases(
+            abi.encodeCall(ECMSalePurchases.buyForAllowlisted, (beneficiary, usdtAmount, minECM, usdtCap, proof))
+        );
+    }
+
+    /**
+     * @notice Claim all unlocked tokens
+     * @dev Iterates through all locks and claims everything vested so far
+     */
+    function claimAllUnlocked() external nonReentrant whenNotPaused {
+        _delegateToLocks(abi.encodeCall(ECMSaleLocks.claimAllUnlocked, ()));
+    }
+
+    /**
+     * @notice Claim specific locks by index
+     * @dev More gas efficient when user has many locks. Claims what has vested so far.
+     * @param indices Array of lock indices to claim
+     */
+    function claimLocks(uint256[] calldata indices) external nonReentrant whenNotPaused {
+        _delegateToLocks(abi.encodeCall(ECMSaleLocks.claimLocks, (indices)));
+    }
+
+    /**
+     * @notice Cancel a purchase inside its refund window and get the USDT back
+     * @dev For your own USDT purchases made while refundWindow was set. The lock's ECM (volume
+     *      bonus included) and the referral bonus it paid go back to inventory. Locks cannot be
+     *      transferred, tokenized or unlocked early until their refund window closes.
+     * @param index Index of the purchase's lock in the caller's locks
+     * @return usdtAmount USDT refunded
+     */
+    function cancelPurchase(uint256 index) external nonReentrant whenNotPaused returns (uint256 usdtAmount) {
+        return abi.decode(_delegateToLocks(abi.encodeCall(ECMSaleLocks.cancelPurchase, (index))), (uint256));
+    }
+
+    /**
+     * @notice Release one of your locks now, minus the early unlock penalty
+     * @dev The vested part and redistributed penalties are paid in full; the penalty applies to the
+     *      unvested part and decays linearly from earlyUnlockPenaltyBps at lock creation to 0 when
+     *      the lock is fully unlocked. Preview with getEarlyUnlockPenalty.
+     * @param index Index of the lock in the caller's locks
+     * @return ecmAmount ECM sent to the caller
+     * @return penalty ECM forfeited
+     */
+    function earlyUnlock(uint256 index)
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256 ecmAmount, uint256 penalty)
+    {
+        return abi.decode(_delegateToLocks(abi.encodeCall(ECMSaleLocks.earlyUnlock, (index))), (uint256, uint256));
+    }
+
+    /**
+     * @notice Move one of your locks to another address
+     * @dev The recipient gets a new lock with the same amount, schedule and claimed progress;
+     *      the original stays at its index, flagged as transferred, so indices never shift.
+     * @param index Index of the lock in the caller's locks
+     * @param to Recipient
+     * @return toIndex Index of the lock in the recipient's locks
+     */
+    function transferLock(uint256 index, address to)
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256 toIndex)
+    {
+        return abi.decode(_delegateToLocks(abi.encodeCall(ECMSaleLocks.transferLock, (index, to))), (uint256));
+    }
+
+    /**
+     * @notice Move several of your locks to the same address
+     * @param indices Indices of the locks in the caller's locks
+     * @param to Recipient
+     */
+    function transferLocks(uint256[] calldata indices, address to) external nonReentrant whenNotPaused {
+        _delegateToLocks(abi.encodeCall(ECMSaleLocks.transferLocks, (indices, to)));
+    }
+
+    /**
+     * @notice Turn one of your locks into an ERC-721 position
+     * @dev The lock moves to the position as with transferLock: it stays at its index,
+     *      flagged as transferred, and is claimed with claimPositions from then on.
+     * @param index Index of the lock in the caller's locks
+     * @return tokenId Id of the position NFT minted to the caller
+     */
+    function tokenizeLock(uint256 index) external nonReentrant whenNotPaused returns (uint256 tokenId) {
+        return abi.decode(_delegateToLocks(abi.encodeCall(ECMSaleLocks.tokenizeLock, (index))), (uint256));
+    }
+
+    /**
+     * @notice Claim what has vested on position NFTs you hold
+     * @dev A fully claimed position's NFT is burned
+     * @param tokenIds Position NFT ids
+     */
+    function claimPositions(uint256[] calldata tokenIds) external nonReentrant whenNotPaused {
+        _delegateToLocks(abi.encodeCall(ECMSaleLocks.claimPositions, (tokenIds)));
+    }
+
+    /**
+     * @notice Decide whether the sale met its soft cap
+     * @dev Anyone can call once. Succeeds as soon as the USDT raised, less USDT still reserved for
+     *      refunds, reaches softCapUSDT; fails if the sale ended below it.
+     * @return outcome Succeeded or Failed
+     */
+    function finalizeSale() external returns (SaleOutcome outcome) {
+        return abi.decode(_delegateToPurchases(abi.encodeCall(ECMSalePurchases.finalizeSale, ())), (SaleOutcome));
+    }
+
+    /**
+     * @notice Reclaim what you paid in a payment token after the sale failed its soft cap
+     * @dev A failed sale voids all locks. Purchases made with buyFor are refunded to the beneficiary;
+     *      ETH purchases are refunded in USDT.
+     * @param token Payment token to reclaim (USDT or another accepted stablecoin)
+     * @return amount Amount refunded in token units
+     */
+    function claimRefund(address token) external nonReentrant returns (uint256 amount) {
+        return abi.decode(_delegateToPurchases(abi.encodeCall(ECMSalePurchases.claimRefund, (token))), (uint256));
+    }
+
+    /**
+     * @notice Pay the USDT proceeds to the treasury recipients
+     * @dev Anyone can call in Forward or Distribute mode, with a soft cap only once the sale
+     *      succeeded. USDT reserved for refunds stays.
+     * @return amount USDT paid out
+     */
+    function distribute() external nonReentrant whenNotPaused returns (uint256 amount) {
+        return abi.decode(_delegateToPurchases(abi.encodeCall(ECMSalePurchases.distribute, ())), (uint256));
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Withdraw available ECM (not locked)
+     * @dev Only TREASURER_ROLE can call. Cannot withdraw locked user tokens.
+     * @param amount Amount to withdraw
+     */
+    function withdrawAvailableECM(uint256 amount) external onlyRole(TREASURER_ROLE) nonReentrant {
+        uint256 avail = _availableECM();
+        require(amount <= avail, "amount > available");
+        IERC20(ecm).safeTransfer(msg.sender, amount);
+        emit WithdrawECM(msg.sender, amount);
+    }
+
+    /**
+     * @notice Withdraw all unsold ECM once the sale has ended
+     * @dev Only TREASURER_ROLE can call. Locked user tokens stay in the contract for claims.
+     * @return amount ECM withdrawn
+     */
+    function withdrawUnsoldECM() external onlyRole(TREASURER_ROLE) nonReentrant returns (uint256 amount) {
+        require(_saleStatus() == SaleStatus.Ended, "sale not ended");
+        amount = _availableECM();
+        require(amount > 0, "nothing to withdraw");
+        IERC20(ecm).safeTransfer(msg.sender, amount);
+        emit WithdrawECM(msg.sender, amount);
+    }
+
+    /**
+     * @notice Withdraw USDT proceeds
+     * @dev Only TREASURER_ROLE can call, and with a soft cap only once the sale succeeded.
+     *      USDT reserved for purchases inside their refund window stays.
+     * @param amount Amount to withdraw
+     */
+    function withdrawUSDT(uint256 amount) external onlyRole(TREASURER_ROLE) nonReentrant {
+        _withdrawProceeds(address(usdt), amount);
+        emit WithdrawUSDT(msg.sender, amount);
+    }
+
+    /**
+     * @notice Withdraw proceeds in any payment token
+     * @dev Only TREASURER_ROLE can call. ECM goes through withdrawAvailableECM/withdrawUnsoldECM.
+     * @param token Payment token to withdraw (USDT included)
+     * @param amount Amount to withdraw in token units
+     */
+    function withdrawProceeds(address token, uint256 amount) external onlyRole(TREASURER_ROLE) nonReentrant {
+        require(token != address(ecm), "use ECM withdrawal");
+        _withdrawProceeds(token, amount);
+        emit WithdrawProceeds(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Route USDT proceeds to treasury recipients by share
+     * @dev Only TREASURER_ROLE can call. Forward pays out on every USDT purchase, Distribute when
+     *      anyone calls distribute(); both stop withdrawUSDT. Manual (with empty arrays) goes back
+     *      to withdrawals. Other payment tokens are always withdrawn.
+     * @param recipients Treasury wallets, at most MAX_TREASURY_RECIPIENTS
+     * @param sharesBps Share of each recipient in basis points, summing to 10000
+     * @param mode Manual, Forward or Distribute
+     */
+    function setTreasury(
+        address[] calldata recipients,
+        uint16[] calldata sharesBps,
+        TreasuryMode mode
+    ) external onlyRole(TREASURER_ROLE) {
+        _delegateToPurchases(abi.encodeCall(ECMSalePurchases.setTreasury, (recipients, sharesBps, mode)));
+    }
+
+    /**
+     * @notice Accept a payment token, or update its oracle
+     * @dev Only ORACLE_MANAGER_ROLE can call. The token's decimals are read once here. With a timelock
+     *      delay, propose the call first with proposeChange(TimelockedParam.PaymentToken, ...).
+     * @param token Stablecoin to accept (not USDT, which is always accepted)
+     * @param tokenOracle Oracle quoting ECM for amounts in the token's units,
+     *        or 0 to price it at par with USDT through the sale oracle
+     */
+    function setPaymentToken(address token, address tokenOracle) external onlyRole(ORACLE_MANAGER_ROLE) {
+        _checkTimelockedCall(TimelockedParam.PaymentToken);
+        require(token != address(0), "zero addr");
+        require(token != address(usdt) && token != address(ecm), "invalid token");
+        uint8 decimals = IERC20Metadata(token).decimals();
+        _paymentTokens.add(token);
+        _paymentTokenConfig[token] = PaymentToken({oracle: IPriceOracle(tokenOracle), decimals: decimals});
+        emit PaymentTokenUpdated(token, tokenOracle, decimals);
+    }
+
+    /**
+     * @notice Stop accepting a payment token
+     * @dev Only ORACLE_MANAGER_ROLE can call. Its proceeds stay withdrawable.
+     * @param token Payment token to remove
+     */
+    function removePaymentToken(address token) external onlyRole(ORACLE_MANAGER_ROLE) {
+        require(_paymentTokens.remove(token), "token not accepted");
+        delete _paymentTokenConfig[token];
+        emit PaymentTokenRemoved(token);
+    }
+
+    /**
+     * @notice Update the price oracle
+     * @dev Only ORACLE_MANAGER_ROLE can call, and only without a timelock delay; otherwise
+     *      propose the change with proposeChange(TimelockedParam.Oracle, ...). Use with caution.
+     * @param newOracle New IPriceOracle adapter address
+     */
+    function setOracle(address newOracle) external onlyRole(ORACLE_MANAGER_ROLE) {
+        require(timelockDelay == 0, "timelocked");
+        _validateChange(TimelockedParam.Oracle, uint160(newOracle));
+        _applyChange(TimelockedParam.Oracle, uint160(newOracle));
+    }
+
+    /**
+     * @notice Set the Permit2 contract used by buyWithPermit2
+     * @dev Only CONFIG_ADMIN_ROLE can call. Zero address disables Permit2 purchases.
+     * @param newPermit2 Permit2 address (0x000000000022D473030F116dDEE9F6B43aC78BA3 on most chains)
+     */
+    function setPermit2(address newPermit2) external onlyRole(CONFIG_ADMIN_ROLE) {
+        permit2 = ISignatureTransfer(newPermit2);
+        emit Permit2Updated(newPermit2);
+    }
+
+    /**
+     * @notice Set the Uniswap V2 router used by buyWithETH
+     * @dev Only CONFIG_ADMIN_ROLE can call. Zero address disables ETH purchases.
+     * @param newRouter Router02 address (needs a WETH/USDT pool)
+     */
+    function setRouter(address newRouter) external onlyRole(CONFIG_ADMIN_ROLE) {
+        router = IUniswapV2Router(newRouter);
+        emit RouterUpdated(newRouter);
+    }
+
+    /**
+     * @notice Allow or forbid lock transfers
+     * @dev Only CONFIG_ADMIN_ROLE can call
+     * @param enabled True to allow transferLock/transferLocks
+     */
+    function setLockTransfersEnabled(bool enabled) external onlyRole(CONFIG_ADMIN_ROLE) {
+        lockTransfersEnabled = enabled;
+        emit LockTransfersUpdated(enabled);
+    }
+
+    /**
+     * @notice Set the ERC-721 contract tokenizeLock mints positions on
+     * @dev Only CONFIG_ADMIN_ROLE can call. Zero address disables tokenizing. Positions are keyed by
+     *      token id and claimed through the current contract, so it cannot change while positions are open.
+     * @param newPositionNFT ECMLockPosition deployed for this sale
+     */
+    function setPositionNFT(address newPositionNFT) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(openPositions == 0, "positions open");
+        positionNFT = IECMLockPosition(newPositionNFT);
+        emit PositionNFTUpdated(newPositionNFT);
+    }
+
+    /**
+     * @notice Configure early unlocks
+     * @dev Only CONFIG_ADMIN_ROLE can call. Applies to existing locks too.
+     * @param enabled True to allow earlyUnlock
+     * @param maxPenaltyBps Penalty right after purchase, in bps of the unvested amount
+     * @param mode What happens to penalties: burned, returned to inventory or redistributed
+     */
+    function setEarlyUnlockConfig(
+        bool enabled,
+        uint16 maxPenaltyBps,
+        PenaltyMode mode
+    ) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(maxPenaltyBps <= 10000, "bps > 10000");
+        earlyUnlockEnabled = enabled;
+        earlyUnlockPenaltyBps = maxPenaltyBps;
+        penaltyMode = mode;
+        emit EarlyUnlockConfigUpdated(enabled, maxPenaltyBps, mode);
+    }
+
+    /**
+     * @notice Set the cooling-off window for future purchases
+     * @dev Only CONFIG_ADMIN_ROLE can call. Does not affect existing purchases. 0 disables refunds.
+     * @param window Seconds after a purchase during which the buyer can cancel it
+     */
+    function setRefundWindow(uint256 window) external onlyRole(CONFIG_ADMIN_ROLE) {
+        refundWindow = window;
+        emit RefundWindowUpdated(window);
+    }
+
+    /**
+     * @notice Set the soft cap the sale must raise for its proceeds to be released
+     * @dev Only CONFIG_ADMIN_ROLE can call, before the first purchase: lifting the cap later would
+     *      release proceeds owed as refunds, and adding one could not refund proceeds already paid out.
+     *      0 disables the soft cap.
+     * @param softCap Soft cap in USDT units
+     */
+    function setSoftCap(uint256 softCap) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(saleOutcome == SaleOutcome.Pending, "sale finalized");
+        require(totalUSDTRaised == 0, "purchases started");
+        softCapUSDT = softCap;
+        emit SoftCapUpdated(softCap);
+    }
+
+    /**
+     * @notice Set lock duration for future purchases
+     * @dev Only CONFIG_ADMIN_ROLE can call, and only without a timelock delay; otherwise propose
+     *      the change with proposeChange(TimelockedParam.LockDuration, ...). Does not affect existing locks.
+     * @param newDuration New lock duration in seconds
+     */
+    function setLockDuration(uint256 newDuration) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(timelockDelay == 0, "timelocked");
+        _applyChange(TimelockedParam.LockDuration, newDuration);
+    }
+
+    /**
+     * @notice Raise the delay of timelocked changes
+     * @dev Only DEFAULT_ADMIN_ROLE can call. Lowering the delay has to wait out the current one
+     *      through proposeChange(TimelockedParam.TimelockDelay, ...).
+     * @param newDelay New delay in seconds, at most MAX_TIMELOCK_DELAY
+     */
+    function setTimelockDelay(uint256 newDelay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newDelay >= timelockDelay, "timelocked");
+        _validateChange(TimelockedParam.TimelockDelay, newDelay);
+        _applyChange(TimelockedParam.TimelockDelay, newDelay);
+    }
+
+    /**
+     * @notice Schedule a change of a timelocked parameter
+     * @dev Requires the role of the matching setter (DEFAULT_ADMIN_ROLE for the delay and upgrades).
+     *      The change can be executed from timelockDelay after now until TIMELOCK_GRACE_PERIOD later, and
+     *      replaces a change of the same parameter that is still pending. Oracle, LockDuration and
+     *      TimelockDelay changes are executed with executeChange; the others by calling their setter
+     *      (setReferenceOracle, setPriceDeviationGuard, setPaymentToken, createRound) with the
+     *      proposed arguments once ready, and an Upgrade by upgradeToAndCall to the proposed
+     *      implementation (ECMSaleUpgradeable only).
+     * @param param Parameter to change
+     * @param value New value; an oracle or implementation address is passed as uint256(uint160(addr)).
+     *        For setter-executed parameters, the keccak256 hash of the setter call's calldata
+     * @return readyAt Time from which executeChange applies the change
+     */
+    function proposeChange(TimelockedParam param, uint256 value) external returns (uint256 readyAt) {
+        _checkRole(_timelockRole(param));
+        _validateChange(param, value);
+        readyAt = block.timestamp + timelockDelay;
+        pendingChanges[param] = PendingChange(value, readyAt);
+        emit ChangeProposed(param, value, readyAt);
+    }
+
+    /**
+     * @notice Apply a proposed change once its delay has passed
+     * @dev Requires the role of the matching setter. Reverts before readyAt and after the grace period.
+     * @param param Parameter to change
+     */
+    function executeChange(TimelockedParam param) external {
+        _checkRole(_timelockRole(param));
+        uint256 value = pendingChanges[param].value;
+        _takeChange(param, value);
+        _applyChange(param, value);
+    }
+
+    /**
+     * @notice Drop a proposed change
+     * @dev Requires the role of the matching setter or DEFAULT_ADMIN_ROLE
+     * @param param Parameter whose pending change to drop
+     */
+    function cancelChange(TimelockedParam param) external {
+        if (!hasRole(DEFAULT_ADMIN_ROLE, msg.sender)) {
+            _checkRole(_timelockRole(param));
+        }
+        PendingChange memory change = pendingChanges[param];
+        require(change.readyAt > 0, "no pending change");
+        delete pendingChanges[param];
+        emit ChangeCancelled(param, change.value);
+    }
+
+    /**
+     * @notice Set linear vesting duration for future purchases
+     * @dev Only CONFIG_ADMIN_ROLE can call. Does not affect existing locks. 0 restores cliff-only locks.
+     * @param newDuration Seconds over which a lock vests after its release time
+     */
+    function setVestingDuration(uint256 newDuration) external onlyRole(CONFIG_ADMIN_ROLE) {
+        vestingDuration = newDuration;
+        emit VestingDurationUpdated(newDuration);
+    }
+
+    /**
+     * @notice Set the purchase window
+     * @dev Only CONFIG_ADMIN_ROLE can call. Purchases revert outside [start, end); claims are not affected.
+     * @param start Sale start timestamp (0 = open now)
+     * @param end Sale end timestamp (0 = no end)
+     */
+    function setSaleSchedule(uint64 start, uint64 end) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(end == 0 || start < end, "bad window");
+        saleStart = start;
+        saleEnd = end;
+        emit SaleScheduleUpdated(start, end);
+    }
+
+    /**
+     * @notice Configure purchase caps, all in USDT units (0 = no limit)
+     * @dev Only CONFIG_ADMIN_ROLE can call. Lowering a cap below what was already raised blocks
+     *      further purchases.
+     * @param minPurchase Min USDT per purchase
+     * @param maxPurchase Max USDT per purchase
+     * @param walletCap Max lifetime USDT per wallet
+     * @param hardCap Max USDT raised by the sale
+     */
+    function setPurchaseCaps(
+        uint256 minPurchase,
+        uint256 maxPurchase,
+        uint256 walletCap,
+        uint256 hardCap
+    ) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(maxPurchase == 0 || minPurchase <= maxPurchase, "min > max");
+        minPurchaseUSDT = minPurchase;
+        maxPurchaseUSDT = maxPurchase;
+        walletCapUSDT = walletCap;
+        hardCapUSDT = hardCap;
+        emit PurchaseCapsUpdated(minPurchase, maxPurchase, walletCap, hardCap);
+    }
+
+    /**
+     * @notice Rotate the allowlist Merkle root
+     * @dev Only CONFIG_ADMIN_ROLE can call. Proofs against the previous root stop working.
+     * @param root New root (build it with the `allowlist` Hardhat task)
+     */
+    function setAllowlistRoot(bytes32 root) external onlyRole(CONFIG_ADMIN_ROLE) {
+        allowlistRoot = root;
+        emit AllowlistRootUpdated(root);
+    }
+
+    /**
+     * @notice Switch the sale between allowlist-only and public mode
+     * @dev Only CONFIG_ADMIN_ROLE can call. Requires a root to enable.
+     * @param enabled True to only accept allowlisted purchases
+     */
+    function setAllowlistOnly(bool enabled) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(!enabled || allowlistRoot != bytes32(0), "no root");
+        allowlistOnly = enabled;
+        emit AllowlistModeUpdated(enabled);
+    }
+
+    /**
+     * @notice Replace the volume bonus tiers
+     * @dev Only CONFIG_ADMIN_ROLE can call. Pass empty arrays to disable bonuses.
+     * @param minUSDT Tier thresholds in USDT units, strictly ascending
+     * @param bonusBps Bonus of each tier in basis points of the ECM bought
+     */
+    function setBonusTiers(
+        uint256[] calldata minUSDT,
+        uint16[] calldata bonusBps
+    ) external onlyRole(CONFIG_ADMIN_ROLE) {
+        _delegateToPurchases(abi.encodeCall(ECMSalePurchases.setBonusTiers, (minUSDT, bonusBps)));
+    }
+
+    /**
+     * @notice Set the referral bonus for future referred purchases
+     * @dev Only CONFIG_ADMIN_ROLE can call. Bonuses are drawn from availableECM().
+     * @param bonusBps Bonus in basis points of the ECM bought (0 disables)
+     */
+    function setReferralBonusBps(uint16 bonusBps) external onlyRole(CONFIG_ADMIN_ROLE) {
+        require(bonusBps <= 10000, "bps > 10000");
+        referralBonusBps = bonusBps;
+        emit ReferralBonusUpdated(bonusBps);
+    }
+
+    /**
+     * @notice Schedule a new sale round after the existing ones
+     * @dev Only CONFIG_ADMIN_ROLE can call. Once any round exists, purchases outside an open round revert.
+     *      With a timelock delay, propose the call first with proposeChange(TimelockedParam.Round, ...).
+     * @param start Round start timestamp (inclusive)
+     * @param end Round end timestamp (exclusive)
+     * @param ecmCap Max ECM sold in the round
+     * @param fixedPrice USDT units per 1 ECM, or 0 to use the oracle price
+     * @param discountBps Discount to the oracle price in basis points (must be 0 with a fixed price)
+     * @param roundLockDuration Lock duration for purchases in this round
+     * @return roundId Index of the new round
+     */
+    function createRound(
+        uint64 start,
+        uint64 end,
+        uint256 ecmCap,
+        uint256 fixedPrice,
+        uint16 discountBps,
+        uint256 roundLockDuration
+    ) external onlyRole(CONFIG_ADMIN_ROLE) returns (uint256 roundId) {
+        _checkTimelockedCall(TimelockedParam.Round);
+        bytes memory data = abi.encodeCall(
+            ECMSalePurchases.createRound,
+            (start, end, ecmCap, fixedPrice, discountBps, roundLockDuration)
+        );
+        return abi.decode(_delegateToPurchases(data), (uint256));
+    }
+
+    /**
+     * @notice Set the oracle the price deviation guard compares against
+     * @dev Only ORACLE_MANAGER_ROLE can call. Zero address is rejected while the guard is enabled.
+     *      With a timelock delay, propose the call first with proposeChange(TimelockedParam.ReferenceOracle, ...).
+     * @param newOracle New reference IPriceOracle adapter address
+     */
+    function setReferenceOracle(address newOracle) external onlyRole(ORACLE_MANAGER_ROLE) {
+        _checkTimelockedCall(TimelockedParam.ReferenceOracle);
+        require(newOracle != address(0) || maxPriceDeviationBps == 0, "guard enabled");
+        referenceOracle = IPriceOracle(newOracle);
+        emit ReferenceOracleUpdated(msg.sender, newOracle);
+    }
+
+    /**
+     * @notice Configure the oracle-vs-reference price circuit breaker
+     * @dev Only ORACLE_MANAGER_ROLE can call. Requires a reference oracle to enable. With a timelock
+     *      delay, only enabling the guard or lowering its threshold applies at once; propose anything
+     *      else first with proposeChange(TimelockedParam.PriceDeviationGuard, ...).
+     * @param maxDeviationBps Max allowed deviation in basis points (0 disables)
+     * @param pauseOnBreach Pause the sale instead of reverting on breach
+     */
+    function setPriceDeviationGuard(
+        uint16 maxDeviationBps,
+        bool pauseOnBreach
+    ) external onlyRole(ORACLE_MANAGER_ROLE) {
+        bool tightens = maxDeviationBps != 0 && (maxPriceDeviationBps == 0 || maxDeviationBps <= maxPriceDeviationBps);
+        if (!tightens) {
+            _checkTimelockedCall(TimelockedParam.PriceDeviationGuard);
+        }
+        require(maxDeviationBps <= 10000, "bps > 10000");
+        require(maxDeviationBps == 0 || address(referenceOracle) != address(0), "no reference");
+        maxPriceDeviationBps = maxDeviationBps;
+        pauseOnDeviation = pauseOnBreach;
+        emit PriceDeviationGuardUpdated(maxDeviationBps, pauseOnBreach);
+    }
+
+    /**
+     * @notice Pause contract (emergency)
+     * @dev Only PAUSER_ROLE can call. Prevents buy and claim operations.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @notice Unpause contract
+     * @dev Only PAUSER_ROLE can call
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Set the oracle and the default lock duration, and give msg.sender every role; they hand
+     *      them over with grantRole/renounceRole
+     */
+    function _initSale(address _oracle) internal {
+        require(_oracle != address(0), "zero addr");
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(TREASURER_ROLE, msg.sender);
+        _grantRole(ORACLE_MANAGER_ROLE, msg.sender);
+        _grantRole(CONFIG_ADMIN_ROLE, msg.sender);
+        oracle = IPriceOracle(_oracle);
+        lockDuration = 180 days;
+    }
+
+    /**
+     * @dev Role allowed to change a timelocked parameter
+     */
+    function _timelockRole(TimelockedParam param) internal pure returns (bytes32) {
+        if (param == TimelockedParam.LockDuration || param == TimelockedParam.Round) {
+            return CONFIG_ADMIN_ROLE;
+        } else if (param == TimelockedParam.TimelockDelay || param == TimelockedParam.Upgrade) {
+            return DEFAULT_ADMIN_ROLE;
+        }
+        return ORACLE_MANAGER_ROLE;
+    }
+
+    /**
+     * @dev Checks shared by the setters and proposeChange
+     */
+    function _validateChange(TimelockedParam param, uint256 value) internal pure {
+        if (param == TimelockedParam.Oracle || param == TimelockedParam.Upgrade) {
+            require(value != 0 && value <= type(uint160).max, "zero addr");
+        } else if (param == TimelockedParam.TimelockDelay) {
+            require(value <= MAX_TIMELOCK_DELAY, "delay too long");
+        }
+    }
+
+    /**
+     * @dev Consume the pending change of param, which must carry value and be executable now
+     */
+    function _takeChange(TimelockedParam param, uint256 value) internal {
+        PendingChange memory change = pendingChanges[param];
+        require(change.readyAt > 0, "no pending change");
+        require(change.value == value, "not proposed");
+        require(block.timestamp >= change.readyAt, "change not ready");
+        require(block.timestamp <= change.readyAt + TIMELOCK_GRACE_PERIOD, "change expired");
+        delete pendingChanges[param];
+        emit ChangeExecuted(param, value);
+    }
+
+    /**
+     * @dev With a timelock delay, let a setter run only as the execution of a proposed change
+     *      whose value is the keccak256 hash of this call's calldata
+     */
+    function _checkTimelockedCall(TimelockedParam param) internal {
+        if (timelockDelay > 0) {
+            _takeChange(param, uint256(keccak256(msg.data)));
+        }
+    }
+
+    /**
+     * @dev Set a timelocked parameter and emit its update event. The other parameters are applied
+     *      by their setters.
+     */
+    function _applyChange(TimelockedParam param, uint256 value) internal {
+        if (param == TimelockedParam.Oracle) {
+            oracle = IPriceOracle(address(uint160(value)));
+            emit OracleUpdated(msg.sender, address(uint160(value)));
+        } else if (param == TimelockedParam.LockDuration) {
+            lockDuration = value;
+            emit LockDurationUpdated(value);
+        } else if (param == TimelockedParam.TimelockDelay) {
+            timelockDelay = value;
+            emit TimelockDelayUpdated(value);
+        } else {
+            revert("call the setter");
+        }
+    }
+
+    /**
+     * @dev Run a purchase or payout in ECMSalePurchases against this contract's storage, bubbling up reverts
+     * @return Return data of the call
+     */
+    function _delegateToPurchases(bytes memory data) internal returns (bytes memory) {
+        return Address.functionDelegateCall(_purchases, data);
+    }
+
+    /**
+     * @dev Run a lock operation in ECMSaleLocks against this contract's storage, bubbling up reverts.
+     *      Locks are void once the sale failed its soft cap.
+     * @return Return data of the call
+     */
+    function _delegateToLocks(bytes memory data) internal returns (bytes memory) {
+        require(saleOutcome != SaleOutcome.Failed, "sale failed");
+        return Address.functionDelegateCall(_locks, data);
+    }
+
+    /**
+     * @dev Send amount of a payment token to the owner, keeping USDT reserved for refunds.
+     *      With a soft cap, nothing leaves until the sale succeeded. Routed USDT goes through distribute().
+     */
+    function _withdrawProceeds(address token, uint256 amount) internal {
+        require(_softCapMet(), "soft cap not met");
+        uint256 bal = IERC20(token).balanceOf(address(this));
+        require(amount <= bal, "amount > balance");
+        if (token == address(usdt)) {
+            require(treasuryMode == TreasuryMode.Manual, "treasury routed");
+            _releaseRefundReserve();
+            require(amount + refundReserve <= bal, "refunds reserved");
+        }
+        IERC20(token).safeTransfer(msg.sender, amount);
+    }
+
+    /**
+     * @dev View counterpart of _quote, without refresh or deviation guard
+     */
+    function _marketQuote(address token, uint256 amount, uint256 usdtValue) internal view returns (uint256) {
+        IPriceOracle tokenOracle = _paymentTokenConfig[token].oracle;
+        if (token == address(usdt) || address(tokenOracle) == address(0)) {
+            return oracle.getECMForUSDT(usdtValue);
+        }
+        return tokenOracle.getECMForUSDT(amount);
+    }
+
+    /**
+     * @dev cap - used, floored at 0
+     */
+    function _remaining(uint256 cap, uint256 used) internal pure returns (uint256) {
+        return cap > used ? cap - used : 0;
+    }
+
+}
@@ -0,0 +1,268 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./ECMSaleBase.sol";
+
+/**
+ * @title ECMSaleLocks
+ * @dev Lock operations of ECMSale (claims, cancellations, early unlocks, transfers and positions),
+ *      split out to keep ECMSale under the contract size limit. ECMSale deploys it (ECMSaleUpgradeable
+ *      takes a deployed one) and delegatecalls it from functions of the same name, which apply
+ *      nonReentrant and whenNotPaused; called directly it only sees its own empty storage.
+ *      With a soft cap, everything but cancelPurchase waits until the sale met it: ECM taken out
+ *      of a lock could not be voided if the sale then fails and refunds the buyer.
+ */
+contract ECMSaleLocks is ECMSaleBase {
+    using SafeERC20 for IERC20;
+
+    constructor(address _ecm, address _usdt) ECMSaleBase(_ecm, _usdt) {}
+
+    // ============ Lock Functions ============
+
+    /**
+     * @dev Implements ECMSale.claimAllUnlocked
+     */
+    function claimAllUnlocked() external {
+        require(_softCapMet(), "soft cap not met");
+        Lock[] storage locks = _userLocks[msg.sender];
+        uint256 n = locks.length;
+        require(n > 0, "no locks");
+        
+        uint256 totalToTransfer = 0;
+        for (uint256 i = 0; i < n; i++) {
+            if (_claimable(locks[i]) > 0) {
+                uint256 claimable = _claim(locks[i]);
+                totalToTransfer += claimable;
+                emit Claim(msg.sender, claimable, i);
+            }
+        }
+        
+        require(totalToTransfer > 0, "nothing unlocked");
+        totalLocked -= totalToTransfer;
+        IERC20(ecm).safeTransfer(msg.sender, totalToTransfer);
+    }
+
+    /**
+     * @dev Implements ECMSale.claimLocks
+     */
+    function claimLocks(uint256[] calldata indices) external {
+        require(_softCapMet(), "soft cap not met");
+        Lock[] storage locks = _userLocks[msg.sender];
+        uint256 n = locks.length;
+        uint256 totalToTransfer = 0;
+        
+        for (uint256 i = 0; i < indices.length; i++) {
+            uint256 idx = indices[i];
+            require(idx < n, "invalid index");
+            Lock storage L = locks[idx];
+            require(!L.transferred, "lock transferred");
+            require(L.claimed < L.amount, "already claimed");
+            require(block.timestamp >= L.refundDeadline, "in refund window");
+            uint256 claimable = _claim(L);
+            require(claimable > 0, "not yet unlocked");
+            
+            totalToTransfer += claimable;
+            emit Claim(msg.sender, claimable, idx);
+        }
+        
+        require(totalToTransfer > 0, "nothing to claim");
+        totalLocked -= totalToTransfer;
+        IERC20(ecm).safeTransfer(msg.sender, totalToTransfer);
+    }
+
+    /**
+     * @dev Implements ECMSale.earlyUnlock
+     */
+    function earlyUnlock(uint256 index) external returns (uint256 ecmAmount, uint256 penalty) {
+        require(earlyUnlockEnabled, "early unlock disabled");
+        require(_softCapMet(), "soft cap not met");
+        Lock storage L = _movableLock(index);
+        penalty = _earlyUnlockPenalty(L);
+        ecmAmount = _claim(L);
+        uint256 unvested = L.amount - L.claimed;
+        L.claimed = L.amount;
+        L.rewardDebt = 0;
+        totalLockWeight -= unvested;
+        ecmAmount += unvested - penalty;
+        totalLocked -= ecmAmount;
+
+        PenaltyMode mode = penaltyMode;
+        if (mode == PenaltyMode.Redistribute && totalLockWeight > 0) {
+            // stays in totalLocked until the remaining lockers claim it
+            accPenaltyPerWeight += (penalty * ACC_PRECISION) / totalLockWeight;
+        } else {
+            totalLocked -= penalty;
+            if (mode == PenaltyMode.Burn) {
+                IERC20(ecm).safeTransfer(BURN_ADDRESS, penalty);
+            }
+        }
+
+        IERC20(ecm).safeTransfer(msg.sender, ecmAmount);
+        emit EarlyUnlock(msg.sender, index, ecmAmount, penalty, mode);
+    }
+
+    /**
+     * @dev Implements ECMSale.cancelPurchase
+     */
+    function cancelPurchase(uint256 index) external returns (uint256 usdtAmount) {
+        Lock[] storage locks = _userLocks[msg.sender];
+        require(index < locks.length, "invalid index");
+        Lock storage L = locks[index];
+        require(block.timestamp < L.refundDeadline, "refund window closed");
+        require(L.usdtCost > 0, "not refundable");
+
+        usdtAmount = L.usdtCost;
+        uint256 ecmAmount = L.amount;
+        if (L.saleRound > 0) {
+            _unrecordRoundPurchase(L.saleRound - 1, ecmAmount - L.bonus, usdtAmount);
+        }
+        _voidLock(L);
+
+        uint256 bonusIndex = _referralLocks[msg.sender][index];
+        if (bonusIndex > 0) {
+            address referrer = referrerOf[msg.sender];
+            Lock storage B = _userLocks[referrer][bonusIndex - 1];
+            referralEarnings[referrer] -= B.amount;
+            _voidLock(B);
+            delete _referralLocks[msg.sender][index];
+        }
+
+        usdtContributed[msg.sender] -= usdtAmount;
+        totalUSDTRaised -= usdtAmount;
+        tokenRaised[address(usdt)] -= usdtAmount;
+        tokenContributed[msg.sender][address(usdt)] -= usdtAmount;
+        _unreserveRefund(usdtAmount, L.refundDeadline);
+        L.refundDeadline = 0;
+
+        usdt.safeTransfer(msg.sender, usdtAmount);
+        emit PurchaseCancelled(msg.sender, index, usdtAmount, ecmAmount);
+    }
+
+    /**
+     * @dev Implements ECMSale.transferLock
+     */
+    function transferLock(uint256 index, address to) external returns (uint256 toIndex) {
+        return _transferLock(index, to);
+    }
+
+    /**
+     * @dev Implements ECMSale.transferLocks
+     */
+    function transferLocks(uint256[] calldata indices, address to) external {
+        for (uint256 i = 0; i < indices.length; i++) {
+            _transferLock(indices[i], to);
+        }
+    }
+
+    /**
+     * @dev Implements ECMSale.tokenizeLock
+     */
+    function tokenizeLock(uint256 index) external returns (uint256 tokenId) {
+        require(address(positionNFT) != address(0), "positions disabled");
+        require(_softCapMet(), "soft cap not met");
+        Lock storage L = _movableLock(index);
+        tokenId = positionNFT.mint(msg.sender);
+        _positions[tokenId] = L;
+        openPositions++;
+        L.transferred = true;
+        emit LockTokenized(msg.sender, index, tokenId);
+    }
+
+    /**
+     * @dev Implements ECMSale.claimPositions
+     */
+    function claimPositions(uint256[] calldata tokenIds) external {
+        require(_softCapMet(), "soft cap not met");
+        uint256 totalToTransfer = 0;
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            uint256 tokenId = tokenIds[i];
+            require(positionNFT.ownerOf(tokenId) == msg.sender, "not position owner");
+            Lock storage P = _positions[tokenId];
+            uint256 claimable = _claim(P);
+            require(claimable > 0, "not yet unlocked");
+
+            totalToTransfer += claimable;
+            emit PositionClaim(msg.sender, claimable, tokenId);
+            if (P.claimed == P.amount) {
+                positionNFT.burn(tokenId);
+                openPositions--;
+            }
+        }
+
+        require(totalToTransfer > 0, "nothing to claim");
+        totalLocked -= totalToTransfer;
+        IERC20(ecm).safeTransfer(msg.sender, totalToTransfer);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Mark the claimable amount of a lock as claimed. The caller transfers it and
+     *      takes it off totalLocked.
+     * @return amount Vested principal plus redistributed penalties
+     */
+    function _claim(Lock storage L) internal returns (uint256 amount) {
+        uint256 principal = _vested(L) - L.claimed;
+        amount = principal + _pendingPenalties(L);
+        L.claimed += principal;
+        totalLockWeight -= principal;
+        L.rewardDebt = ((L.amount - L.claimed) * accPenaltyPerWeight) / ACC_PRECISION;
+    }
+
+    /**
+     * @dev Copy msg.sender's lock at index to `to` and flag the original as transferred.
+     *      totalLocked is unchanged since the ECM stays locked.
+     */
+    function _transferLock(uint256 index, address to) internal returns (uint256 toIndex) {
+        require(lockTransfersEnabled, "transfers disabled");
+        require(_softCapMet(), "soft cap not met");
+        require(to != address(0), "zero addr");
+        require(to != msg.sender, "self transfer");
+        Lock storage L = _movableLock(index);
+        _userLocks[to].push(L);
+        L.transferred = true;
+        toIndex = _userLocks[to].length - 1;
+        emit LockTransferred(msg.sender, to, index, toIndex);
+    }
+
+    /**
+     * @dev msg.sender's lock at index, which must not be transferred, fully claimed or inside
+     *      a refund window. Callers copy it, then flag it as transferred.
+     */
+    function _movableLock(uint256 index) internal view returns (Lock storage L) {
+        Lock[] storage locks = _userLocks[msg.sender];
+        require(index < locks.length, "invalid index");
+        L = locks[index];
+        require(!L.transferred, "lock transferred");
+        require(L.claimed < L.amount, "already claimed");
+        require(block.timestamp >= L.refundDeadline, "in refund window");
+    }
+
+    /**
+     * @dev Take a cancelled purchase out of its round's figures, reopening the round if the
+     *      purchase sold it out before its end
+     */
+    function _unrecordRoundPurchase(uint256 roundId, uint256 ecmAmount, uint256 usdtAmount) internal {
+        SaleRound storage round = _rounds[roundId];
+        round.ecmSold -= ecmAmount;
+        round.usdtRaised -= usdtAmount;
+        if (roundCursor > roundId && block.timestamp < round.end) {
+            roundCursor = roundId;
+        }
+    }
+
+    /**
+     * @dev Shrink a lock to what was already claimed and return the rest, with its redistributed
+     *      penalties, to inventory
+     */
+    function _voidLock(Lock storage L) internal {
+        uint256 unclaimed = L.amount - L.claimed;
+        totalLocked -= unclaimed + _pendingPenalties(L);
+        totalLockWeight -= unclaimed;
+        L.amount = L.claimed;
+        L.bonus = 0;
+        L.rewardDebt = 0;
+    }
+}
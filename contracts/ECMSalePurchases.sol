@@ -0,0 +1,610 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "./ECMSaleBase.sol";
+
+/**
+ * @title ECMSalePurchases
+ * @dev Purchase functions of ECMSale (pricing, caps, rounds, bonuses, referrals and the price
+ *      deviation guard) and the setters of rounds, bonus tiers and the treasury, split out to keep
+ *      ECMSale under the contract size limit. ECMSale deploys it (ECMSaleUpgradeable takes a deployed
+ *      one) and delegatecalls it from functions of the same name, which apply nonReentrant and
+ *      whenNotPaused (onlyRole for the setters).
+ *      Pausable is inherited right after ECMSaleBase, as in ECMSale, so the guard can pause the
+ *      sale; called directly it only sees its own empty storage.
+ */
+contract ECMSalePurchases is ECMSaleBase, Pausable {
+    using SafeERC20 for IERC20;
+
+    constructor(address _ecm, address _usdt) ECMSaleBase(_ecm, _usdt) {}
+
+    // ============ Purchase Functions ============
+
+    /**
+     * @dev Implements ECMSale.buyWithUSDT
+     */
+    function buyWithUSDT(uint256 usdtAmount, uint256 minECM) external {
+        require(!allowlistOnly, "allowlist only");
+        _buyAndPay(msg.sender, address(usdt), usdtAmount, minECM, address(0));
+    }
+
+    /**
+     * @dev Implements ECMSale.buyWithToken
+     */
+    function buyWithToken(address token, uint256 amount, uint256 minECM) external {
+        require(!allowlistOnly, "allowlist only");
+        _buyAndPay(msg.sender, token, amount, minECM, address(0));
+    }
+
+    /**
+     * @dev Implements ECMSale.buyWithPermit
+     */
+    function buyWithPermit(
+        address token,
+        uint256 amount,
+        uint256 minECM,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        require(!allowlistOnly, "allowlist only");
+        // reverts for tokens not accepted before calling into them
+        _usdtValue(token, amount);
+        try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {
+        } catch {
+            require(IERC20(token).allowance(msg.sender, address(this)) >= amount, "permit failed");
+        }
+        _buyAndPay(msg.sender, token, amount, minECM, address(0));
+    }
+
+    /**
+     * @dev Implements ECMSale.buyWithPermit2
+     */
+    function buyWithPermit2(
+        address token,
+        uint256 amount,
+        uint256 minECM,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(!allowlistOnly, "allowlist only");
+        require(address(permit2) != address(0), "permit2 disabled");
+        if (!_buy(msg.sender, token, amount, minECM, address(0))) {
+            return;
+        }
+        permit2.permitTransferFrom(
+            ISignatureTransfer.PermitTransferFrom({
+                permitted: ISignatureTransfer.TokenPermissions({token: token, amount: amount}),
+                nonce: nonce,
+                deadline: deadline
+            }),
+            ISignatureTransfer.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+            msg.sender,
+            signature
+        );
+        if (token == address(usdt)) {
+            _forwardProceeds();
+        }
+    }
+
+    /**
+     * @dev Implements ECMSale.buyWithETH
+     */
+    function buyWithETH(uint256 minUSDTOut, uint256 minECM, uint256 deadline) external payable {
+        require(!allowlistOnly, "allowlist only");
+        require(address(router) != address(0), "router disabled");
+        require(msg.value > 0, "zero ETH");
+
+        address[] memory path = new address[](2);
+        path[0] = router.WETH();
+        path[1] = address(usdt);
+        uint256 balanceBefore = usdt.balanceOf(address(this));
+        router.swapExactETHForTokens{value: msg.value}(minUSDTOut, path, address(this), deadline);
+        uint256 usdtAmount = usdt.balanceOf(address(this)) - balanceBefore;
+
+        if (!_buy(msg.sender, address(usdt), usdtAmount, minECM, address(0))) {
+            usdt.safeTransfer(msg.sender, usdtAmount);
+        } else {
+            _forwardProceeds();
+        }
+    }
+
+    /**
+     * @dev Implements ECMSale.buyFor
+     */
+    function buyFor(address beneficiary, uint256 usdtAmount, uint256 minECM) external {
+        require(!allowlistOnly, "allowlist only");
+        require(beneficiary != address(0), "zero beneficiary");
+        _buyAndPay(beneficiary, address(usdt), usdtAmount, minECM, address(0));
+    }
+
+    /**
+     * @dev Implements ECMSale.buyWithUSDTReferred
+     */
+    function buyWithUSDTReferred(uint256 usdtAmount, uint256 minECM, address referrer) external {
+        require(!allowlistOnly, "allowlist only");
+        require(referrer != address(0), "zero referrer");
+        _buyAndPay(msg.sender, address(usdt), usdtAmount, minECM, referrer);
+    }
+
+    /**
+     * @dev Implements ECMSale.buyWithUSDTAllowlisted
+     */
+    function buyWithUSDTAllowlisted(
+        uint256 usdtAmount,
+        uint256 minECM,
+        uint256 usdtCap,
+        bytes32[] calldata proof
+    ) external {
+        _checkAllowlist(msg.sender, usdtAmount, usdtCap, proof);
+        _buyAndPay(msg.sender, address(usdt), usdtAmount, minECM, address(0));
+    }
+
+    /**
+     * @dev Implements ECMSale.buyForAllowlisted
+     */
+    function buyForAllowlisted(
+        address beneficiary,
+        uint256 usdtAmount,
+        uint256 minECM,
+        uint256 usdtCap,
+        bytes32[] calldata proof
+    ) external {
+        require(beneficiary != address(0), "zero beneficiary");
+        _checkAllowlist(beneficiary, usdtAmount, usdtCap, proof);
+        _buyAndPay(beneficiary, address(usdt), usdtAmount, minECM, address(0));
+    }
+
+    /**
+     * @dev Implements ECMSale.distribute
+     */
+    function distribute() external returns (uint256 amount) {
+        require(treasuryMode != TreasuryMode.Manual, "treasury not routed");
+        require(_softCapMet(), "soft cap not met");
+        amount = _payTreasury();
+        require(amount > 0, "nothing to distribute");
+    }
+
+    /**
+     * @dev Implements ECMSale.finalizeSale
+     */
+    function finalizeSale() external returns (SaleOutcome outcome) {
+        require(softCapUSDT > 0, "no soft cap");
+        require(saleOutcome == SaleOutcome.Pending, "sale finalized");
+        _releaseRefundReserve();
+        if (totalUSDTRaised >= softCapUSDT + refundReserve) {
+            outcome = SaleOutcome.Succeeded;
+        } else {
+            require(_saleStatus() == SaleStatus.Ended, "soft cap not met");
+            outcome = SaleOutcome.Failed;
+        }
+        saleOutcome = outcome;
+        emit SaleFinalized(outcome, totalUSDTRaised);
+    }
+
+    /**
+     * @dev Implements ECMSale.claimRefund
+     */
+    function claimRefund(address token) external returns (uint256 amount) {
+        require(saleOutcome == SaleOutcome.Failed, "sale not failed");
+        amount = tokenContributed[msg.sender][token];
+        require(amount > 0, "nothing to refund");
+        tokenContributed[msg.sender][token] = 0;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit SoftCapRefund(msg.sender, token, amount);
+    }
+
+    // ============ Configuration Functions ============
+
+    /**
+     * @dev Implements ECMSale.setBonusTiers
+     */
+    function setBonusTiers(uint256[] calldata minUSDT, uint16[] calldata bonusBps) external {
+        require(minUSDT.length == bonusBps.length, "length mismatch");
+        delete _bonusTiers;
+        for (uint256 i = 0; i < minUSDT.length; i++) {
+            require(i == 0 || minUSDT[i] > minUSDT[i - 1], "tiers not ascending");
+            require(bonusBps[i] <= 10000, "bps > 10000");
+            _bonusTiers.push(BonusTier({minUSDT: minUSDT[i], bonusBps: bonusBps[i]}));
+        }
+        emit BonusTiersUpdated(minUSDT, bonusBps);
+    }
+
+    /**
+     * @dev Implements ECMSale.createRound
+     */
+    function createRound(
+        uint64 start,
+        uint64 end,
+        uint256 ecmCap,
+        uint256 fixedPrice,
+        uint16 discountBps,
+        uint256 roundLockDuration
+    ) external returns (uint256 roundId) {
+        require(start < end, "bad window");
+        require(end > block.timestamp, "round ended");
+        require(ecmCap > 0, "zero cap");
+        require(discountBps < 10000, "bps >= 10000");
+        require(fixedPrice == 0 || discountBps == 0, "price and discount");
+        roundId = _rounds.length;
+        require(roundId == 0 || start >= _rounds[roundId - 1].end, "round overlap");
+
+        _rounds.push(SaleRound({
+            start: start,
+            end: end,
+            discountBps: discountBps,
+            ecmCap: ecmCap,
+            fixedPrice: fixedPrice,
+            lockDuration: roundLockDuration,
+            ecmSold: 0,
+            usdtRaised: 0
+        }));
+        emit RoundCreated(roundId, start, end, ecmCap, fixedPrice, discountBps, roundLockDuration);
+    }
+
+    /**
+     * @dev Implements ECMSale.setTreasury
+     */
+    function setTreasury(
+        address[] calldata recipients,
+        uint16[] calldata sharesBps,
+        TreasuryMode mode
+    ) external {
+        require(recipients.length == sharesBps.length, "length mismatch");
+        require(recipients.length <= MAX_TREASURY_RECIPIENTS, "too many recipients");
+        delete _treasuryRecipients;
+        uint256 total;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "zero addr");
+            total += sharesBps[i];
+            _treasuryRecipients.push(TreasuryRecipient({account: recipients[i], shareBps: sharesBps[i]}));
+        }
+        require(total == (mode == TreasuryMode.Manual ? 0 : 10000), "invalid shares");
+        treasuryMode = mode;
+        emit TreasuryUpdated(recipients, sharesBps, mode);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Check the beneficiary's caps, price the purchase and lock the ECM plus volume bonus
+     *      for the beneficiary. With a referrer, also lock the referral bonus (on the ECM bought)
+     *      for them. Caps and pricing use the USDT value of amount. The caller must collect
+     *      amount of token from msg.sender when this returns true.
+     * @return bought False if the guard tripped and paused the sale
+     */
+    function _buy(
+        address beneficiary,
+        address token,
+        uint256 amount,
+        uint256 minECM,
+        address referrer
+    ) internal returns (bool bought) {
+        uint256 usdtAmount = _usdtValue(token, amount);
+        _checkCaps(beneficiary, usdtAmount);
+
+        (bool ok, uint256 ecmAmount, uint256 duration, uint256 saleRound) = _price(token, amount, usdtAmount);
+        if (!ok) {
+            return false;
+        }
+        uint256 volumeBonus = (ecmAmount * _bonusBps(usdtAmount)) / 10000;
+        uint256 lockAmount = ecmAmount + volumeBonus;
+        require(lockAmount >= minECM, "slippage");
+        uint256 referralBonus;
+        if (referrer != address(0)) {
+            _bindReferrer(beneficiary, referrer);
+            referralBonus = (ecmAmount * referralBonusBps) / 10000;
+        }
+        require(lockAmount + referralBonus <= _availableECM(), "insufficient ECM in sale");
+
+        uint256 refundDeadline = _recordContribution(beneficiary, token, amount, usdtAmount);
+        uint256 releaseTime = block.timestamp + duration;
+        uint256 lockIndex = _createLock(
+            beneficiary,
+            lockAmount,
+            volumeBonus,
+            releaseTime,
+            usdtAmount,
+            refundDeadline,
+            saleRound
+        );
+        emit Purchase(beneficiary, msg.sender, token, amount, lockAmount, volumeBonus, releaseTime, lockIndex);
+
+        if (referralBonus > 0) {
+            _lockReferralBonus(referrer, beneficiary, referralBonus, releaseTime, refundDeadline, lockIndex);
+        }
+        return true;
+    }
+
+    /**
+     * @dev Revert unless the sale is open and a purchase worth usdtAmount fits the per-transaction
+     *      limits, the beneficiary's wallet cap and the hard cap
+     */
+    function _checkCaps(address beneficiary, uint256 usdtAmount) internal view {
+        require(usdtAmount > 0, "zero USDT");
+        SaleStatus status = _saleStatus();
+        require(status != SaleStatus.Upcoming, "sale not started");
+        require(status != SaleStatus.Ended, "sale ended");
+        require(usdtAmount >= minPurchaseUSDT, "below min purchase");
+        require(maxPurchaseUSDT == 0 || usdtAmount <= maxPurchaseUSDT, "above max purchase");
+        uint256 contributed = usdtContributed[beneficiary] + usdtAmount;
+        require(walletCapUSDT == 0 || contributed <= walletCapUSDT, "wallet cap exceeded");
+        require(hardCapUSDT == 0 || totalUSDTRaised + usdtAmount <= hardCapUSDT, "hard cap exceeded");
+    }
+
+    /**
+     * @dev Price a purchase in the active round, or at the oracle price with the default lock
+     *      duration when no rounds were created
+     * @return ok False if the guard tripped and paused the sale
+     * @return ecmAmount ECM bought, before the volume bonus
+     * @return duration Lock duration
+     * @return saleRound Round index + 1 (0 = no round)
+     */
+    function _price(address token, uint256 amount, uint256 usdtValue) internal returns (
+        bool ok,
+        uint256 ecmAmount,
+        uint256 duration,
+        uint256 saleRound
+    ) {
+        if (_rounds.length == 0) {
+            (ok, ecmAmount) = _quote(token, amount, usdtValue);
+            duration = lockDuration;
+        } else {
+            (ok, ecmAmount, duration, saleRound) = _roundPurchase(token, amount, usdtValue);
+        }
+    }
+
+    /**
+     * @dev Count a purchase towards the caps and the raised totals, and reserve its USDT for a refund
+     *      when it can be cancelled (only the buyer's own USDT purchases can)
+     * @return refundDeadline End of the purchase's refund window (0 = not refundable)
+     */
+    function _recordContribution(
+        address beneficiary,
+        address token,
+        uint256 amount,
+        uint256 usdtAmount
+    ) internal returns (uint256 refundDeadline) {
+        usdtContributed[beneficiary] += usdtAmount;
+        totalUSDTRaised += usdtAmount;
+        tokenRaised[token] += amount;
+        tokenContributed[beneficiary][token] += amount;
+        if (refundWindow > 0 && token == address(usdt) && beneficiary == msg.sender) {
+            refundDeadline = block.timestamp + refundWindow;
+            _reserveRefund(usdtAmount, refundDeadline);
+        }
+    }
+
+    /**
+     * @dev Lock a referral bonus for the referrer, frozen for the buyer's refund window and linked
+     *      to the purchase at lockIndex so cancelPurchase can void it
+     */
+    function _lockReferralBonus(
+        address referrer,
+        address beneficiary,
+        uint256 referralBonus,
+        uint256 releaseTime,
+        uint256 refundDeadline,
+        uint256 lockIndex
+    ) internal {
+        referralEarnings[referrer] += referralBonus;
+        uint256 bonusLockIndex = _createLock(referrer, referralBonus, 0, releaseTime, 0, refundDeadline, 0);
+        if (refundDeadline > 0) {
+            _referralLocks[beneficiary][lockIndex] = bonusLockIndex + 1;
+        }
+        emit ReferralBonus(referrer, beneficiary, referralBonus, bonusLockIndex);
+    }
+
+    /**
+     * @dev _buy, then take the payment from msg.sender with an allowance
+     */
+    function _buyAndPay(
+        address beneficiary,
+        address token,
+        uint256 amount,
+        uint256 minECM,
+        address referrer
+    ) internal {
+        if (_buy(beneficiary, token, amount, minECM, referrer)) {
+            IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+            if (token == address(usdt)) {
+                _forwardProceeds();
+            }
+        }
+    }
+
+    /**
+     * @dev In Forward mode, pay the USDT that just arrived (and anything left over) to the treasury
+     */
+    function _forwardProceeds() internal {
+        if (treasuryMode == TreasuryMode.Forward && _softCapMet()) {
+            _payTreasury();
+        }
+    }
+
+    /**
+     * @dev Split the USDT balance not reserved for refunds over the treasury recipients by share;
+     *      the last recipient also gets the rounding dust
+     * @return amount USDT paid out
+     */
+    function _payTreasury() internal returns (uint256 amount) {
+        _releaseRefundReserve();
+        uint256 bal = usdt.balanceOf(address(this));
+        if (bal <= refundReserve) {
+            return 0;
+        }
+        amount = bal - refundReserve;
+        uint256 n = _treasuryRecipients.length;
+        uint256 paid;
+        for (uint256 i = 0; i < n; i++) {
+            TreasuryRecipient memory r = _treasuryRecipients[i];
+            uint256 share = i == n - 1 ? amount - paid : (amount * r.shareBps) / 10000;
+            paid += share;
+            treasuryReceived[r.account] += share;
+            usdt.safeTransfer(r.account, share);
+            emit TreasuryPayment(r.account, share);
+        }
+    }
+
+    /**
+     * @dev Require a valid allowlist proof for account and enforce its per-address cap
+     */
+    function _checkAllowlist(
+        address account,
+        uint256 usdtAmount,
+        uint256 usdtCap,
+        bytes32[] calldata proof
+    ) internal view {
+        require(_isAllowlisted(account, usdtCap, proof), "not allowlisted");
+        require(usdtCap == 0 || usdtContributed[account] + usdtAmount <= usdtCap, "allowlist cap exceeded");
+    }
+
+    /**
+     * @dev Push a lock with the current vesting duration and account for it in totalLocked
+     * @return lockIndex Index of the new lock in the beneficiary's locks
+     */
+    function _createLock(
+        address beneficiary,
+        uint256 amount,
+        uint256 bonus,
+        uint256 releaseTime,
+        uint256 usdtCost,
+        uint256 refundDeadline,
+        uint256 saleRound
+    ) internal returns (uint256 lockIndex) {
+        _userLocks[beneficiary].push(Lock({
+            amount: amount,
+            releaseTime: releaseTime,
+            vestingDuration: vestingDuration,
+            claimed: 0,
+            bonus: bonus,
+            transferred: false,
+            start: block.timestamp,
+            rewardDebt: (amount * accPenaltyPerWeight) / ACC_PRECISION,
+            usdtCost: usdtCost,
+            refundDeadline: refundDeadline,
+            saleRound: saleRound
+        }));
+        lockIndex = _userLocks[beneficiary].length - 1;
+        totalLocked += amount;
+        totalLockWeight += amount;
+    }
+
+    /**
+     * @dev Bind referrer to beneficiary on the first referred purchase, rejecting
+     *      self-referral and loops (referrer chains are walked up to the root)
+     */
+    function _bindReferrer(address beneficiary, address referrer) internal {
+        address bound = referrerOf[beneficiary];
+        if (bound != address(0)) {
+            require(bound == referrer, "referrer mismatch");
+            return;
+        }
+        require(referrer != beneficiary, "self referral");
+        for (address a = referrerOf[referrer]; a != address(0); a = referrerOf[a]) {
+            require(a != beneficiary, "referral loop");
+        }
+        referrerOf[beneficiary] = referrer;
+        emit ReferrerBound(beneficiary, referrer);
+    }
+
+    /**
+     * @dev Refresh and read the price oracle, then run the deviation guard
+     * @return ok False if the guard tripped and paused the sale
+     * @return ecmAmount Oracle quote for usdtAmount
+     */
+    function _oracleQuote(uint256 usdtAmount) internal returns (bool ok, uint256 ecmAmount) {
+        oracle.update();
+        ecmAmount = oracle.getECMForUSDT(usdtAmount);
+        ok = maxPriceDeviationBps == 0 || _checkPriceDeviation(usdtAmount, ecmAmount);
+    }
+
+    /**
+     * @dev Market price of a purchase: the token's own oracle if it has one, otherwise the sale
+     *      oracle on the USDT value. Either quote goes through the deviation guard, which compares
+     *      it with the reference oracle's quote for the USDT value.
+     * @return ok False if the guard tripped and paused the sale
+     * @return ecmAmount ECM quote
+     */
+    function _quote(address token, uint256 amount, uint256 usdtValue) internal returns (bool ok, uint256 ecmAmount) {
+        IPriceOracle tokenOracle = _paymentTokenConfig[token].oracle;
+        if (token == address(usdt) || address(tokenOracle) == address(0)) {
+            return _oracleQuote(usdtValue);
+        }
+        tokenOracle.update();
+        ecmAmount = tokenOracle.getECMForUSDT(amount);
+        ok = maxPriceDeviationBps == 0 || _checkPriceDeviation(usdtValue, ecmAmount);
+    }
+
+    /**
+     * @dev Price a purchase in the active round and record it against the round cap
+     * @return ok False if the guard tripped and paused the sale
+     * @return ecmAmount ECM bought
+     * @return duration Lock duration of the round
+     * @return saleRound Round index + 1
+     */
+    function _roundPurchase(address token, uint256 amount, uint256 usdtAmount) internal returns (
+        bool ok,
+        uint256 ecmAmount,
+        uint256 duration,
+        uint256 saleRound
+    ) {
+        uint256 roundId = _syncRounds();
+        SaleRound storage round = _rounds[roundId];
+
+        if (round.fixedPrice > 0) {
+            ecmAmount = (usdtAmount * ECM_UNIT) / round.fixedPrice;
+        } else {
+            (ok, ecmAmount) = _quote(token, amount, usdtAmount);
+            if (!ok) {
+                return (false, 0, 0, 0);
+            }
+            ecmAmount = _applyDiscount(ecmAmount, round.discountBps);
+        }
+
+        require(round.ecmSold + ecmAmount <= round.ecmCap, "round cap exceeded");
+        round.ecmSold += ecmAmount;
+        round.usdtRaised += usdtAmount;
+        if (round.ecmSold == round.ecmCap) {
+            roundCursor = roundId + 1;
+            emit RoundClosed(roundId, round.ecmSold, round.usdtRaised);
+        }
+        return (true, ecmAmount, round.lockDuration, roundId + 1);
+    }
+
+    /**
+     * @dev Move the cursor past ended rounds, emitting RoundClosed for each
+     * @return roundId Active round
+     */
+    function _syncRounds() internal returns (uint256 roundId) {
+        bool active;
+        (active, roundId) = _findActiveRound();
+        for (uint256 i = roundCursor; i < roundId; i++) {
+            emit RoundClosed(i, _rounds[i].ecmSold, _rounds[i].usdtRaised);
+        }
+        roundCursor = roundId;
+        require(active, "no active round");
+    }
+
+    /**
+     * @dev Check the oracle quote against the reference oracle
+     * @return ok False if the guard tripped and paused the sale
+     */
+    function _checkPriceDeviation(uint256 usdtAmount, uint256 ecmAmount) internal returns (bool ok) {
+        referenceOracle.update();
+        uint256 referenceECMAmount = referenceOracle.getECMForUSDT(usdtAmount);
+        if (_deviationBps(ecmAmount, referenceECMAmount) <= maxPriceDeviationBps) {
+            return true;
+        }
+        require(pauseOnDeviation, "price deviation");
+        _pause();
+        emit PriceDeviationBreached(ecmAmount, referenceECMAmount);
+        return false;
+    }
+}
@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+// compiled for the ignition modules, which deploy this contract behind it
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import "./ECMSaleCore.sol";
+
+/**
+ * @title ECMSaleUpgradeable
+ * @dev ECM sale (see ECMSaleCore) behind an ERC1967Proxy, upgraded by DEFAULT_ADMIN_ROLE through UUPS
+ *      (after the timelock delay, like the other timelocked changes).
+ *
+ * - initialize replaces ECMSale's constructor: it sets the oracle and gives the caller every role
+ * - ECM, USDT and the modules stay immutables of the implementation: every implementation must be
+ *   deployed with the proxy's ECM and USDT, and modules deployed for them. New modules ship with a
+ *   new implementation.
+ * - State lives in ECMSaleBase, followed by OpenZeppelin's Pausable, AccessControl and ReentrancyGuard
+ *   as in ECMSale (the layout the modules run against); none of them relies on its constructor.
+ *   New state goes to the end of ECMSaleBase, shrinking its __gap, or to the end of a new version.
+ *   Initializable and UUPSUpgradeable use ERC-7201 namespaced storage and do not move any slot.
+ */
+contract ECMSaleUpgradeable is ECMSaleCore, Initializable, UUPSUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    constructor(address _ecm, address _usdt, address purchases, address locks) ECMSaleCore(
+        _ecm,
+        _usdt,
+        purchases,
+        locks
+    ) {
+        require(
+            address(ECMSaleBase(purchases).ecm()) == _ecm && address(ECMSaleBase(purchases).usdt()) == _usdt,
+            "module mismatch"
+        );
+        require(
+            address(ECMSaleBase(locks).ecm()) == _ecm && address(ECMSaleBase(locks).usdt()) == _usdt,
+            "module mismatch"
+        );
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Set up the proxy
+     * @dev The caller (usually the proxy deployer) gets every role; hand them over with grantRole/renounceRole
+     * @param _oracle Price oracle
+     */
+    function initialize(address _oracle) external initializer {
+        _initSale(_oracle);
+    }
+
+    /**
+     * @dev Only DEFAULT_ADMIN_ROLE can upgrade, to an implementation deployed with the proxy's ECM and
+     *      USDT. With a timelock delay, the new implementation is proposed first with
+     *      proposeChange(TimelockedParam.Upgrade, uint160(newImplementation)).
+     */
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(
+            ECMSaleBase(newImplementation).ecm() == ecm && ECMSaleBase(newImplementation).usdt() == usdt,
+            "implementation mismatch"
+        );
+        if (timelockDelay > 0) {
+            _takeChange(TimelockedParam.Upgrade, uint160(newImplementation));
+        }
+    }
+}
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/// @notice Lock position NFT as used by ECMSale: the sale mints, burns and checks ownership
+interface IECMLockPosition {
+    function mint(address to) external returns (uint256 tokenId);
+
+    function burn(uint256 tokenId) external;
+
+    function ownerOf(uint256 tokenId) external view returns (address);
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/**
+ * @title IPriceOracle
+ * @dev Pricing source for ECMSale. Adapters wrap a concrete market or feed
+ * (Uniswap V2 spot/TWAP, Chainlink, fixed price, ...).
+ */
+interface IPriceOracle {
+    /**
+     * @notice ECM amount (ECM units) worth usdtAmount (USDT units)
+     * @dev Reverts if no usable price is available
+     */
+    function getECMForUSDT(uint256 usdtAmount) external view returns (uint256 ecmAmount);
+
+    /**
+     * @notice Refresh stored observations before a quote is used
+     * @dev Permissionless. No-op for stateless adapters, must not revert when nothing is due.
+     */
+    function update() external;
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/**
+ * @title IUniswapV2Router
+ * @dev Subset of Uniswap V2 Router02 used by ECMSale.buyWithETH
+ */
+interface IUniswapV2Router {
+    function WETH() external pure returns (address);
+
+    function swapExactETHForTokens(
+        uint amountOutMin,
+        address[] calldata path,
+        address to,
+        uint deadline
+    ) external payable returns (uint[] memory amounts);
+}
@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+import "../interfaces/IPriceOracle.sol";
+
+/**
+ * @title ChainlinkOracle
+ * @dev Prices ECM off a Chainlink ECM/USD aggregator (1 USDT treated as 1 USD)
+ * - Rejects non-positive answers
+ * - Answers from incomplete rounds or older than stalenessThreshold are stale
+ * - While stale, quotes come from fallbackOracle (e.g. the pair), or revert if none is set
+ */
+contract ChainlinkOracle is IPriceOracle {
+    AggregatorV3Interface public immutable feed;
+    IPriceOracle public immutable fallbackOracle;
+    uint256 public immutable stalenessThreshold;
+
+    uint256 private immutable _ecmUnit;
+    uint256 private immutable _usdtUnit;
+
+    constructor(
+        address _feed,
+        address _ecm,
+        address _usdt,
+        uint256 _stalenessThreshold,
+        address _fallbackOracle
+    ) {
+        require(_feed != address(0) && _ecm != address(0) && _usdt != address(0), "zero addr");
+        require(_stalenessThreshold > 0, "zero threshold");
+        feed = AggregatorV3Interface(_feed);
+        fallbackOracle = IPriceOracle(_fallbackOracle);
+        stalenessThreshold = _stalenessThreshold;
+        _ecmUnit = 10 ** IERC20Metadata(_ecm).decimals();
+        _usdtUnit = 10 ** IERC20Metadata(_usdt).decimals();
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given USDT input using the feed price
+     * @param usdtAmount Amount of USDT to spend
+     * @return ECM amount at the feed price (or the fallback's quote if stale)
+     */
+    function getECMForUSDT(uint256 usdtAmount) external view returns (uint256) {
+        (bool fresh, uint256 answer) = latestAnswer();
+        if (!fresh) {
+            require(address(fallbackOracle) != address(0), "stale feed");
+            return fallbackOracle.getECMForUSDT(usdtAmount);
+        }
+        // ecmAmount = usdtAmount [USDT] / answer [USD per ECM]
+        return (usdtAmount * _ecmUnit * 10 ** feed.decimals()) / (_usdtUnit * answer);
+    }
+
+    /**
+     * @notice Forward to the fallback oracle so its observations stay current
+     */
+    function update() external {
+        if (address(fallbackOracle) != address(0)) {
+            fallbackOracle.update();
+        }
+    }
+
+    /**
+     * @notice Latest feed answer and whether it is usable
+     * @return fresh False if the round is incomplete or older than stalenessThreshold
+     * @return answer Latest answer (USD per ECM, feed decimals)
+     */
+    function latestAnswer() public view returns (bool fresh, uint256 answer) {
+        (
+            uint80 roundId,
+            int256 rawAnswer,
+            ,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        ) = feed.latestRoundData();
+        require(rawAnswer > 0, "bad feed price");
+        answer = uint256(rawAnswer);
+        bool incomplete = updatedAt == 0 || answeredInRound < roundId;
+        fresh = !incomplete && block.timestamp - updatedAt <= stalenessThreshold;
+    }
+}
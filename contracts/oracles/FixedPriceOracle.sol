@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/IPriceOracle.sol";
+
+/**
+ * @title FixedPriceOracle
+ * @dev Prices ECM at a constant rate: usdtRate USDT units buy ecmRate ECM units
+ * - e.g. FixedPriceOracle(2e18, 1e6) sells 2 ECM per 1 USDT
+ */
+contract FixedPriceOracle is IPriceOracle {
+    uint256 public immutable ecmRate;
+    uint256 public immutable usdtRate;
+
+    constructor(uint256 _ecmRate, uint256 _usdtRate) {
+        require(_ecmRate > 0 && _usdtRate > 0, "zero rate");
+        ecmRate = _ecmRate;
+        usdtRate = _usdtRate;
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given USDT input at the fixed rate
+     * @param usdtAmount Amount of USDT to spend
+     * @return ECM amount at the fixed rate
+     */
+    function getECMForUSDT(uint256 usdtAmount) external view returns (uint256) {
+        return (usdtAmount * ecmRate) / usdtRate;
+    }
+
+    /**
+     * @notice No-op, the price never changes
+     */
+    function update() external {}
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/IPriceOracle.sol";
+
+/**
+ * @title MinPriceOracle
+ * @dev Quotes whichever of two oracles gives fewer ECM (the higher ECM price)
+ * - e.g. pair spot vs Chainlink, so neither source alone can underprice the sale
+ */
+contract MinPriceOracle is IPriceOracle {
+    IPriceOracle public immutable oracleA;
+    IPriceOracle public immutable oracleB;
+
+    constructor(address _oracleA, address _oracleB) {
+        require(_oracleA != address(0) && _oracleB != address(0), "zero addr");
+        oracleA = IPriceOracle(_oracleA);
+        oracleB = IPriceOracle(_oracleB);
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given USDT input (lower of both quotes)
+     * @param usdtAmount Amount of USDT to spend
+     * @return Lower ECM amount of the two oracles
+     */
+    function getECMForUSDT(uint256 usdtAmount) external view returns (uint256) {
+        uint256 amountA = oracleA.getECMForUSDT(usdtAmount);
+        uint256 amountB = oracleB.getECMForUSDT(usdtAmount);
+        return amountA < amountB ? amountA : amountB;
+    }
+
+    /**
+     * @notice Update both underlying oracles
+     */
+    function update() external {
+        oracleA.update();
+        oracleB.update();
+    }
+}
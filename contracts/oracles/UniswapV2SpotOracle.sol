@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IUniswapV2Pair.sol";
+
+/**
+ * @title UniswapV2SpotOracle
+ * @dev Prices ECM off a Uniswap V2 pair's current reserves
+ * - Cheap and always up to date
+ * - Manipulable within a single block, prefer the TWAP adapter or a deviation guard
+ */
+contract UniswapV2SpotOracle is IPriceOracle {
+    IUniswapV2Pair public immutable pair;
+    bool public immutable usdtIsToken0;
+
+    constructor(address _pair, address _ecm, address _usdt) {
+        require(_pair != address(0), "zero addr");
+        pair = IUniswapV2Pair(_pair);
+        address token0 = pair.token0();
+        address token1 = pair.token1();
+        require(
+            (token0 == _usdt && token1 == _ecm) || (token0 == _ecm && token1 == _usdt),
+            "pair tokens mismatch"
+        );
+        usdtIsToken0 = token0 == _usdt;
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given USDT input using spot price
+     * @param usdtAmount Amount of USDT to spend
+     * @return ECM amount at current reserves
+     */
+    function getECMForUSDT(uint256 usdtAmount) external view returns (uint256) {
+        (uint112 r0, uint112 r1,) = pair.getReserves();
+        (uint256 reserveUSDT, uint256 reserveECM) = usdtIsToken0 ? (r0, r1) : (r1, r0);
+        require(reserveUSDT > 0 && reserveECM > 0, "bad reserves");
+        // ecmAmount = usdtAmount * reserveECM / reserveUSDT
+        return (usdtAmount * reserveECM) / reserveUSDT;
+    }
+
+    /**
+     * @notice No-op, spot pricing keeps no observations
+     */
+    function update() external {}
+}
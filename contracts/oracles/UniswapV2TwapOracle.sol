@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IUniswapV2Pair.sol";
+
+/**
+ * @title UniswapV2TwapOracle
+ * @dev Prices ECM off a Uniswap V2 pair's time-weighted average price
+ * - Built on price0CumulativeLast/price1CumulativeLast (fixed window, like ExampleOracleSimple)
+ * - A new observation is recorded at most once per window via update()
+ * - Quotes revert until one full window has been observed after deployment
+ */
+contract UniswapV2TwapOracle is IPriceOracle {
+    IUniswapV2Pair public immutable pair;
+    bool public immutable usdtIsToken0;
+    uint32 public immutable window;
+
+    // last observation (price = ECM per USDT unit, UQ112x112)
+    uint256 public priceCumulativeLast;
+    uint32 public timestampLast;
+    uint256 public priceAverage;
+
+    event Updated(uint256 priceAverage, uint32 timestamp);
+
+    constructor(address _pair, address _ecm, address _usdt, uint32 _window) {
+        require(_pair != address(0), "zero addr");
+        require(_window > 0, "zero window");
+        pair = IUniswapV2Pair(_pair);
+        address token0 = pair.token0();
+        address token1 = pair.token1();
+        require(
+            (token0 == _usdt && token1 == _ecm) || (token0 == _ecm && token1 == _usdt),
+            "pair tokens mismatch"
+        );
+        usdtIsToken0 = token0 == _usdt;
+        window = _window;
+        (priceCumulativeLast, timestampLast) = _currentCumulativePrice();
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given USDT input using the TWAP
+     * @dev Uses the average an update() in this block would store
+     * @param usdtAmount Amount of USDT to spend
+     * @return ECM amount at the average price
+     */
+    function getECMForUSDT(uint256 usdtAmount) external view returns (uint256) {
+        (uint256 average,,) = _pendingObservation();
+        require(average > 0, "twap not ready");
+        return (usdtAmount * average) >> 112;
+    }
+
+    /**
+     * @notice Record a new observation if a full window has elapsed
+     */
+    function update() external {
+        (uint256 average, uint256 priceCumulative, uint32 timestamp) = _pendingObservation();
+        if (timestamp != timestampLast) {
+            priceCumulativeLast = priceCumulative;
+            timestampLast = timestamp;
+            priceAverage = average;
+            emit Updated(average, timestamp);
+        }
+    }
+
+    /**
+     * @dev Observation as it would be after an update at the current block
+     * @return average Average over the last completed window
+     * @return priceCumulative Cumulative price to store as the new observation
+     * @return timestamp Timestamp to store as the new observation
+     */
+    function _pendingObservation() internal view returns (
+        uint256 average,
+        uint256 priceCumulative,
+        uint32 timestamp
+    ) {
+        (priceCumulative, timestamp) = _currentCumulativePrice();
+        uint32 timeElapsed;
+        unchecked {
+            timeElapsed = timestamp - timestampLast;
+        }
+        if (timeElapsed < window) {
+            return (priceAverage, priceCumulativeLast, timestampLast);
+        }
+        unchecked {
+            average = (priceCumulative - priceCumulativeLast) / timeElapsed;
+        }
+    }
+
+    /**
+     * @dev Pair's ECM-per-USDT cumulative price, extrapolated to the current block
+     *      (same as UniswapV2OracleLibrary.currentCumulativePrices)
+     */
+    function _currentCumulativePrice() internal view returns (uint256 priceCumulative, uint32 timestamp) {
+        timestamp = uint32(block.timestamp % 2**32);
+        priceCumulative = usdtIsToken0 ? pair.price0CumulativeLast() : pair.price1CumulativeLast();
+
+        (uint112 r0, uint112 r1, uint32 pairTimestampLast) = pair.getReserves();
+        if (pairTimestampLast != timestamp && r0 > 0 && r1 > 0) {
+            unchecked {
+                uint32 timeElapsed = timestamp - pairTimestampLast;
+                uint256 price = usdtIsToken0
+                    ? (uint256(r1) << 112) / r0
+                    : (uint256(r0) << 112) / r1;
+                priceCumulative += price * timeElapsed;
+            }
+        }
+    }
+}
@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IUniswapV3Pool.sol";
+import "../libraries/TickMath.sol";
+
+/**
+ * @title UniswapV3TwapOracle
+ * @dev Prices ECM off a Uniswap V3 pool's arithmetic mean tick over a window
+ * - Reads tick cumulatives with observe([window, 0]), like OracleLibrary.consult
+ * - The pool records observations itself, so update() is a no-op
+ * - The pool's observation cardinality must cover the window, otherwise observe() reverts ("OLD")
+ */
+contract UniswapV3TwapOracle is IPriceOracle {
+    IUniswapV3Pool public immutable pool;
+    bool public immutable usdtIsToken0;
+    uint32 public immutable window;
+
+    constructor(address _pool, address _ecm, address _usdt, uint32 _window) {
+        require(_pool != address(0), "zero addr");
+        require(_window > 0, "zero window");
+        pool = IUniswapV3Pool(_pool);
+        address token0 = pool.token0();
+        address token1 = pool.token1();
+        require(
+            (token0 == _usdt && token1 == _ecm) || (token0 == _ecm && token1 == _usdt),
+            "pool tokens mismatch"
+        );
+        usdtIsToken0 = token0 == _usdt;
+        window = _window;
+    }
+
+    /**
+     * @notice Estimate ECM amount for a given USDT input at the mean tick
+     * @param usdtAmount Amount of USDT to spend
+     * @return ECM amount at the time-weighted mean price
+     */
+    function getECMForUSDT(uint256 usdtAmount) external view returns (uint256) {
+        uint160 sqrtPriceX96 = TickMath.getSqrtRatioAtTick(meanTick());
+
+        // price = token1 per token0 = sqrtPriceX96^2 / 2^192 (same as OracleLibrary.getQuoteAtTick)
+        if (sqrtPriceX96 <= type(uint128).max) {
+            uint256 ratioX192 = uint256(sqrtPriceX96) * sqrtPriceX96;
+            return usdtIsToken0
+                ? Math.mulDiv(ratioX192, usdtAmount, 1 << 192)
+                : Math.mulDiv(1 << 192, usdtAmount, ratioX192);
+        }
+        uint256 ratioX128 = Math.mulDiv(sqrtPriceX96, sqrtPriceX96, 1 << 64);
+        return usdtIsToken0
+            ? Math.mulDiv(ratioX128, usdtAmount, 1 << 128)
+            : Math.mulDiv(1 << 128, usdtAmount, ratioX128);
+    }
+
+    /**
+     * @notice No-op, the pool keeps its own observations
+     */
+    function update() external {}
+
+    /**
+     * @notice Arithmetic mean tick over the last window, rounded toward negative infinity
+     */
+    function meanTick() public view returns (int24 tick) {
+        uint32[] memory secondsAgos = new uint32[](2);
+        secondsAgos[0] = window;
+        (int56[] memory tickCumulatives,) = pool.observe(secondsAgos);
+
+        int56 delta = tickCumulatives[1] - tickCumulatives[0];
+        int56 period = int56(uint56(window));
+        tick = int24(delta / period);
+        if (delta < 0 && delta % period != 0) tick--;
+    }
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../ECMSaleUpgradeable.sol";
+
+/**
+ * @title MockECMSaleV2
+ * @dev Second ECMSaleUpgradeable version for upgrade tests
+ * - Appends one state variable after all of V1's state
+ * - Sets it with a reinitializer run by upgradeToAndCall
+ */
+contract MockECMSaleV2 is ECMSaleUpgradeable {
+    uint256 public v2Value;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(
+        address _ecm,
+        address _usdt,
+        address purchases,
+        address locks
+    ) ECMSaleUpgradeable(_ecm, _usdt, purchases, locks) {}
+
+    function initializeV2(uint256 value) external reinitializer(2) {
+        v2Value = value;
+    }
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/**
+ * @title MockERC20Permit
+ * @dev 6-decimal stablecoin with EIP-2612 permit (like USDC)
+ */
+contract MockERC20Permit is ERC20Permit {
+    constructor() ERC20("Mock USD Coin", "USDC") ERC20Permit("Mock USD Coin") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
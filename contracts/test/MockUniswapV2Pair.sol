@@ -5,6 +5,7 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 /// @title MockUniswapV2Pair - Mock Uniswap V2 Pair for testing
 /// @notice Simplified mock that tracks reserves and provides getReserves()
+/// @dev Accumulates price0/price1 cumulatives (UQ112x112) like the real pair
 contract MockUniswapV2Pair {
     address public token0;
     address public token1;
@@ -26,9 +27,7 @@ contract MockUniswapV2Pair {
         uint256 balance0 = IERC20(token0).balanceOf(address(this));
         uint256 balance1 = IERC20(token1).balanceOf(address(this));
         
-        reserve0 = uint112(balance0);
-        reserve1 = uint112(balance1);
-        blockTimestampLast = uint32(block.timestamp % 2**32);
+        _update(uint112(balance0), uint112(balance1));
     }
     
     /// @notice Get current reserves
@@ -44,8 +43,22 @@ contract MockUniswapV2Pair {
     
     /// @notice Manually set reserves (for testing specific scenarios)
     function setReserves(uint112 _reserve0, uint112 _reserve1) external {
+        _update(_reserve0, _reserve1);
+    }
+    
+    /// @notice Accumulate prices with the previous reserves, then store the new ones
+    /// @dev Mirrors UniswapV2Pair._update, overflow of the cumulatives is desired
+    function _update(uint112 _reserve0, uint112 _reserve1) private {
+        uint32 blockTimestamp = uint32(block.timestamp % 2**32);
+        unchecked {
+            uint32 timeElapsed = blockTimestamp - blockTimestampLast;
+            if (timeElapsed > 0 && reserve0 != 0 && reserve1 != 0) {
+                price0CumulativeLast += ((uint256(reserve1) << 112) / reserve0) * timeElapsed;
+                price1CumulativeLast += ((uint256(reserve0) << 112) / reserve1) * timeElapsed;
+            }
+        }
         reserve0 = _reserve0;
         reserve1 = _reserve1;
-        blockTimestampLast = uint32(block.timestamp % 2**32);
+        blockTimestampLast = blockTimestamp;
     }
 }
@@ -1,9 +1,54 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.17;
 
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
 /// @title MockUniswapV2Router - Mock Uniswap V2 Router for testing
-/// @notice Provides getAmountOut and getAmountIn calculations
+/// @notice Provides getAmountOut and getAmountIn calculations, and swaps ETH for a token
+///         against settable reserves. Fund the router with the output token before swapping.
 contract MockUniswapV2Router {
+    address public immutable WETH;
+
+    // ETH and token reserves used to price swapExactETHForTokens
+    uint256 public reserveETH;
+    uint256 public reserveToken;
+
+    constructor(address _weth) {
+        WETH = _weth;
+    }
+
+    /// @notice Set the reserves swaps are priced against
+    /// @param _reserveETH ETH reserve (wei)
+    /// @param _reserveToken Output token reserve (token units)
+    function setReserves(uint256 _reserveETH, uint256 _reserveToken) external {
+        reserveETH = _reserveETH;
+        reserveToken = _reserveToken;
+    }
+
+    /// @notice Swap msg.value ETH for path[1], paid out of the router's balance
+    /// @param amountOutMin Minimum output amount
+    /// @param path [WETH, token]
+    /// @param to Recipient of the output token
+    /// @param deadline Swap deadline
+    /// @return amounts [ETH in, token out]
+    function swapExactETHForTokens(
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256[] memory amounts) {
+        require(deadline >= block.timestamp, "EXPIRED");
+        require(path.length == 2 && path[0] == WETH, "INVALID_PATH");
+
+        amounts = new uint256[](2);
+        amounts[0] = msg.value;
+        amounts[1] = getAmountOut(msg.value, reserveETH, reserveToken);
+        require(amounts[1] >= amountOutMin, "INSUFFICIENT_OUTPUT_AMOUNT");
+
+        reserveETH += amounts[0];
+        reserveToken -= amounts[1];
+        IERC20(path[1]).transfer(to, amounts[1]);
+    }
     
     /// @notice Calculate amount out based on reserves (with 0.3% fee)
     /// @param amountIn Input amount
@@ -14,7 +59,7 @@ contract MockUniswapV2Router {
         uint256 amountIn,
         uint256 reserveIn,
         uint256 reserveOut
-    ) external pure returns (uint256 amountOut) {
+    ) public pure returns (uint256 amountOut) {
         require(amountIn > 0, "INSUFFICIENT_INPUT_AMOUNT");
         require(reserveIn > 0 && reserveOut > 0, "INSUFFICIENT_LIQUIDITY");
         
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/// @title MockUniswapV3Pool - Mock Uniswap V3 pool for testing
+/// @notice Tracks the current tick and answers observe() from recorded tick cumulatives
+/// @dev History starts at deployment; observe() reverts with "OLD" before that, like the real pool
+contract MockUniswapV3Pool {
+    struct Observation {
+        uint32 blockTimestamp;
+        int56 tickCumulative;
+        int24 tick; // tick in effect from blockTimestamp on
+    }
+
+    address public token0;
+    address public token1;
+    int24 public tick;
+
+    Observation[] private observations;
+
+    constructor(address _token0, address _token1, int24 _tick) {
+        token0 = _token0;
+        token1 = _token1;
+        tick = _tick;
+        observations.push(Observation(uint32(block.timestamp), 0, _tick));
+    }
+
+    /// @notice Move the pool to a new tick (simulates a swap)
+    function setTick(int24 _tick) external {
+        uint32 timestamp = uint32(block.timestamp);
+        observations.push(Observation(timestamp, _tickCumulativeAt(timestamp), _tick));
+        tick = _tick;
+    }
+
+    function observe(uint32[] calldata secondsAgos) external view returns (
+        int56[] memory tickCumulatives,
+        uint160[] memory secondsPerLiquidityCumulativeX128s
+    ) {
+        tickCumulatives = new int56[](secondsAgos.length);
+        secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            require(secondsAgos[i] <= block.timestamp, "OLD");
+            uint32 target = uint32(block.timestamp - secondsAgos[i]);
+            require(target >= observations[0].blockTimestamp, "OLD");
+            tickCumulatives[i] = _tickCumulativeAt(target);
+        }
+    }
+
+    /// @dev Latest observation at or before target, extrapolated with its tick
+    function _tickCumulativeAt(uint32 target) private view returns (int56) {
+        uint256 i = observations.length - 1;
+        while (observations[i].blockTimestamp > target) {
+            i--;
+        }
+        Observation memory obs = observations[i];
+        return obs.tickCumulative + int56(obs.tick) * int56(uint56(target - obs.blockTimestamp));
+    }
+}
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+
+/// @title MockV3Aggregator - Mock Chainlink price feed for testing
+/// @notice Returns whatever answer was last pushed with updateAnswer() or updateRoundData()
+contract MockV3Aggregator is AggregatorV3Interface {
+    uint8 public decimals;
+    uint256 public constant version = 0;
+
+    uint80 private latestRound;
+    int256 private latestAnswer;
+    uint256 private latestTimestamp;
+    uint80 private latestAnsweredInRound;
+
+    constructor(uint8 _decimals, int256 _initialAnswer) {
+        decimals = _decimals;
+        updateAnswer(_initialAnswer);
+    }
+
+    /// @notice Push a new answer in a new round at the current timestamp
+    function updateAnswer(int256 _answer) public {
+        latestRound++;
+        latestAnswer = _answer;
+        latestTimestamp = block.timestamp;
+        latestAnsweredInRound = latestRound;
+    }
+
+    /// @notice Set raw round data (for stale or incomplete round scenarios)
+    function updateRoundData(
+        uint80 _roundId,
+        int256 _answer,
+        uint256 _updatedAt,
+        uint80 _answeredInRound
+    ) external {
+        latestRound = _roundId;
+        latestAnswer = _answer;
+        latestTimestamp = _updatedAt;
+        latestAnsweredInRound = _answeredInRound;
+    }
+
+    function description() external pure returns (string memory) {
+        return "ECM / USD";
+    }
+
+    function getRoundData(uint80 _roundId) external view returns (
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) {
+        require(_roundId == latestRound, "No data present");
+        return (latestRound, latestAnswer, latestTimestamp, latestTimestamp, latestAnsweredInRound);
+    }
+
+    function latestRoundData() external view returns (
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) {
+        return (latestRound, latestAnswer, latestTimestamp, latestTimestamp, latestAnsweredInRound);
+    }
+}
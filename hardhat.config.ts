@@ -11,6 +11,7 @@ import "@nomicfoundation/hardhat-ignition";
 import "@nomicfoundation/hardhat-chai-matchers";
 import "@nomicfoundation/hardhat-ignition-ethers";
 import 'hardhat-contract-sizer';
+import "./tasks/allowlist";
 
 dotenv.config();
 
@@ -1,4 +1,10 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { ZeroHash, id } from "ethers";
+
+// Uniswap Permit2, same address on every chain it is deployed to
+const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+// Uniswap V2 Router02 on Ethereum mainnet
+const UNISWAP_V2_ROUTER_ADDRESS = "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D";
 
 /**
  * Ignition module for Ethereum Mainnet deployment
@@ -7,14 +13,26 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
  * - MAINNET_ECM_TOKEN: Address of deployed ECM token
  * - MAINNET_USDT_TOKEN: Address of USDT token (default: 0xdAC17F958D2ee523a2206206994597C13D831ec7)
  * - MAINNET_UNISWAP_PAIR: Address of ECM/USDT Uniswap V2 pair
+ * - MAINNET_SALE_START / MAINNET_SALE_END: Sale window as unix timestamps (default: 0 = open now / no end)
+ * - MAINNET_TIMELOCK_DELAY: Delay of timelocked changes (pricing, lock duration, upgrades) in seconds (default: 2 days)
+ * - MAINNET_ADMIN, MAINNET_PAUSER, MAINNET_TREASURER, MAINNET_ORACLE_MANAGER, MAINNET_CONFIG_ADMIN:
+ *   Role holders (or the admin/pauser/treasurer/oracleManager/configAdmin parameters; default: the deployer)
  * 
  * This module only deploys:
- * - ECMSale Contract (connected to existing tokens and pair)
+ * - UniswapV2SpotOracle (prices ECM off the existing pair)
+ * - ECMSale behind a UUPS proxy (connected to existing tokens and the oracle): ECMSalePurchases and
+ *   ECMSaleLocks modules, the ECMSaleUpgradeable implementation and an ERC1967Proxy initialized
+ *   with the oracle (the deployer gets every role)
+ * - ECMLockPosition (ERC-721 lock positions for the sale)
  * 
  * Post-deployment steps:
  * 1. Transfer ECM tokens to ECMSale contract
  * 2. Verify contract on Etherscan
  * 3. Test with small purchase
+ * 4. Have the deployer renounce DEFAULT_ADMIN_ROLE once the admin is confirmed
+ *
+ * Upgrades: deploy a new implementation with the same ECM and USDT, then DEFAULT_ADMIN_ROLE calls
+ * upgradeToAndCall on ecmSale (the proxy)
  */
 
 const MainnetDeploymentModule = buildModule("MainnetDeployment", (m) => {
@@ -38,19 +56,123 @@ const MainnetDeploymentModule = buildModule("MainnetDeployment", (m) => {
     process.env.MAINNET_UNISWAP_PAIR || ""
   );
 
+  // Sale window (unix timestamps, 0 = open now / no end)
+  const saleStart = m.getParameter(
+    "saleStart",
+    Number(process.env.MAINNET_SALE_START || 0)
+  );
+  const saleEnd = m.getParameter(
+    "saleEnd",
+    Number(process.env.MAINNET_SALE_END || 0)
+  );
+
+  // Permit2 for single-transaction USDT purchases (0x0 = disabled)
+  const permit2Address = m.getParameter("permit2Address", PERMIT2_ADDRESS);
+
+  // Uniswap V2 router for ETH purchases (0x0 = disabled)
+  const routerAddress = m.getParameter("routerAddress", UNISWAP_V2_ROUTER_ADDRESS);
+
+  // Delay of timelocked changes (seconds, 0 = instant changes)
+  const timelockDelay = m.getParameter(
+    "timelockDelay",
+    Number(process.env.MAINNET_TIMELOCK_DELAY || 2 * 24 * 60 * 60)
+  );
+
+  // Role holders (parameters or environment, default: the deployer)
+  const deployer = m.getAccount(0);
+  const admin = m.getParameter("admin", process.env.MAINNET_ADMIN || deployer);
+  const pauser = m.getParameter("pauser", process.env.MAINNET_PAUSER || deployer);
+  const treasurer = m.getParameter("treasurer", process.env.MAINNET_TREASURER || deployer);
+  const oracleManager = m.getParameter("oracleManager", process.env.MAINNET_ORACLE_MANAGER || deployer);
+  const configAdmin = m.getParameter("configAdmin", process.env.MAINNET_CONFIG_ADMIN || deployer);
+
   // ============ Validation ============
   // Note: Validation of addresses should be done at runtime or via environment setup
   // Ignition modules handle parameter validation automatically
 
-  // ============ Deploy ECMSale Contract ============
+  // ============ Deploy Price Oracle ============
   // Pass plain addresses to avoid requiring interface artifacts
-  const ecmSale = m.contract("ECMSale", [ecmTokenAddress, usdtTokenAddress, pairAddress], {
+  const oracle = m.contract("UniswapV2SpotOracle", [pairAddress, ecmTokenAddress, usdtTokenAddress], {
+    id: "UniswapV2SpotOracle",
+  });
+
+  // ============ Deploy ECMSale Behind a UUPS Proxy ============
+  const purchases = m.contract("ECMSalePurchases", [ecmTokenAddress, usdtTokenAddress], {
+    id: "ECMSalePurchases",
+  });
+
+  const locks = m.contract("ECMSaleLocks", [ecmTokenAddress, usdtTokenAddress], {
+    id: "ECMSaleLocks",
+  });
+
+  const implementation = m.contract("ECMSaleUpgradeable", [ecmTokenAddress, usdtTokenAddress, purchases, locks], {
+    id: "ECMSaleImplementation",
+  });
+
+  // initialize runs in the proxy's constructor, called by the deployer
+  const proxy = m.contract("ERC1967Proxy", [implementation, m.encodeFunctionCall(implementation, "initialize", [oracle])], {
+    id: "ECMSaleProxy",
+  });
+
+  const ecmSale = m.contractAt("ECMSaleUpgradeable", proxy, {
     id: "ECMSale",
   });
 
+  const setSaleSchedule = m.call(ecmSale, "setSaleSchedule", [saleStart, saleEnd], {
+    id: "SetSaleSchedule",
+  });
+
+  const setPermit2 = m.call(ecmSale, "setPermit2", [permit2Address], {
+    id: "SetPermit2",
+  });
+
+  const setRouter = m.call(ecmSale, "setRouter", [routerAddress], {
+    id: "SetRouter",
+  });
+
+  // ============ Deploy Lock Position NFT ============
+  const positionNFT = m.contract("ECMLockPosition", [ecmSale], {
+    id: "ECMLockPosition",
+  });
+
+  const setPositionNFT = m.call(ecmSale, "setPositionNFT", [positionNFT], {
+    id: "SetPositionNFT",
+  });
+
+  // ============ Timelock Sensitive Changes ============
+  const setTimelockDelay = m.call(ecmSale, "setTimelockDelay", [timelockDelay], {
+    id: "SetTimelockDelay",
+  });
+
+  // ============ Hand Over Roles ============
+  // Once configured, the deployer renounces each role before granting it, so a holder may be the deployer
+  const grants = [
+    { name: "Pauser", role: id("PAUSER_ROLE"), holder: pauser },
+    { name: "Treasurer", role: id("TREASURER_ROLE"), holder: treasurer },
+    { name: "OracleManager", role: id("ORACLE_MANAGER_ROLE"), holder: oracleManager },
+    { name: "ConfigAdmin", role: id("CONFIG_ADMIN_ROLE"), holder: configAdmin },
+  ].map(({ name, role, holder }) => {
+    const renounce = m.call(ecmSale, "renounceRole", [role, deployer], {
+      id: `Renounce${name}`,
+      after: [setSaleSchedule, setPermit2, setRouter, setPositionNFT, setTimelockDelay],
+    });
+    return m.call(ecmSale, "grantRole", [role, holder], {
+      id: `Grant${name}`,
+      after: [renounce],
+    });
+  });
+
+  m.call(ecmSale, "grantRole", [ZeroHash, admin], {
+    id: "GrantAdmin",
+    after: grants,
+  });
+
   // ============ Return deployed contract ============
   return {
+    oracle,
     ecmSale,
+    ecmSaleImplementation: implementation,
+    positionNFT,
   };
 });
 
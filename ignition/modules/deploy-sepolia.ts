@@ -1,5 +1,8 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
-import { parseEther, parseUnits } from "ethers";
+import { ZeroAddress, ZeroHash, id, parseEther, parseUnits } from "ethers";
+
+// Uniswap Permit2, same address on every chain it is deployed to
+const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
 
 /**
  * Ignition module for Sepolia Testnet deployment
@@ -8,12 +11,22 @@ import { parseEther, parseUnits } from "ethers";
  * 1. Test ECM Token (1B supply)
  * 2. Test USDT Token (10M supply, 6 decimals)
  * 3. Mock Uniswap V2 Pair
- * 4. ECMSale Contract
+ * 4. Uniswap V2 spot price oracle
+ * 5. ECMSale behind a UUPS proxy: ECMSalePurchases and ECMSaleLocks modules, the ECMSaleUpgradeable
+ *    implementation and an ERC1967Proxy initialized with the oracle (the deployer gets every role)
+ * 6. ECMLockPosition (ERC-721 lock positions for the sale)
  * 
  * Configuration:
+ * - Sale window: saleStart/saleEnd parameters (0 = open now / no end)
+ * - Permit2: canonical deployment (permit2Address parameter)
+ * - ETH purchases: disabled unless routerAddress is set (the test USDT has no WETH pool)
  * - Initial reserves: 1M USDT : 2M ECM (1 USDT = 2 ECM)
  * - Sale allocation: 100M ECM
  * - Lock duration: 180 days
+ * - Timelock: pricing, lock duration and upgrade changes wait timelockDelay (default 2 days)
+ * - Roles: admin, pauser, treasurer, oracleManager and configAdmin parameters (default: the
+ *   deployer). The deployer keeps DEFAULT_ADMIN_ROLE until it renounces it.
+ * - Upgrades: DEFAULT_ADMIN_ROLE calls upgradeToAndCall on ecmSale (the proxy)
  */
 
 const SepoliaDeploymentModule = buildModule("SepoliaDeployment", (m) => {
@@ -22,6 +35,18 @@ const SepoliaDeploymentModule = buildModule("SepoliaDeployment", (m) => {
   const saleAllocation = m.getParameter("saleAllocation", parseEther("100000000")); // 100M ECM
   const usdtReserve = m.getParameter("usdtReserve", parseUnits("1000000", 6)); // 1M USDT
   const ecmReserve = m.getParameter("ecmReserve", parseEther("2000000")); // 2M ECM
+  const saleStart = m.getParameter("saleStart", 0); // unix timestamp, 0 = open now
+  const saleEnd = m.getParameter("saleEnd", 0); // unix timestamp, 0 = no end
+  const permit2Address = m.getParameter("permit2Address", PERMIT2_ADDRESS); // 0x0 = disabled
+  const routerAddress = m.getParameter("routerAddress", ZeroAddress); // Uniswap V2 router, 0x0 = disabled
+  const timelockDelay = m.getParameter("timelockDelay", 2 * 24 * 60 * 60); // seconds, 0 = instant changes
+  // Role holders, default: the deployer
+  const deployer = m.getAccount(0);
+  const admin = m.getParameter("admin", deployer); // DEFAULT_ADMIN_ROLE: grants and revokes roles
+  const pauser = m.getParameter("pauser", deployer); // PAUSER_ROLE: pause/unpause
+  const treasurer = m.getParameter("treasurer", deployer); // TREASURER_ROLE: withdrawals
+  const oracleManager = m.getParameter("oracleManager", deployer); // ORACLE_MANAGER_ROLE: oracles, payment tokens
+  const configAdmin = m.getParameter("configAdmin", deployer); // CONFIG_ADMIN_ROLE: everything else
 
   // ============ Step 1: Deploy Test ECM Token ============
   const ecmToken = m.contract("ECMToken", [initialECMSupply], {
@@ -36,7 +61,6 @@ const SepoliaDeploymentModule = buildModule("SepoliaDeployment", (m) => {
   });
 
   // Mint test USDT for deployer
-  const deployer = m.getAccount(0);
   m.call(usdtToken, "mint", [deployer, parseUnits("10000000", 6)], {
     id: "MintTestUSDT",
     after: [usdtToken],
@@ -54,24 +78,108 @@ const SepoliaDeploymentModule = buildModule("SepoliaDeployment", (m) => {
     after: [pair],
   });
 
-  // ============ Step 4: Deploy ECMSale Contract ============
-  const ecmSale = m.contract("ECMSale", [ecmToken, usdtToken, pair], {
+  // ============ Step 4: Deploy Price Oracle ============
+  const oracle = m.contract("UniswapV2SpotOracle", [pair, ecmToken, usdtToken], {
+    id: "UniswapV2SpotOracle",
+    after: [pair],
+  });
+
+  // ============ Step 5: Deploy ECMSale Behind a UUPS Proxy ============
+  const purchases = m.contract("ECMSalePurchases", [ecmToken, usdtToken], {
+    id: "ECMSalePurchases",
+    after: [ecmToken, usdtToken],
+  });
+
+  const locks = m.contract("ECMSaleLocks", [ecmToken, usdtToken], {
+    id: "ECMSaleLocks",
+    after: [ecmToken, usdtToken],
+  });
+
+  const implementation = m.contract("ECMSaleUpgradeable", [ecmToken, usdtToken, purchases, locks], {
+    id: "ECMSaleImplementation",
+    after: [purchases, locks],
+  });
+
+  // initialize runs in the proxy's constructor, called by the deployer
+  const proxy = m.contract("ERC1967Proxy", [implementation, m.encodeFunctionCall(implementation, "initialize", [oracle])], {
+    id: "ECMSaleProxy",
+    after: [implementation, oracle],
+  });
+
+  const ecmSale = m.contractAt("ECMSaleUpgradeable", proxy, {
     id: "ECMSale",
-    after: [ecmToken, usdtToken, pair],
   });
 
-  // ============ Step 5: Transfer ECM to Sale Contract ============
+  const setSaleSchedule = m.call(ecmSale, "setSaleSchedule", [saleStart, saleEnd], {
+    id: "SetSaleSchedule",
+    after: [ecmSale],
+  });
+
+  const setPermit2 = m.call(ecmSale, "setPermit2", [permit2Address], {
+    id: "SetPermit2",
+    after: [ecmSale],
+  });
+
+  const setRouter = m.call(ecmSale, "setRouter", [routerAddress], {
+    id: "SetRouter",
+    after: [ecmSale],
+  });
+
+  // ============ Step 6: Deploy Lock Position NFT ============
+  const positionNFT = m.contract("ECMLockPosition", [ecmSale], {
+    id: "ECMLockPosition",
+    after: [ecmSale],
+  });
+
+  const setPositionNFT = m.call(ecmSale, "setPositionNFT", [positionNFT], {
+    id: "SetPositionNFT",
+    after: [positionNFT],
+  });
+
+  // ============ Step 7: Transfer ECM to Sale Contract ============
   m.call(ecmToken, "transfer", [ecmSale, saleAllocation], {
     id: "FundSaleContract",
     after: [ecmSale],
   });
 
+  // ============ Step 8: Timelock Sensitive Changes ============
+  const setTimelockDelay = m.call(ecmSale, "setTimelockDelay", [timelockDelay], {
+    id: "SetTimelockDelay",
+    after: [ecmSale],
+  });
+
+  // ============ Step 9: Hand Over Roles ============
+  // Once configured, the deployer renounces each role before granting it, so a holder may be the deployer
+  const grants = [
+    { name: "Pauser", role: id("PAUSER_ROLE"), holder: pauser },
+    { name: "Treasurer", role: id("TREASURER_ROLE"), holder: treasurer },
+    { name: "OracleManager", role: id("ORACLE_MANAGER_ROLE"), holder: oracleManager },
+    { name: "ConfigAdmin", role: id("CONFIG_ADMIN_ROLE"), holder: configAdmin },
+  ].map(({ name, role, holder }) => {
+    const renounce = m.call(ecmSale, "renounceRole", [role, deployer], {
+      id: `Renounce${name}`,
+      after: [setSaleSchedule, setPermit2, setRouter, setPositionNFT, setTimelockDelay],
+    });
+    return m.call(ecmSale, "grantRole", [role, holder], {
+      id: `Grant${name}`,
+      after: [renounce],
+    });
+  });
+
+  m.call(ecmSale, "grantRole", [ZeroHash, admin], {
+    id: "GrantAdmin",
+    after: grants,
+  });
+
   // ============ Return deployed contracts ============
   return {
     ecmToken,
     usdtToken,
     pair,
+    oracle,
     ecmSale,
+    ecmSaleImplementation: implementation,
+    positionNFT,
   };
 });
 
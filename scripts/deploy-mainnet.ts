@@ -10,11 +10,17 @@ import { parseEther } from "ethers";
  * 3. Real Uniswap V2 Pair for ECM/USDT (must be created before deployment)
  * 
  * This script only deploys:
- * - ECMSale Contract (connected to real tokens and pair)
+ * - UniswapV2SpotOracle (prices ECM off the real pair)
+ * - ECMSale behind a UUPS proxy (connected to real tokens and the oracle): ECMSalePurchases and
+ *   ECMSaleLocks modules, the ECMSaleUpgradeable implementation and an ERC1967Proxy initialized
+ *   with the oracle (the deployer gets every role)
  * 
  * Configuration:
  * - Lock duration: 180 days
  * - Uses real Uniswap V2 pair for price oracle
+ * - Pricing, lock duration and upgrade changes timelocked by MAINNET_TIMELOCK_DELAY seconds (default: 2 days)
+ * - Role holders from MAINNET_ADMIN, MAINNET_PAUSER, MAINNET_TREASURER, MAINNET_ORACLE_MANAGER
+ *   and MAINNET_CONFIG_ADMIN (default: deployer)
  * - Admin must transfer ECM to sale contract after deployment
  */
 
@@ -40,9 +46,25 @@ async function main() {
   const USDT_TOKEN_ADDRESS = process.env.MAINNET_USDT_TOKEN || "0xdAC17F958D2ee523a2206206994597C13D831ec7"; // Standard USDT
   const UNISWAP_PAIR_ADDRESS = process.env.MAINNET_UNISWAP_PAIR || "";
 
+  const TIMELOCK_DELAY = Number(process.env.MAINNET_TIMELOCK_DELAY || 2 * 24 * 60 * 60);
+
+  // Role holders; the deployer keeps any role left unset
+  const ADMIN_ADDRESS = process.env.MAINNET_ADMIN || deployer.address;
+  const ROLE_HOLDERS = [
+    { role: "PAUSER_ROLE", holder: process.env.MAINNET_PAUSER || deployer.address },
+    { role: "TREASURER_ROLE", holder: process.env.MAINNET_TREASURER || deployer.address },
+    { role: "ORACLE_MANAGER_ROLE", holder: process.env.MAINNET_ORACLE_MANAGER || deployer.address },
+    { role: "CONFIG_ADMIN_ROLE", holder: process.env.MAINNET_CONFIG_ADMIN || deployer.address },
+  ];
+
   console.log("ECM Token Address:       ", ECM_TOKEN_ADDRESS);
   console.log("USDT Token Address:      ", USDT_TOKEN_ADDRESS);
   console.log("Uniswap V2 Pair Address: ", UNISWAP_PAIR_ADDRESS);
+  console.log("Timelock Delay:          ", TIMELOCK_DELAY, "seconds");
+  console.log("Admin:                   ", ADMIN_ADDRESS);
+  for (const { role, holder } of ROLE_HOLDERS) {
+    console.log(`${role}:`.padEnd(26), holder);
+  }
   console.log("");
 
   // ============ Validation ============
@@ -66,6 +88,16 @@ async function main() {
     throw new Error("❌ Invalid UNISWAP_PAIR_ADDRESS");
   }
 
+  if (!ethers.isAddress(ADMIN_ADDRESS)) {
+    throw new Error("❌ Invalid MAINNET_ADMIN");
+  }
+
+  for (const { role, holder } of ROLE_HOLDERS) {
+    if (!ethers.isAddress(holder)) {
+      throw new Error(`❌ Invalid ${role} holder`);
+    }
+  }
+
   console.log("✅ Address validation passed");
   console.log("");
 
@@ -136,35 +168,89 @@ async function main() {
   await new Promise(resolve => setTimeout(resolve, 5000));
   console.log("");
 
-  // ============ Deploy ECMSale Contract ============
-  console.log("📝 Deploying ECMSale Contract...");
-  const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
-  
-  const sale = await ECMSaleFactory.deploy(
+  // ============ Deploy Price Oracle ============
+  console.log("📝 Deploying Uniswap V2 Spot Oracle...");
+  const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+  const oracle = await OracleFactory.deploy(
+    UNISWAP_PAIR_ADDRESS,
+    ECM_TOKEN_ADDRESS,
+    USDT_TOKEN_ADDRESS
+  );
+  await oracle.waitForDeployment();
+  const oracleAddress = await oracle.getAddress();
+  console.log("✅ Price oracle deployed to:", oracleAddress);
+  console.log("");
+
+  // ============ Deploy ECMSale Behind a UUPS Proxy ============
+  console.log("📝 Deploying ECMSale behind a UUPS proxy...");
+  const PurchasesFactory = await ethers.getContractFactory("ECMSalePurchases");
+  const purchases = await PurchasesFactory.deploy(ECM_TOKEN_ADDRESS, USDT_TOKEN_ADDRESS);
+  await purchases.waitForDeployment();
+  const purchasesAddress = await purchases.getAddress();
+  console.log("✅ ECMSalePurchases deployed to:", purchasesAddress);
+
+  const LocksFactory = await ethers.getContractFactory("ECMSaleLocks");
+  const locks = await LocksFactory.deploy(ECM_TOKEN_ADDRESS, USDT_TOKEN_ADDRESS);
+  await locks.waitForDeployment();
+  const locksAddress = await locks.getAddress();
+  console.log("✅ ECMSaleLocks deployed to:", locksAddress);
+
+  const ECMSaleFactory = await ethers.getContractFactory("ECMSaleUpgradeable");
+  const implementation = await ECMSaleFactory.deploy(
     ECM_TOKEN_ADDRESS,
     USDT_TOKEN_ADDRESS,
-    UNISWAP_PAIR_ADDRESS
+    purchasesAddress,
+    locksAddress
   );
-  
-  await sale.waitForDeployment();
-  const saleAddress = await sale.getAddress();
-  
-  console.log("✅ ECMSale deployed to:", saleAddress);
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log("✅ ECMSaleUpgradeable implementation deployed to:", implementationAddress);
+
+  // initialize runs in the proxy's constructor and gives the deployer every role
+  const initData = ECMSaleFactory.interface.encodeFunctionData("initialize", [oracleAddress]);
+  const ProxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+  const proxy = await ProxyFactory.deploy(implementationAddress, initData);
+  await proxy.waitForDeployment();
+  const saleAddress = await proxy.getAddress();
+  const sale = ECMSaleFactory.attach(saleAddress) as typeof implementation;
+
+  console.log("✅ ECMSale (proxy) deployed to:", saleAddress);
   console.log("   Lock duration:", (await sale.lockDuration()).toString(), "seconds (180 days)");
   console.log("");
 
+  // ============ Timelock Sensitive Changes ============
+  await (await sale.setTimelockDelay(TIMELOCK_DELAY)).wait();
+  console.log("✅ Timelock delay set:", TIMELOCK_DELAY, "seconds");
+  console.log("");
+
+  // ============ Hand Over Roles ============
+  console.log("🔐 Handing over roles...");
+  for (const { role, holder } of ROLE_HOLDERS) {
+    if (holder.toLowerCase() === deployer.address.toLowerCase()) {
+      continue;
+    }
+    await (await sale.grantRole(ethers.id(role), holder)).wait();
+    await (await sale.renounceRole(ethers.id(role), deployer.address)).wait();
+    console.log(`✅ ${role} granted to ${holder}`);
+  }
+  if (ADMIN_ADDRESS.toLowerCase() !== deployer.address.toLowerCase()) {
+    await (await sale.grantRole(ethers.ZeroHash, ADMIN_ADDRESS)).wait();
+    console.log("✅ DEFAULT_ADMIN_ROLE granted to", ADMIN_ADDRESS);
+  }
+  console.log("");
+
   // ============ Verify Configuration ============
   console.log("🔍 Verifying deployment configuration...");
   const configEcm = await sale.ecm();
   const configUsdt = await sale.usdt();
-  const configPair = await sale.pair();
-  const configOwner = await sale.owner();
+  const configOracle = await sale.oracle();
+  const configAdmin = await sale.hasRole(ethers.ZeroHash, ADMIN_ADDRESS);
   
   console.log("✅ Configuration verified:");
   console.log("   ECM Token:  ", configEcm);
   console.log("   USDT Token: ", configUsdt);
-  console.log("   Pair:       ", configPair);
-  console.log("   Owner:      ", configOwner);
+  console.log("   Oracle:     ", configOracle);
+  console.log("   Admin:      ", ADMIN_ADDRESS, configAdmin ? "(DEFAULT_ADMIN_ROLE)" : "(missing role!)");
   console.log("");
 
   // ============ Deployment Summary ============
@@ -174,20 +260,32 @@ async function main() {
   console.log("");
   console.log("📋 Contract Addresses:");
   console.log("─────────────────────────────────────────────");
-  console.log("ECMSale:         ", saleAddress);
+  console.log("ECMSale (proxy): ", saleAddress);
+  console.log("Implementation:  ", implementationAddress);
+  console.log("Purchases module:", purchasesAddress);
+  console.log("Locks module:    ", locksAddress);
   console.log("ECM Token:       ", ECM_TOKEN_ADDRESS);
   console.log("USDT Token:      ", USDT_TOKEN_ADDRESS);
   console.log("Uniswap V2 Pair: ", UNISWAP_PAIR_ADDRESS);
+  console.log("Price Oracle:    ", oracleAddress);
   console.log("");
   console.log("📊 Configuration:");
   console.log("─────────────────────────────────────────────");
   console.log("Lock Duration:   ", "180 days");
-  console.log("Contract Owner:  ", configOwner);
+  console.log("Timelock Delay:  ", (await sale.timelockDelay()).toString(), "seconds");
+  console.log("Admin:           ", ADMIN_ADDRESS);
+  for (const { role, holder } of ROLE_HOLDERS) {
+    console.log(`${role}:`.padEnd(17), holder);
+  }
   console.log("Paused:          ", await sale.paused() ? "Yes" : "No");
   console.log("");
   console.log("🔗 Verify on Etherscan:");
   console.log("─────────────────────────────────────────────");
-  console.log(`npx hardhat verify --network mainnet ${saleAddress} "${ECM_TOKEN_ADDRESS}" "${USDT_TOKEN_ADDRESS}" "${UNISWAP_PAIR_ADDRESS}"`);
+  console.log(`npx hardhat verify --network mainnet ${oracleAddress} "${UNISWAP_PAIR_ADDRESS}" "${ECM_TOKEN_ADDRESS}" "${USDT_TOKEN_ADDRESS}"`);
+  console.log(`npx hardhat verify --network mainnet ${purchasesAddress} "${ECM_TOKEN_ADDRESS}" "${USDT_TOKEN_ADDRESS}"`);
+  console.log(`npx hardhat verify --network mainnet ${locksAddress} "${ECM_TOKEN_ADDRESS}" "${USDT_TOKEN_ADDRESS}"`);
+  console.log(`npx hardhat verify --network mainnet ${implementationAddress} "${ECM_TOKEN_ADDRESS}" "${USDT_TOKEN_ADDRESS}" "${purchasesAddress}" "${locksAddress}"`);
+  console.log(`npx hardhat verify --network mainnet ${saleAddress} "${implementationAddress}" "${initData}"`);
   console.log("");
   console.log("⚠️  CRITICAL NEXT STEPS (DO NOT SKIP):");
   console.log("─────────────────────────────────────────────");
@@ -195,7 +293,7 @@ async function main() {
   console.log(`   Amount: [YOUR_SALE_ALLOCATION] ECM`);
   console.log(`   To: ${saleAddress}`);
   console.log("");
-  console.log("2. ⚠️  Verify contract on Etherscan (use command above)");
+  console.log("2. ⚠️  Verify the modules, implementation and proxy on Etherscan (use commands above)");
   console.log("");
   console.log("3. ⚠️  Test with small purchase first before announcing");
   console.log("");
@@ -204,9 +302,14 @@ async function main() {
   console.log("");
   console.log("5. ⚠️  Monitor initial transactions carefully");
   console.log("");
-  console.log("6. Consider pausing contract initially for safety:");
+  console.log("6. Consider pausing contract initially for safety (PAUSER_ROLE):");
   console.log(`   await sale.pause();`);
   console.log("");
+  if (ADMIN_ADDRESS.toLowerCase() !== deployer.address.toLowerCase()) {
+    console.log("7. ⚠️  Once the admin is confirmed, renounce the deployer's admin role:");
+    console.log(`   await sale.renounceRole(ethers.ZeroHash, "${deployer.address}");`);
+    console.log("");
+  }
   console.log("📝 Save to .env file:");
   console.log("─────────────────────────────────────────────");
   console.log(`MAINNET_ECM_SALE=${saleAddress}`);
@@ -8,12 +8,17 @@ import { parseEther, parseUnits } from "ethers";
  * 1. Test ECM Token (1B supply)
  * 2. Test USDT Token (1M supply with 6 decimals)
  * 3. Mock Uniswap V2 Pair
- * 4. ECMSale Contract
+ * 4. Uniswap V2 spot price oracle
+ * 5. ECMSale behind a UUPS proxy: ECMSalePurchases and ECMSaleLocks modules, the ECMSaleUpgradeable
+ *    implementation and an ERC1967Proxy initialized with the oracle (the deployer gets every role)
  * 
  * Initial configuration:
  * - Lock duration: 180 days
  * - Initial reserves: 1M USDT : 2M ECM (1 USDT = 2 ECM)
  * - Sale allocation: 100M ECM
+ * - Pricing, lock duration and upgrade changes timelocked by SEPOLIA_TIMELOCK_DELAY seconds (default: 2 days)
+ * - Role holders from SEPOLIA_ADMIN, SEPOLIA_PAUSER, SEPOLIA_TREASURER, SEPOLIA_ORACLE_MANAGER
+ *   and SEPOLIA_CONFIG_ADMIN (default: deployer)
  */
 
 async function main() {
@@ -73,23 +78,82 @@ async function main() {
   console.log("   Price: 1 USDT = 2 ECM");
   console.log("");
 
-  // ============ Step 4: Deploy ECMSale Contract ============
-  console.log("📝 Step 4: Deploying ECMSale Contract...");
-  const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
-  const sale = await ECMSaleFactory.deploy(ecmAddress, usdtAddress, pairAddress);
-  await sale.waitForDeployment();
-  const saleAddress = await sale.getAddress();
-  console.log("✅ ECMSale deployed to:", saleAddress);
+  // ============ Step 4: Deploy Price Oracle ============
+  console.log("📝 Step 4: Deploying Uniswap V2 Spot Oracle...");
+  const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+  const oracle = await OracleFactory.deploy(pairAddress, ecmAddress, usdtAddress);
+  await oracle.waitForDeployment();
+  const oracleAddress = await oracle.getAddress();
+  console.log("✅ Price oracle deployed to:", oracleAddress);
+  console.log("");
+
+  // ============ Step 5: Deploy ECMSale Behind a UUPS Proxy ============
+  console.log("📝 Step 5: Deploying ECMSale behind a UUPS proxy...");
+  const PurchasesFactory = await ethers.getContractFactory("ECMSalePurchases");
+  const purchases = await PurchasesFactory.deploy(ecmAddress, usdtAddress);
+  await purchases.waitForDeployment();
+  const purchasesAddress = await purchases.getAddress();
+  console.log("✅ ECMSalePurchases deployed to:", purchasesAddress);
+
+  const LocksFactory = await ethers.getContractFactory("ECMSaleLocks");
+  const locks = await LocksFactory.deploy(ecmAddress, usdtAddress);
+  await locks.waitForDeployment();
+  const locksAddress = await locks.getAddress();
+  console.log("✅ ECMSaleLocks deployed to:", locksAddress);
+
+  const ECMSaleFactory = await ethers.getContractFactory("ECMSaleUpgradeable");
+  const implementation = await ECMSaleFactory.deploy(ecmAddress, usdtAddress, purchasesAddress, locksAddress);
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log("✅ ECMSaleUpgradeable implementation deployed to:", implementationAddress);
+
+  // initialize runs in the proxy's constructor and gives the deployer every role
+  const initData = ECMSaleFactory.interface.encodeFunctionData("initialize", [oracleAddress]);
+  const ProxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+  const proxy = await ProxyFactory.deploy(implementationAddress, initData);
+  await proxy.waitForDeployment();
+  const saleAddress = await proxy.getAddress();
+  const sale = ECMSaleFactory.attach(saleAddress) as typeof implementation;
+  console.log("✅ ECMSale (proxy) deployed to:", saleAddress);
   console.log("   Lock duration:", (await sale.lockDuration()).toString(), "seconds (180 days)");
   console.log("");
 
-  // ============ Step 5: Fund Sale Contract ============
-  console.log("📝 Step 5: Transferring ECM to Sale Contract...");
+  // ============ Step 6: Fund Sale Contract ============
+  console.log("📝 Step 6: Transferring ECM to Sale Contract...");
   const saleAllocation = parseEther("100000000"); // 100M ECM for sale
   await ecmToken.transfer(saleAddress, saleAllocation);
   console.log("✅ Transferred", ethers.formatEther(saleAllocation), "ECM to sale contract");
   console.log("");
 
+  // ============ Step 7: Timelock Sensitive Changes ============
+  console.log("📝 Step 7: Setting the timelock delay...");
+  const timelockDelay = Number(process.env.SEPOLIA_TIMELOCK_DELAY || 2 * 24 * 60 * 60);
+  await (await sale.setTimelockDelay(timelockDelay)).wait();
+  console.log("✅ Timelocked changes wait", timelockDelay, "seconds");
+  console.log("");
+
+  // ============ Step 8: Hand Over Roles ============
+  console.log("📝 Step 8: Handing over roles...");
+  const adminAddress = process.env.SEPOLIA_ADMIN || deployer.address;
+  const roleHolders = [
+    { role: "PAUSER_ROLE", holder: process.env.SEPOLIA_PAUSER || deployer.address },
+    { role: "TREASURER_ROLE", holder: process.env.SEPOLIA_TREASURER || deployer.address },
+    { role: "ORACLE_MANAGER_ROLE", holder: process.env.SEPOLIA_ORACLE_MANAGER || deployer.address },
+    { role: "CONFIG_ADMIN_ROLE", holder: process.env.SEPOLIA_CONFIG_ADMIN || deployer.address },
+  ];
+  for (const { role, holder } of roleHolders) {
+    if (holder.toLowerCase() !== deployer.address.toLowerCase()) {
+      await (await sale.grantRole(ethers.id(role), holder)).wait();
+      await (await sale.renounceRole(ethers.id(role), deployer.address)).wait();
+    }
+    console.log(`✅ ${role}:`, holder);
+  }
+  if (adminAddress.toLowerCase() !== deployer.address.toLowerCase()) {
+    await (await sale.grantRole(ethers.ZeroHash, adminAddress)).wait();
+  }
+  console.log("✅ DEFAULT_ADMIN_ROLE:", adminAddress);
+  console.log("");
+
   // ============ Deployment Summary ============
   console.log("================================================");
   console.log("✅ DEPLOYMENT COMPLETE - SEPOLIA TESTNET");
@@ -100,7 +164,11 @@ async function main() {
   console.log("ECM Token:       ", ecmAddress);
   console.log("USDT Token:      ", usdtAddress);
   console.log("Uniswap V2 Pair: ", pairAddress);
-  console.log("ECMSale:         ", saleAddress);
+  console.log("Price Oracle:    ", oracleAddress);
+  console.log("ECMSale (proxy): ", saleAddress);
+  console.log("Implementation:  ", implementationAddress);
+  console.log("Purchases module:", purchasesAddress);
+  console.log("Locks module:    ", locksAddress);
   console.log("");
   console.log("📊 Configuration:");
   console.log("─────────────────────────────────────────────");
@@ -114,7 +182,11 @@ async function main() {
   console.log(`npx hardhat verify --network sepolia ${ecmAddress} "${initialSupply}"`);
   console.log(`npx hardhat verify --network sepolia ${usdtAddress}`);
   console.log(`npx hardhat verify --network sepolia ${pairAddress} "${usdtAddress}" "${ecmAddress}"`);
-  console.log(`npx hardhat verify --network sepolia ${saleAddress} "${ecmAddress}" "${usdtAddress}" "${pairAddress}"`);
+  console.log(`npx hardhat verify --network sepolia ${oracleAddress} "${pairAddress}" "${ecmAddress}" "${usdtAddress}"`);
+  console.log(`npx hardhat verify --network sepolia ${purchasesAddress} "${ecmAddress}" "${usdtAddress}"`);
+  console.log(`npx hardhat verify --network sepolia ${locksAddress} "${ecmAddress}" "${usdtAddress}"`);
+  console.log(`npx hardhat verify --network sepolia ${implementationAddress} "${ecmAddress}" "${usdtAddress}" "${purchasesAddress}" "${locksAddress}"`);
+  console.log(`npx hardhat verify --network sepolia ${saleAddress} "${implementationAddress}" "${initData}"`);
   console.log("");
   console.log("💡 Next Steps:");
   console.log("─────────────────────────────────────────────");
@@ -128,7 +200,9 @@ async function main() {
   console.log(`SEPOLIA_ECM_TOKEN=${ecmAddress}`);
   console.log(`SEPOLIA_USDT_TOKEN=${usdtAddress}`);
   console.log(`SEPOLIA_UNISWAP_PAIR=${pairAddress}`);
+  console.log(`SEPOLIA_PRICE_ORACLE=${oracleAddress}`);
   console.log(`SEPOLIA_ECM_SALE=${saleAddress}`);
+  console.log(`SEPOLIA_ECM_SALE_IMPLEMENTATION=${implementationAddress}`);
   console.log("================================================");
 }
 
@@ -0,0 +1,80 @@
+import { AbiCoder, getAddress, keccak256, parseUnits } from "ethers";
+import { MerkleTree } from "merkletreejs";
+
+/**
+ * Allowlist Merkle tree helpers
+ *
+ * Leaves match ECMSale.isAllowlisted:
+ *   keccak256(bytes.concat(keccak256(abi.encode(account, usdtCap))))
+ * Pairs are sorted, as expected by OpenZeppelin's MerkleProof.
+ */
+
+export interface AllowlistEntry {
+  address: string;
+  cap: bigint; // lifetime USDT cap in token units, 0 = no per-address cap
+}
+
+export interface Allowlist {
+  root: string;
+  proofs: Record<string, { cap: string; proof: string[] }>;
+}
+
+const hash = (data: Buffer) => Buffer.from(keccak256(data).slice(2), "hex");
+
+export function allowlistLeaf(entry: AllowlistEntry): Buffer {
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ["address", "uint256"],
+    [entry.address, entry.cap]
+  );
+  return hash(hash(Buffer.from(encoded.slice(2), "hex")));
+}
+
+/**
+ * Parse "address,cap" lines. Caps are in whole USDT (e.g. "5000" or "2500.5"),
+ * an empty cap means no per-address cap. A header line is skipped.
+ */
+export function parseAllowlistCsv(csv: string, decimals = 6): AllowlistEntry[] {
+  const entries: AllowlistEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const [i, raw] of csv.split(/\r?\n/).entries()) {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) continue;
+
+    const [addressField, capField = ""] = line.split(",").map((field) => field.trim());
+    if (i === 0 && !addressField.startsWith("0x")) continue; // header
+
+    let address: string;
+    try {
+      address = getAddress(addressField.toLowerCase());
+    } catch {
+      throw new Error(`line ${i + 1}: invalid address "${addressField}"`);
+    }
+    if (seen.has(address)) {
+      throw new Error(`line ${i + 1}: duplicate address ${address}`);
+    }
+    seen.add(address);
+
+    entries.push({ address, cap: capField === "" ? 0n : parseUnits(capField, decimals) });
+  }
+
+  if (entries.length === 0) {
+    throw new Error("allowlist is empty");
+  }
+  return entries;
+}
+
+export function buildAllowlist(entries: AllowlistEntry[]): Allowlist {
+  const leaves = entries.map(allowlistLeaf);
+  const tree = new MerkleTree(leaves, hash, { sortPairs: true });
+
+  const proofs: Allowlist["proofs"] = {};
+  entries.forEach((entry, i) => {
+    proofs[entry.address] = {
+      cap: entry.cap.toString(),
+      proof: tree.getHexProof(leaves[i]),
+    };
+  });
+
+  return { root: tree.getHexRoot(), proofs };
+}
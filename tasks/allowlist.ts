@@ -0,0 +1,32 @@
+import { task, types } from "hardhat/config";
+import * as fs from "fs";
+import * as path from "path";
+import { buildAllowlist, parseAllowlistCsv } from "./allowlist-tree";
+
+/**
+ * Build the ECMSale allowlist Merkle root and per-address proofs from a CSV
+ *
+ * Usage:
+ *   npx hardhat allowlist --csv allowlist.csv --out allowlist.json
+ *
+ * CSV format (header optional, empty cap = no per-address cap):
+ *   address,cap
+ *   0x1234...,5000
+ *   0xabcd...,
+ */
+task("allowlist", "Generate the allowlist Merkle root and proofs from a CSV")
+  .addParam("csv", "CSV file with address,cap lines (cap in whole USDT)")
+  .addOptionalParam("out", "Output JSON file for root and proofs", "allowlist.json")
+  .addOptionalParam("decimals", "USDT decimals used to scale caps", 6, types.int)
+  .setAction(async ({ csv, out, decimals }: { csv: string; out: string; decimals: number }) => {
+    const entries = parseAllowlistCsv(fs.readFileSync(csv, "utf8"), decimals);
+    const allowlist = buildAllowlist(entries);
+
+    fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+    fs.writeFileSync(out, JSON.stringify(allowlist, null, 2) + "\n");
+
+    console.log("Allowlist entries:", entries.length);
+    console.log("Merkle root:", allowlist.root);
+    console.log("Proofs written to:", out);
+    return allowlist;
+  });
@@ -1,7 +1,7 @@
 import { ethers } from "hardhat";
 import { expect } from "chai";
 import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
-import { ECMToken, ECMSale, MockUSDT, MockUniswapV2Pair } from "../typechain-types";
+import { ECMToken, ECMSale, MockUSDT, MockUniswapV2Pair, UniswapV2SpotOracle } from "../typechain-types";
 
 describe("ECMSale - Deployment", function () {
   // Fixture to deploy all contracts
@@ -29,12 +29,19 @@ describe("ECMSale - Deployment", function () {
     const ecmReserve = ethers.parseEther("2000000"); // 2M ECM (18 decimals)
     await pair.setReserves(usdtReserve, ecmReserve);
 
-    // Deploy ECMSale
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     // Transfer ECM to sale contract (100M tokens for sale)
@@ -45,7 +52,7 @@ describe("ECMSale - Deployment", function () {
     await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6)); // 100k USDT
     await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6)); // 100k USDT
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1, buyer2, saleAllocation };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, saleAllocation };
   }
 
   describe("Deployment", function () {
@@ -59,12 +66,12 @@ describe("ECMSale - Deployment", function () {
     });
 
     it("Should deploy ECMSale with correct parameters", async function () {
-      const { sale, ecmToken, usdt, pair, owner } = await loadFixture(deployFixture);
+      const { sale, ecmToken, usdt, oracle, owner } = await loadFixture(deployFixture);
 
       expect(await sale.ecm()).to.equal(await ecmToken.getAddress());
       expect(await sale.usdt()).to.equal(await usdt.getAddress());
-      expect(await sale.pair()).to.equal(await pair.getAddress());
-      expect(await sale.owner()).to.equal(owner.address);
+      expect(await sale.oracle()).to.equal(await oracle.getAddress());
+      expect(await sale.hasRole(await sale.DEFAULT_ADMIN_ROLE(), owner.address)).to.equal(true);
       expect(await sale.lockDuration()).to.equal(180 * 24 * 60 * 60); // 180 days
       expect(await sale.totalLocked()).to.equal(0);
     });
@@ -77,15 +84,19 @@ describe("ECMSale - Deployment", function () {
     });
 
     it("Should revert deployment with zero address", async function () {
-      const { usdt, pair } = await loadFixture(deployFixture);
+      const { usdt, oracle } = await loadFixture(deployFixture);
       const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
 
       await expect(
-        ECMSaleFactory.deploy(ethers.ZeroAddress, await usdt.getAddress(), await pair.getAddress())
+        ECMSaleFactory.deploy(ethers.ZeroAddress, await usdt.getAddress(), await oracle.getAddress())
+      ).to.be.revertedWith("zero addr");
+
+      await expect(
+        ECMSaleFactory.deploy(await usdt.getAddress(), ethers.ZeroAddress, await oracle.getAddress())
       ).to.be.revertedWith("zero addr");
 
       await expect(
-        ECMSaleFactory.deploy(await usdt.getAddress(), ethers.ZeroAddress, await pair.getAddress())
+        ECMSaleFactory.deploy(await usdt.getAddress(), await usdt.getAddress(), ethers.ZeroAddress)
       ).to.be.revertedWith("zero addr");
     });
   });
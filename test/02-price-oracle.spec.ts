@@ -18,17 +18,25 @@ describe("ECMSale - Price Oracle", function () {
       await ecmToken.getAddress()
     );
 
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
     await usdt.mint(buyer1.address, ethers.parseUnits("1000000", 6));
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1 };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1 };
   }
 
   describe("Reserve Ratio Tests", function () {
@@ -130,8 +138,14 @@ describe("ECMSale - Price Oracle", function () {
         ethers.parseEther("2000000")
       );
 
-      // Update sale to use new pair
-      await sale.setPair(await pair.getAddress());
+      // Update sale to use an oracle over the new pair
+      const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+      const oracle = await OracleFactory.deploy(
+        await pair.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress()
+      );
+      await sale.setOracle(await oracle.getAddress());
 
       const usdtAmount = ethers.parseUnits("1000", 6);
       const expectedECM = ethers.parseEther("2000");
@@ -156,8 +170,14 @@ describe("ECMSale - Price Oracle", function () {
         ethers.parseUnits("1000000", 6)    // token1 (USDT)
       );
 
-      // Update sale to use new pair
-      await sale.setPair(await pair.getAddress());
+      // Update sale to use an oracle over the new pair
+      const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+      const oracle = await OracleFactory.deploy(
+        await pair.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress()
+      );
+      await sale.setOracle(await oracle.getAddress());
 
       const usdtAmount = ethers.parseUnits("1000", 6);
       const expectedECM = ethers.parseEther("2000"); // Same result regardless of order
@@ -29,12 +29,19 @@ describe("ECMSale - Purchase", function () {
       ethers.parseEther("2000000")
     );
 
-    // Deploy ECMSale
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     // Fund sale contract
@@ -44,7 +51,7 @@ describe("ECMSale - Purchase", function () {
     await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
     await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1, buyer2 };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2 };
   }
 
   describe("buyWithUSDT - Success Cases", function () {
@@ -67,7 +74,7 @@ describe("ECMSale - Purchase", function () {
       const [amounts, releaseTimes, claimed] = await sale.getUserLocks(buyer1.address);
       expect(amounts.length).to.equal(1);
       expect(amounts[0]).to.equal(expectedECM);
-      expect(claimed[0]).to.be.false;
+      expect(claimed[0]).to.equal(0);
 
       // Check totalLocked updated
       expect(await sale.totalLocked()).to.equal(expectedECM);
@@ -75,7 +82,7 @@ describe("ECMSale - Purchase", function () {
       // Check event emitted
       await expect(tx)
         .to.emit(sale, "Purchase")
-        .withArgs(buyer1.address, usdtAmount, expectedECM, releaseTimes[0], 0);
+        .withArgs(buyer1.address, buyer1.address, await usdt.getAddress(), usdtAmount, expectedECM, 0, releaseTimes[0], 0);
     });
 
     it("Should allow multiple purchases by same user", async function () {
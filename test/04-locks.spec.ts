@@ -23,11 +23,19 @@ describe("ECMSale - Lock Management", function () {
       ethers.parseEther("2000000")
     );
 
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
@@ -35,7 +43,7 @@ describe("ECMSale - Lock Management", function () {
     await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
     await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1, buyer2 };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2 };
   }
 
   describe("getUserLocks - View Function", function () {
@@ -65,7 +73,7 @@ describe("ECMSale - Lock Management", function () {
       expect(claimed.length).to.equal(1);
       
       expect(amounts[0]).to.equal(expectedECM);
-      expect(claimed[0]).to.be.false;
+      expect(claimed[0]).to.equal(0);
     });
 
     it("Should return multiple locks for user with multiple purchases", async function () {
@@ -97,9 +105,9 @@ describe("ECMSale - Lock Management", function () {
       expect(amounts[2]).to.equal(expectedECM);
 
       // Verify all unclaimed
-      expect(claimed[0]).to.be.false;
-      expect(claimed[1]).to.be.false;
-      expect(claimed[2]).to.be.false;
+      expect(claimed[0]).to.equal(0);
+      expect(claimed[1]).to.equal(0);
+      expect(claimed[2]).to.equal(0);
 
       // Verify release times are in order (later purchases have later release times)
       expect(releaseTimes[1]).to.be.gt(releaseTimes[0]);
@@ -128,8 +136,8 @@ describe("ECMSale - Lock Management", function () {
       expect(amounts[0]).to.equal(expectedECM1);
       expect(amounts[1]).to.equal(expectedECM2);
       
-      expect(claimed[0]).to.be.false;
-      expect(claimed[1]).to.be.false;
+      expect(claimed[0]).to.equal(0);
+      expect(claimed[1]).to.equal(0);
       
       // Release times should correspond to purchase times
       expect(releaseTimes[0]).to.be.lt(releaseTimes[1]);
@@ -192,23 +200,23 @@ describe("ECMSale - Lock Management", function () {
       await sale.connect(buyer1).buyWithUSDT(usdtAmount, expectedECM);
 
       // Initially both unclaimed
-      let [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.false;
-      expect(claimed[1]).to.be.false;
+      let [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(0);
+      expect(claimed[1]).to.equal(0);
 
       // Fast forward and claim first lock
       await time.increase(181 * 24 * 60 * 60);
       await sale.connect(buyer1).claimLocks([0]);
 
       // Check status updated
-      [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.true;  // First lock claimed
-      expect(claimed[1]).to.be.false; // Second lock not claimed
+      [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(amounts[0]);  // First lock claimed
+      expect(claimed[1]).to.equal(0); // Second lock not claimed
     });
   });
 
   describe("Lock State Transitions", function () {
-    it("Should have lock created with claimed = false", async function () {
+    it("Should have lock created with nothing claimed", async function () {
       const { sale, usdt, buyer1 } = await loadFixture(deployFixture);
 
       const usdtAmount = ethers.parseUnits("1000", 6);
@@ -216,7 +224,7 @@ describe("ECMSale - Lock Management", function () {
       await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
 
       const [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.false;
+      expect(claimed[0]).to.equal(0);
     });
 
     it("Should not allow claiming before releaseTime", async function () {
@@ -286,8 +294,8 @@ describe("ECMSale - Lock Management", function () {
       await time.increase(181 * 24 * 60 * 60);
       await sale.connect(buyer1).claimLocks([0]);
 
-      const [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.true;
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(amounts[0]);
     });
 
     it("Should prevent claiming same lock twice", async function () {
@@ -460,7 +468,7 @@ describe("ECMSale - Lock Management", function () {
       // Verify all are unclaimed
       for (let i = 0; i < numLocks; i++) {
         expect(amounts[i]).to.equal(expectedECM);
-        expect(claimed[i]).to.be.false;
+        expect(claimed[i]).to.equal(0);
       }
     });
 
@@ -502,14 +510,14 @@ describe("ECMSale - Lock Management", function () {
 
       expect(await ecmToken.balanceOf(buyer1.address)).to.equal(expectedECM * 3n);
 
-      const [, , claimed] = await sale.getUserLocks(buyer1.address);
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
       
       // Verify only specified locks are claimed
       for (let i = 0; i < numLocks; i++) {
         if (i === 2 || i === 5 || i === 8) {
-          expect(claimed[i]).to.be.true;
+          expect(claimed[i]).to.equal(amounts[i]);
         } else {
-          expect(claimed[i]).to.be.false;
+          expect(claimed[i]).to.equal(0);
         }
       }
     });
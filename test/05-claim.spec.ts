@@ -23,11 +23,19 @@ describe("ECMSale - Claim", function () {
       ethers.parseEther("2000000")
     );
 
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
@@ -35,7 +43,7 @@ describe("ECMSale - Claim", function () {
     await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
     await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1, buyer2 };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2 };
   }
 
   describe("claimAllUnlocked - Success Cases", function () {
@@ -60,7 +68,7 @@ describe("ECMSale - Claim", function () {
 
       // Check lock marked as claimed
       const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.true;
+      expect(claimed[0]).to.equal(amounts[0]);
 
       // Check totalLocked reduced
       expect(await sale.totalLocked()).to.equal(0);
@@ -91,10 +99,10 @@ describe("ECMSale - Claim", function () {
       expect(await ecmToken.balanceOf(buyer1.address)).to.equal(expectedECM * 3n);
 
       // Check all claimed
-      const [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.true;
-      expect(claimed[1]).to.be.true;
-      expect(claimed[2]).to.be.true;
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(amounts[0]);
+      expect(claimed[1]).to.equal(amounts[1]);
+      expect(claimed[2]).to.equal(amounts[2]);
     });
 
     it("Should only claim unlocked locks (partial claim)", async function () {
@@ -121,9 +129,9 @@ describe("ECMSale - Claim", function () {
 
       expect(await ecmToken.balanceOf(buyer1.address)).to.equal(expectedECM);
 
-      const [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.true; // First lock claimed
-      expect(claimed[1]).to.be.false; // Second lock still locked
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(amounts[0]); // First lock claimed
+      expect(claimed[1]).to.equal(0); // Second lock still locked
     });
   });
 
@@ -201,12 +209,12 @@ describe("ECMSale - Claim", function () {
       expect(await ecmToken.balanceOf(buyer1.address)).to.equal(expectedECM * 3n);
 
       // Check claimed status
-      const [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.true;
-      expect(claimed[1]).to.be.false;
-      expect(claimed[2]).to.be.true;
-      expect(claimed[3]).to.be.false;
-      expect(claimed[4]).to.be.true;
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(amounts[0]);
+      expect(claimed[1]).to.equal(0);
+      expect(claimed[2]).to.equal(amounts[2]);
+      expect(claimed[3]).to.equal(0);
+      expect(claimed[4]).to.equal(amounts[4]);
     });
 
     it("Should revert when index is invalid", async function () {
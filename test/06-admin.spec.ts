@@ -1,6 +1,7 @@
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
 import { expect } from "chai";
 import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import SepoliaDeploymentModule from "../ignition/modules/deploy-sepolia";
 
 describe("ECMSale - Admin Functions", function () {
   async function deployFixture() {
@@ -23,11 +24,19 @@ describe("ECMSale - Admin Functions", function () {
       ethers.parseEther("2000000")
     );
 
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     const saleAllocation = ethers.parseEther("100000000");
@@ -35,7 +44,7 @@ describe("ECMSale - Admin Functions", function () {
 
     await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1, other, saleAllocation };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, other, saleAllocation };
   }
 
   describe("withdrawAvailableECM", function () {
@@ -99,7 +108,7 @@ describe("ECMSale - Admin Functions", function () {
 
       await expect(
         sale.connect(other).withdrawAvailableECM(ethers.parseEther("1000"))
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
     it("Should emit WithdrawECM event", async function () {
@@ -142,7 +151,7 @@ describe("ECMSale - Admin Functions", function () {
 
       await expect(
         sale.connect(other).withdrawUSDT(ethers.parseUnits("1000", 6))
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
     it("Should emit WithdrawUSDT event", async function () {
@@ -158,41 +167,45 @@ describe("ECMSale - Admin Functions", function () {
     });
   });
 
-  describe("setPair", function () {
-    it("Should allow owner to update pair", async function () {
-      const { sale, owner, usdt, ecmToken } = await loadFixture(deployFixture);
+  describe("setOracle", function () {
+    it("Should allow owner to update oracle", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
 
-      const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
-      const newPair = await MockPairFactory.deploy(
-        await usdt.getAddress(),
-        await ecmToken.getAddress()
-      );
+      const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+      const newOracle = await FixedOracleFactory.deploy(ethers.parseEther("3"), ethers.parseUnits("1", 6));
 
-      await sale.connect(owner).setPair(await newPair.getAddress());
+      await sale.connect(owner).setOracle(await newOracle.getAddress());
 
-      expect(await sale.pair()).to.equal(await newPair.getAddress());
+      expect(await sale.oracle()).to.equal(await newOracle.getAddress());
+      expect(await sale.getEstimatedECMForUSDT(ethers.parseUnits("1000", 6)))
+        .to.equal(ethers.parseEther("3000"));
     });
 
-    it("Should emit PairUpdated event", async function () {
-      const { sale, owner, usdt, ecmToken } = await loadFixture(deployFixture);
+    it("Should emit OracleUpdated event", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
 
-      const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
-      const newPair = await MockPairFactory.deploy(
-        await usdt.getAddress(),
-        await ecmToken.getAddress()
-      );
+      const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+      const newOracle = await FixedOracleFactory.deploy(ethers.parseEther("3"), ethers.parseUnits("1", 6));
 
-      await expect(sale.connect(owner).setPair(await newPair.getAddress()))
-        .to.emit(sale, "PairUpdated")
-        .withArgs(owner.address, await newPair.getAddress());
+      await expect(sale.connect(owner).setOracle(await newOracle.getAddress()))
+        .to.emit(sale, "OracleUpdated")
+        .withArgs(owner.address, await newOracle.getAddress());
+    });
+
+    it("Should revert on zero address", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(owner).setOracle(ethers.ZeroAddress)
+      ).to.be.revertedWith("zero addr");
     });
 
     it("Should revert when non-owner tries to update", async function () {
       const { sale, other } = await loadFixture(deployFixture);
 
       await expect(
-        sale.connect(other).setPair(ethers.ZeroAddress)
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+        sale.connect(other).setOracle(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -222,7 +235,7 @@ describe("ECMSale - Admin Functions", function () {
 
       await expect(
         sale.connect(other).setLockDuration(90 * 24 * 60 * 60)
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -262,7 +275,174 @@ describe("ECMSale - Admin Functions", function () {
 
       await expect(
         sale.connect(other).pause()
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Roles", function () {
+    // deployFixture with each operational role moved from the deployer to its own holder;
+    // the deployer keeps DEFAULT_ADMIN_ROLE only
+    async function rolesFixture() {
+      const fixture = await deployFixture();
+      const { sale, owner } = fixture;
+      const [, , , pauser, treasurer, oracleManager, configAdmin] = await ethers.getSigners();
+      const roles = {
+        pauser: await sale.PAUSER_ROLE(),
+        treasurer: await sale.TREASURER_ROLE(),
+        oracleManager: await sale.ORACLE_MANAGER_ROLE(),
+        configAdmin: await sale.CONFIG_ADMIN_ROLE(),
+      };
+
+      await sale.grantRole(roles.pauser, pauser.address);
+      await sale.grantRole(roles.treasurer, treasurer.address);
+      await sale.grantRole(roles.oracleManager, oracleManager.address);
+      await sale.grantRole(roles.configAdmin, configAdmin.address);
+      for (const role of Object.values(roles)) {
+        await sale.renounceRole(role, owner.address);
+      }
+
+      return { ...fixture, roles, pauser, treasurer, oracleManager, configAdmin };
+    }
+
+    it("Should grant every role to the deployer", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      expect(await sale.PAUSER_ROLE()).to.equal(ethers.id("PAUSER_ROLE"));
+      expect(await sale.TREASURER_ROLE()).to.equal(ethers.id("TREASURER_ROLE"));
+      expect(await sale.ORACLE_MANAGER_ROLE()).to.equal(ethers.id("ORACLE_MANAGER_ROLE"));
+      expect(await sale.CONFIG_ADMIN_ROLE()).to.equal(ethers.id("CONFIG_ADMIN_ROLE"));
+      for (const role of [
+        await sale.DEFAULT_ADMIN_ROLE(),
+        await sale.PAUSER_ROLE(),
+        await sale.TREASURER_ROLE(),
+        await sale.ORACLE_MANAGER_ROLE(),
+        await sale.CONFIG_ADMIN_ROLE(),
+      ]) {
+        expect(await sale.hasRole(role, owner.address)).to.equal(true);
+      }
+    });
+
+    it("Should only allow PAUSER_ROLE to pause and unpause", async function () {
+      const { sale, roles, owner, pauser, treasurer } = await loadFixture(rolesFixture);
+
+      await expect(sale.connect(owner).pause())
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(owner.address, roles.pauser);
+      await expect(sale.connect(treasurer).pause())
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(treasurer.address, roles.pauser);
+
+      await sale.connect(pauser).pause();
+      expect(await sale.paused()).to.be.true;
+      await sale.connect(pauser).unpause();
+      expect(await sale.paused()).to.be.false;
+    });
+
+    it("Should only allow TREASURER_ROLE to withdraw", async function () {
+      const { sale, usdt, ecmToken, roles, buyer1, pauser, treasurer } = await loadFixture(rolesFixture);
+      const usdtAmount = ethers.parseUnits("1000", 6);
+      await usdt.connect(buyer1).approve(await sale.getAddress(), usdtAmount);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      await expect(sale.connect(pauser).withdrawUSDT(usdtAmount))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(pauser.address, roles.treasurer);
+      await expect(sale.connect(pauser).withdrawAvailableECM(ethers.parseEther("1000")))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(pauser.address, roles.treasurer);
+
+      await sale.connect(treasurer).withdrawUSDT(usdtAmount);
+      await sale.connect(treasurer).withdrawAvailableECM(ethers.parseEther("1000"));
+      expect(await usdt.balanceOf(treasurer.address)).to.equal(usdtAmount);
+      expect(await ecmToken.balanceOf(treasurer.address)).to.equal(ethers.parseEther("1000"));
+    });
+
+    it("Should only allow ORACLE_MANAGER_ROLE to set the oracle", async function () {
+      const { sale, roles, configAdmin, oracleManager } = await loadFixture(rolesFixture);
+
+      const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+      const newOracle = await FixedOracleFactory.deploy(ethers.parseEther("3"), ethers.parseUnits("1", 6));
+
+      await expect(sale.connect(configAdmin).setOracle(await newOracle.getAddress()))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(configAdmin.address, roles.oracleManager);
+
+      await expect(sale.connect(oracleManager).setOracle(await newOracle.getAddress()))
+        .to.emit(sale, "OracleUpdated")
+        .withArgs(oracleManager.address, await newOracle.getAddress());
+    });
+
+    it("Should only allow CONFIG_ADMIN_ROLE to set the lock duration", async function () {
+      const { sale, roles, oracleManager, configAdmin } = await loadFixture(rolesFixture);
+      const newDuration = 90 * 24 * 60 * 60;
+
+      await expect(sale.connect(oracleManager).setLockDuration(newDuration))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(oracleManager.address, roles.configAdmin);
+
+      await sale.connect(configAdmin).setLockDuration(newDuration);
+      expect(await sale.lockDuration()).to.equal(newDuration);
+    });
+
+    it("Should only allow DEFAULT_ADMIN_ROLE to grant and revoke roles", async function () {
+      const { sale, roles, owner, pauser, other } = await loadFixture(rolesFixture);
+      const adminRole = await sale.DEFAULT_ADMIN_ROLE();
+
+      await expect(sale.connect(pauser).grantRole(roles.pauser, other.address))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(pauser.address, adminRole);
+
+      await sale.connect(owner).revokeRole(roles.pauser, pauser.address);
+      await expect(sale.connect(pauser).pause())
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+
+      await expect(sale.connect(owner).grantRole(roles.pauser, other.address))
+        .to.emit(sale, "RoleGranted")
+        .withArgs(roles.pauser, other.address, owner.address);
+      await sale.connect(other).pause();
+    });
+
+    it("Should hand the roles to the ignition module's role parameters", async function () {
+      const [deployer, admin, pauser, treasurer, oracleManager] = await ethers.getSigners();
+
+      // the deployer stays config admin; every other role moves away from it
+      const { ecmSale } = await hre.ignition.deploy(SepoliaDeploymentModule, {
+        parameters: {
+          SepoliaDeployment: {
+            admin: admin.address,
+            pauser: pauser.address,
+            treasurer: treasurer.address,
+            oracleManager: oracleManager.address,
+            configAdmin: deployer.address,
+          },
+        },
+      });
+
+      expect(await ecmSale.hasRole(await ecmSale.DEFAULT_ADMIN_ROLE(), admin.address)).to.equal(true);
+      expect(await ecmSale.hasRole(await ecmSale.PAUSER_ROLE(), pauser.address)).to.equal(true);
+      expect(await ecmSale.hasRole(await ecmSale.TREASURER_ROLE(), treasurer.address)).to.equal(true);
+      expect(await ecmSale.hasRole(await ecmSale.ORACLE_MANAGER_ROLE(), oracleManager.address)).to.equal(true);
+      expect(await ecmSale.hasRole(await ecmSale.CONFIG_ADMIN_ROLE(), deployer.address)).to.equal(true);
+      expect(await ecmSale.hasRole(await ecmSale.PAUSER_ROLE(), deployer.address)).to.equal(false);
+      expect(await ecmSale.hasRole(await ecmSale.TREASURER_ROLE(), deployer.address)).to.equal(false);
+      expect(await ecmSale.hasRole(await ecmSale.ORACLE_MANAGER_ROLE(), deployer.address)).to.equal(false);
+      expect(await ecmSale.timelockDelay()).to.equal(2 * 24 * 60 * 60);
+    });
+
+    it("Should keep every role with the deployer without role parameters", async function () {
+      const [deployer] = await ethers.getSigners();
+
+      const { ecmSale } = await hre.ignition.deploy(SepoliaDeploymentModule);
+
+      for (const role of [
+        await ecmSale.DEFAULT_ADMIN_ROLE(),
+        await ecmSale.PAUSER_ROLE(),
+        await ecmSale.TREASURER_ROLE(),
+        await ecmSale.ORACLE_MANAGER_ROLE(),
+        await ecmSale.CONFIG_ADMIN_ROLE(),
+      ]) {
+        expect(await ecmSale.hasRole(role, deployer.address)).to.equal(true);
+      }
     });
   });
 });
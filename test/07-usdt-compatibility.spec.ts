@@ -23,17 +23,25 @@ describe("ECMSale - USDT Compatibility", function () {
       ethers.parseEther("2000000")
     );
 
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
     await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1 };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1 };
   }
 
   describe("SafeERC20 Wrapper - Standard ERC20 Behavior", function () {
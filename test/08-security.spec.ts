@@ -23,11 +23,19 @@ describe("ECMSale - Security Tests", function () {
       ethers.parseEther("2000000")
     );
 
+    // Deploy spot price oracle over the pair
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
     const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
     const sale = await ECMSaleFactory.deploy(
       await ecmToken.getAddress(),
       await usdt.getAddress(),
-      await pair.getAddress()
+      await oracle.getAddress()
     );
 
     await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
@@ -36,7 +44,7 @@ describe("ECMSale - Security Tests", function () {
     await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
     await usdt.mint(attacker.address, ethers.parseUnits("100000", 6));
 
-    return { ecmToken, usdt, pair, sale, owner, buyer1, buyer2, attacker };
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, attacker };
   }
 
   describe("Reentrancy Protection - buyWithUSDT", function () {
@@ -109,10 +117,10 @@ describe("ECMSale - Security Tests", function () {
       await expect(sale.connect(buyer1).claimAllUnlocked()).to.not.be.reverted;
 
       // Verify all claimed
-      const [, , claimed] = await sale.getUserLocks(buyer1.address);
-      expect(claimed[0]).to.be.true;
-      expect(claimed[1]).to.be.true;
-      expect(claimed[2]).to.be.true;
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(amounts[0]);
+      expect(claimed[1]).to.equal(amounts[1]);
+      expect(claimed[2]).to.equal(amounts[2]);
     });
   });
 
@@ -157,7 +165,7 @@ describe("ECMSale - Security Tests", function () {
 
       await expect(
         sale.connect(attacker).withdrawAvailableECM(ethers.parseEther("1000"))
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
     it("Should only allow owner to call withdrawUSDT", async function () {
@@ -165,15 +173,15 @@ describe("ECMSale - Security Tests", function () {
 
       await expect(
         sale.connect(attacker).withdrawUSDT(ethers.parseUnits("1000", 6))
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
-    it("Should only allow owner to call setPair", async function () {
+    it("Should only allow owner to call setOracle", async function () {
       const { sale, attacker } = await loadFixture(deployFixture);
 
       await expect(
-        sale.connect(attacker).setPair(ethers.ZeroAddress)
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+        sale.connect(attacker).setOracle(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
     it("Should only allow owner to call setLockDuration", async function () {
@@ -181,7 +189,7 @@ describe("ECMSale - Security Tests", function () {
 
       await expect(
         sale.connect(attacker).setLockDuration(90 * 24 * 60 * 60)
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
     it("Should only allow owner to call pause", async function () {
@@ -189,7 +197,7 @@ describe("ECMSale - Security Tests", function () {
 
       await expect(
         sale.connect(attacker).pause()
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
     it("Should only allow owner to call unpause", async function () {
@@ -199,20 +207,22 @@ describe("ECMSale - Security Tests", function () {
 
       await expect(
         sale.connect(attacker).unpause()
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
     });
 
-    it("Should allow owner to transfer ownership", async function () {
+    it("Should allow admin to hand a role over", async function () {
       const { sale, owner, buyer1 } = await loadFixture(deployFixture);
+      const PAUSER_ROLE = await sale.PAUSER_ROLE();
 
-      await sale.connect(owner).transferOwnership(buyer1.address);
+      await sale.connect(owner).grantRole(PAUSER_ROLE, buyer1.address);
+      await sale.connect(owner).revokeRole(PAUSER_ROLE, owner.address);
 
-      // Old owner can't call admin functions
+      // Old pauser can't pause
       await expect(
         sale.connect(owner).pause()
-      ).to.be.revertedWithCustomError(sale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
 
-      // New owner can call admin functions
+      // New pauser can
       await expect(
         sale.connect(buyer1).pause()
       ).to.not.be.reverted;
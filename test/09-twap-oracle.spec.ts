@@ -0,0 +1,303 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - TWAP Oracle", function () {
+  const WINDOW = 30 * 60; // 30 minutes
+
+  async function deployFixture() {
+    const [owner, buyer1, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const TwapOracleFactory = await ethers.getContractFactory("UniswapV2TwapOracle");
+    const twapOracle = await TwapOracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      WINDOW
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await twapOracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("1000000", 6));
+
+    return { ecmToken, usdt, pair, twapOracle, sale, owner, buyer1, other };
+  }
+
+  // One full window of observations at 1 USDT = 2 ECM
+  async function twapReadyFixture() {
+    const fixture = await deployFixture();
+    await time.increase(WINDOW);
+    return fixture;
+  }
+
+  describe("Mock Pair Cumulative Prices", function () {
+    it("Should accumulate price cumulatives over time", async function () {
+      const { pair } = await loadFixture(deployFixture);
+
+      const before0 = await pair.price0CumulativeLast();
+      const before1 = await pair.price1CumulativeLast();
+      const [, , timestampBefore] = await pair.getReserves();
+
+      await time.increase(100);
+      await pair.setReserves(
+        ethers.parseUnits("1000000", 6),
+        ethers.parseEther("2000000")
+      );
+      const [, , timestampAfter] = await pair.getReserves();
+      const elapsed = timestampAfter - timestampBefore;
+
+      const price0 = (ethers.parseEther("2000000") << 112n) / ethers.parseUnits("1000000", 6);
+      const price1 = (ethers.parseUnits("1000000", 6) << 112n) / ethers.parseEther("2000000");
+
+      expect(await pair.price0CumulativeLast()).to.equal(before0 + price0 * elapsed);
+      expect(await pair.price1CumulativeLast()).to.equal(before1 + price1 * elapsed);
+    });
+
+    it("Should not accumulate while reserves are empty", async function () {
+      const { usdt, ecmToken } = await loadFixture(deployFixture);
+
+      const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+      const pair = await MockPairFactory.deploy(
+        await usdt.getAddress(),
+        await ecmToken.getAddress()
+      );
+
+      await time.increase(100);
+      await pair.setReserves(ethers.parseUnits("1000", 6), ethers.parseEther("1000"));
+
+      expect(await pair.price0CumulativeLast()).to.equal(0);
+      expect(await pair.price1CumulativeLast()).to.equal(0);
+    });
+  });
+
+  describe("Deployment", function () {
+    it("Should set pair, window and initial observation", async function () {
+      const { twapOracle, pair } = await loadFixture(deployFixture);
+
+      expect(await twapOracle.pair()).to.equal(await pair.getAddress());
+      expect(await twapOracle.window()).to.equal(WINDOW);
+      expect(await twapOracle.usdtIsToken0()).to.be.true;
+      expect(await twapOracle.priceAverage()).to.equal(0);
+    });
+
+    it("Should revert with zero window", async function () {
+      const { pair, ecmToken, usdt } = await loadFixture(deployFixture);
+
+      const TwapOracleFactory = await ethers.getContractFactory("UniswapV2TwapOracle");
+      await expect(
+        TwapOracleFactory.deploy(
+          await pair.getAddress(),
+          await ecmToken.getAddress(),
+          await usdt.getAddress(),
+          0
+        )
+      ).to.be.revertedWith("zero window");
+    });
+
+    it("Should revert when the pair does not hold ECM and USDT", async function () {
+      const { pair, ecmToken } = await loadFixture(deployFixture);
+
+      const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+      const otherToken = await MockUSDTFactory.deploy();
+
+      const TwapOracleFactory = await ethers.getContractFactory("UniswapV2TwapOracle");
+      await expect(
+        TwapOracleFactory.deploy(
+          await pair.getAddress(),
+          await ecmToken.getAddress(),
+          await otherToken.getAddress(),
+          WINDOW
+        )
+      ).to.be.revertedWith("pair tokens mismatch");
+    });
+  });
+
+  describe("Observation Updates", function () {
+    it("Should not quote until a full window has elapsed", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(deployFixture);
+
+      const usdtAmount = ethers.parseUnits("1000", 6);
+
+      await expect(
+        sale.getEstimatedECMForUSDT(usdtAmount)
+      ).to.be.revertedWith("twap not ready");
+
+      await usdt.connect(buyer1).approve(await sale.getAddress(), usdtAmount);
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)
+      ).to.be.revertedWith("twap not ready");
+    });
+
+    it("Should quote the average price once the window has elapsed", async function () {
+      const { sale } = await loadFixture(twapReadyFixture);
+
+      const estimate = await sale.getEstimatedECMForUSDT(ethers.parseUnits("1000", 6));
+      expect(estimate).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should allow anyone to update and emit Updated", async function () {
+      const { twapOracle, other } = await loadFixture(twapReadyFixture);
+
+      const expectedPrice = (ethers.parseEther("2000000") << 112n) / ethers.parseUnits("1000000", 6);
+
+      await expect(twapOracle.connect(other).update())
+        .to.emit(twapOracle, "Updated")
+        .withArgs(expectedPrice, await time.latest() + 1);
+
+      expect(await twapOracle.priceAverage()).to.equal(expectedPrice);
+    });
+
+    it("Should not record an observation before the window has elapsed", async function () {
+      const { twapOracle } = await loadFixture(twapReadyFixture);
+
+      await twapOracle.update();
+      const timestampLast = await twapOracle.timestampLast();
+
+      await expect(twapOracle.update()).not.to.emit(twapOracle, "Updated");
+      expect(await twapOracle.timestampLast()).to.equal(timestampLast);
+    });
+
+    it("Should keep the previous average until the next window completes", async function () {
+      const { sale, pair, twapOracle } = await loadFixture(twapReadyFixture);
+
+      await twapOracle.update();
+
+      // Price doubles (1 USDT = 1 ECM) right after the observation
+      await pair.setReserves(
+        ethers.parseUnits("2000000", 6),
+        ethers.parseEther("2000000")
+      );
+
+      const usdtAmount = ethers.parseUnits("1000", 6);
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+
+      // After a full window at the new price the average follows
+      await time.increase(WINDOW);
+      const estimate = await sale.getEstimatedECMForUSDT(usdtAmount);
+      expect(estimate).to.be.closeTo(ethers.parseEther("1000"), ethers.parseEther("2"));
+    });
+  });
+
+  describe("Token Order", function () {
+    it("Should handle token0 = ECM, token1 = USDT correctly", async function () {
+      const { sale, usdt, ecmToken } = await loadFixture(deployFixture);
+
+      const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+      const pair = await MockPairFactory.deploy(
+        await ecmToken.getAddress(),
+        await usdt.getAddress()
+      );
+      await pair.setReserves(
+        ethers.parseEther("2000000"),      // token0 (ECM)
+        ethers.parseUnits("1000000", 6)    // token1 (USDT)
+      );
+
+      const TwapOracleFactory = await ethers.getContractFactory("UniswapV2TwapOracle");
+      const twapOracle = await TwapOracleFactory.deploy(
+        await pair.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        WINDOW
+      );
+      await sale.setOracle(await twapOracle.getAddress());
+      await time.increase(WINDOW);
+
+      expect(await twapOracle.usdtIsToken0()).to.be.false;
+      expect(
+        await sale.getEstimatedECMForUSDT(ethers.parseUnits("1000", 6))
+      ).to.equal(ethers.parseEther("2000"));
+    });
+  });
+
+  describe("Manipulation Resistance", function () {
+    it("Should ignore a spot price push made in the last block", async function () {
+      const { sale, pair } = await loadFixture(twapReadyFixture);
+
+      const usdtAmount = ethers.parseUnits("1000", 6);
+      const spotBefore = ethers.parseEther("2000");
+
+      // Attacker makes ECM 10x more expensive right before the quote
+      await pair.setReserves(
+        ethers.parseUnits("10000000", 6),
+        ethers.parseEther("2000000")
+      );
+
+      const estimate = await sale.getEstimatedECMForUSDT(usdtAmount);
+
+      // A one-second push barely moves a 30 minute average
+      expect(estimate).to.be.closeTo(spotBefore, ethers.parseEther("2"));
+    });
+
+    it("Should follow the push when switched back to a spot oracle", async function () {
+      const { sale, pair, ecmToken, usdt } = await loadFixture(twapReadyFixture);
+
+      const SpotOracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+      const spotOracle = await SpotOracleFactory.deploy(
+        await pair.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress()
+      );
+      await sale.setOracle(await spotOracle.getAddress());
+      await pair.setReserves(
+        ethers.parseUnits("10000000", 6),
+        ethers.parseEther("2000000")
+      );
+
+      expect(
+        await sale.getEstimatedECMForUSDT(ethers.parseUnits("1000", 6))
+      ).to.equal(ethers.parseEther("200"));
+    });
+  });
+
+  describe("Integration with buyWithUSDT", function () {
+    it("Should lock the TWAP-quoted amount and record an observation", async function () {
+      const { sale, usdt, buyer1, twapOracle } = await loadFixture(twapReadyFixture);
+
+      const usdtAmount = ethers.parseUnits("1000", 6);
+      const expectedECM = ethers.parseEther("2000");
+
+      await usdt.connect(buyer1).approve(await sale.getAddress(), usdtAmount);
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, expectedECM))
+        .to.emit(twapOracle, "Updated");
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(expectedECM);
+      expect(await twapOracle.timestampLast()).to.equal(await time.latest());
+    });
+
+    it("Should still enforce minECM slippage against the TWAP quote", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(twapReadyFixture);
+
+      const usdtAmount = ethers.parseUnits("1000", 6);
+
+      await usdt.connect(buyer1).approve(await sale.getAddress(), usdtAmount);
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, ethers.parseEther("2001"))
+      ).to.be.revertedWith("slippage");
+    });
+  });
+});
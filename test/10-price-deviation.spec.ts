@@ -0,0 +1,317 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Price Deviation Guard", function () {
+  const WINDOW = 30 * 60; // 30 minutes
+
+  async function deployFixture() {
+    const [owner, buyer1, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    // ECM / USD feed at $0.50 (8 decimals), matching the pair
+    const MockFeedFactory = await ethers.getContractFactory("MockV3Aggregator");
+    const feed = await MockFeedFactory.deploy(8, 50_000_000);
+
+    // Sale priced at spot, checked against a feed or TWAP reference
+    const SpotOracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await SpotOracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ChainlinkOracleFactory = await ethers.getContractFactory("ChainlinkOracle");
+    const feedOracle = await ChainlinkOracleFactory.deploy(
+      await feed.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      3600,
+      ethers.ZeroAddress
+    );
+
+    const TwapOracleFactory = await ethers.getContractFactory("UniswapV2TwapOracle");
+    const twapOracle = await TwapOracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      WINDOW
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, feed, oracle, feedOracle, twapOracle, sale, owner, buyer1, other };
+  }
+
+  const USDT_AMOUNT = ethers.parseUnits("1000", 6);
+
+  // Guard at 5% against the Chainlink feed, reverting on breach
+  async function feedGuardFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setReferenceOracle(await fixture.feedOracle.getAddress());
+    await fixture.sale.setPriceDeviationGuard(500, false);
+    return fixture;
+  }
+
+  // Guard at 5% against the TWAP of the same pair
+  async function twapGuardFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setReferenceOracle(await fixture.twapOracle.getAddress());
+    await fixture.sale.setPriceDeviationGuard(500, false);
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should be disabled by default", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      expect(await sale.maxPriceDeviationBps()).to.equal(0);
+      expect(await sale.pauseOnDeviation()).to.be.false;
+      expect(await sale.referenceOracle()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should allow owner to configure the guard", async function () {
+      const { sale, feedOracle, owner } = await loadFixture(deployFixture);
+
+      await sale.connect(owner).setReferenceOracle(await feedOracle.getAddress());
+      await expect(sale.connect(owner).setPriceDeviationGuard(500, true))
+        .to.emit(sale, "PriceDeviationGuardUpdated")
+        .withArgs(500, true);
+
+      expect(await sale.maxPriceDeviationBps()).to.equal(500);
+      expect(await sale.pauseOnDeviation()).to.be.true;
+    });
+
+    it("Should allow owner to set the reference oracle", async function () {
+      const { sale, feedOracle, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setReferenceOracle(await feedOracle.getAddress()))
+        .to.emit(sale, "ReferenceOracleUpdated")
+        .withArgs(owner.address, await feedOracle.getAddress());
+
+      expect(await sale.referenceOracle()).to.equal(await feedOracle.getAddress());
+    });
+
+    it("Should revert enabling the guard without a reference oracle", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(owner).setPriceDeviationGuard(500, false)
+      ).to.be.revertedWith("no reference");
+      await expect(
+        sale.getPriceDeviation(USDT_AMOUNT)
+      ).to.be.revertedWith("no reference");
+    });
+
+    it("Should revert clearing the reference oracle while the guard is enabled", async function () {
+      const { sale, owner } = await loadFixture(feedGuardFixture);
+
+      await expect(
+        sale.connect(owner).setReferenceOracle(ethers.ZeroAddress)
+      ).to.be.revertedWith("guard enabled");
+
+      await sale.connect(owner).setPriceDeviationGuard(0, false);
+      await sale.connect(owner).setReferenceOracle(ethers.ZeroAddress);
+      expect(await sale.referenceOracle()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should revert when deviation exceeds 10000 bps", async function () {
+      const { sale, owner } = await loadFixture(feedGuardFixture);
+
+      await expect(
+        sale.connect(owner).setPriceDeviationGuard(10001, false)
+      ).to.be.revertedWith("bps > 10000");
+    });
+
+    it("Should revert when non-owner tries to configure", async function () {
+      const { sale, feedOracle, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setPriceDeviationGuard(500, false)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+
+      await expect(
+        sale.connect(other).setReferenceOracle(await feedOracle.getAddress())
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Chainlink Feed Reference", function () {
+    it("Should report zero deviation when spot matches the feed", async function () {
+      const { sale } = await loadFixture(feedGuardFixture);
+
+      const [ecmAmount, referenceECMAmount, deviationBps] = await sale.getPriceDeviation(USDT_AMOUNT);
+      expect(ecmAmount).to.equal(ethers.parseEther("2000"));
+      expect(referenceECMAmount).to.equal(ecmAmount);
+      expect(deviationBps).to.equal(0);
+    });
+
+    it("Should allow purchases within the allowed deviation", async function () {
+      const { sale, pair, buyer1 } = await loadFixture(feedGuardFixture);
+
+      // ECM 4% more expensive on the pair
+      await pair.setReserves(
+        ethers.parseUnits("1040000", 6),
+        ethers.parseEther("2000000")
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0)
+      ).to.not.be.reverted;
+    });
+
+    it("Should refuse purchases when spot is pushed beyond the deviation", async function () {
+      const { sale, pair, buyer1 } = await loadFixture(feedGuardFixture);
+
+      // Sandwich pushes ECM 50% cheaper on the pair
+      await pair.setReserves(
+        ethers.parseUnits("1000000", 6),
+        ethers.parseEther("3000000")
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0)
+      ).to.be.revertedWith("price deviation");
+    });
+
+    it("Should auto-pause instead of reverting when configured", async function () {
+      const { sale, pair, usdt, buyer1 } = await loadFixture(feedGuardFixture);
+
+      await sale.setPriceDeviationGuard(500, true);
+      await pair.setReserves(
+        ethers.parseUnits("1000000", 6),
+        ethers.parseEther("3000000")
+      );
+
+      const [ecmAmount, referenceECMAmount] = await sale.getPriceDeviation(USDT_AMOUNT);
+
+      await expect(sale.connect(buyer1).buyWithUSDT(USDT_AMOUNT, 0))
+        .to.emit(sale, "PriceDeviationBreached")
+        .withArgs(ecmAmount, referenceECMAmount);
+
+      // Sale paused, nothing bought and no USDT taken
+      expect(await sale.paused()).to.be.true;
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts.length).to.equal(0);
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+      expect(await sale.totalLocked()).to.equal(0);
+    });
+
+    it("Should follow feed updates", async function () {
+      const { sale, feed, pair, buyer1 } = await loadFixture(feedGuardFixture);
+
+      await pair.setReserves(
+        ethers.parseUnits("1000000", 6),
+        ethers.parseEther("3000000")
+      );
+      await feed.updateAnswer(33_333_333); // ECM now $0.333
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0)
+      ).to.not.be.reverted;
+    });
+
+    it("Should revert on a non-positive feed answer", async function () {
+      const { sale, feed, buyer1 } = await loadFixture(feedGuardFixture);
+
+      await feed.updateAnswer(0);
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0)
+      ).to.be.revertedWith("bad feed price");
+
+      await feed.updateAnswer(-1);
+      await expect(sale.getPriceDeviation(USDT_AMOUNT)).to.be.revertedWith("bad feed price");
+    });
+
+    it("Should revert on a stale feed without fallback", async function () {
+      const { sale, buyer1 } = await loadFixture(feedGuardFixture);
+
+      await time.increase(3601);
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(USDT_AMOUNT, 0)
+      ).to.be.revertedWith("stale feed");
+    });
+
+    it("Should not check deviation when the guard is disabled", async function () {
+      const { sale, pair, buyer1 } = await loadFixture(feedGuardFixture);
+
+      await sale.setPriceDeviationGuard(0, false);
+      await pair.setReserves(
+        ethers.parseUnits("1000000", 6),
+        ethers.parseEther("3000000")
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0)
+      ).to.not.be.reverted;
+    });
+  });
+
+  describe("TWAP Reference", function () {
+    it("Should require a full TWAP window before purchases", async function () {
+      const { sale, buyer1 } = await loadFixture(twapGuardFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(USDT_AMOUNT, 0)
+      ).to.be.revertedWith("twap not ready");
+    });
+
+    it("Should price at spot while checking it against the TWAP", async function () {
+      const { sale, pair, twapOracle, buyer1 } = await loadFixture(twapGuardFixture);
+
+      await time.increase(WINDOW);
+
+      // 2% move is tolerated and priced at spot
+      await pair.setReserves(
+        ethers.parseUnits("1000000", 6),
+        ethers.parseEther("2040000")
+      );
+      await sale.connect(buyer1).buyWithUSDT(USDT_AMOUNT, 0);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("2040"));
+      expect(await twapOracle.priceAverage()).to.be.gt(0);
+    });
+
+    it("Should refuse a single-block spot push against the TWAP", async function () {
+      const { sale, pair, buyer1 } = await loadFixture(twapGuardFixture);
+
+      await time.increase(WINDOW);
+
+      await pair.setReserves(
+        ethers.parseUnits("1000000", 6),
+        ethers.parseEther("3000000")
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(USDT_AMOUNT, 0)
+      ).to.be.revertedWith("price deviation");
+    });
+  });
+});
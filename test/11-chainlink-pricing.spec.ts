@@ -0,0 +1,330 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Chainlink Pricing", function () {
+  const STALENESS = 3600; // 1 hour
+
+  async function deployFixture() {
+    const [owner, buyer1, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // Pair: 1 USDT = 2 ECM
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    // Feed: ECM = $0.40 (1 USDT = 2.5 ECM)
+    const MockFeedFactory = await ethers.getContractFactory("MockV3Aggregator");
+    const feed = await MockFeedFactory.deploy(8, 40_000_000);
+
+    const SpotOracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const spotOracle = await SpotOracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    // Feed pricing, falling back to the pair while stale
+    const ChainlinkOracleFactory = await ethers.getContractFactory("ChainlinkOracle");
+    const feedOracle = await ChainlinkOracleFactory.deploy(
+      await feed.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      STALENESS,
+      await spotOracle.getAddress()
+    );
+
+    const MinOracleFactory = await ethers.getContractFactory("MinPriceOracle");
+    const minOracle = await MinOracleFactory.deploy(
+      await feedOracle.getAddress(),
+      await spotOracle.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await spotOracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, feed, spotOracle, feedOracle, minOracle, sale, owner, buyer1, other };
+  }
+
+  async function feedModeFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setOracle(await fixture.feedOracle.getAddress());
+    return fixture;
+  }
+
+  async function minModeFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setOracle(await fixture.minOracle.getAddress());
+    return fixture;
+  }
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+
+  describe("Deployment", function () {
+    it("Should set feed, fallback and staleness threshold", async function () {
+      const { feedOracle, feed, spotOracle } = await loadFixture(deployFixture);
+
+      expect(await feedOracle.feed()).to.equal(await feed.getAddress());
+      expect(await feedOracle.fallbackOracle()).to.equal(await spotOracle.getAddress());
+      expect(await feedOracle.stalenessThreshold()).to.equal(STALENESS);
+    });
+
+    it("Should revert with zero feed or zero threshold", async function () {
+      const { feed, ecmToken, usdt } = await loadFixture(deployFixture);
+
+      const ChainlinkOracleFactory = await ethers.getContractFactory("ChainlinkOracle");
+      await expect(
+        ChainlinkOracleFactory.deploy(
+          ethers.ZeroAddress,
+          await ecmToken.getAddress(),
+          await usdt.getAddress(),
+          STALENESS,
+          ethers.ZeroAddress
+        )
+      ).to.be.revertedWith("zero addr");
+
+      await expect(
+        ChainlinkOracleFactory.deploy(
+          await feed.getAddress(),
+          await ecmToken.getAddress(),
+          await usdt.getAddress(),
+          0,
+          ethers.ZeroAddress
+        )
+      ).to.be.revertedWith("zero threshold");
+    });
+
+    it("Should price at the pair until switched to a feed oracle", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+  });
+
+  describe("Feed Pricing", function () {
+    it("Should quote and lock at the feed price", async function () {
+      const { sale, buyer1 } = await loadFixture(feedModeFixture);
+
+      const expectedECM = ethers.parseEther("2500");
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(expectedECM);
+
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, expectedECM);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(expectedECM);
+    });
+
+    it("Should ignore pair reserves while the feed is fresh", async function () {
+      const { sale, pair } = await loadFixture(feedModeFixture);
+
+      await pair.setReserves(0, 0);
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2500"));
+    });
+
+    it("Should normalize feeds with other decimals", async function () {
+      const { sale, ecmToken, usdt } = await loadFixture(deployFixture);
+
+      const MockFeedFactory = await ethers.getContractFactory("MockV3Aggregator");
+      const feed18 = await MockFeedFactory.deploy(18, ethers.parseEther("0.4"));
+
+      const ChainlinkOracleFactory = await ethers.getContractFactory("ChainlinkOracle");
+      const feedOracle18 = await ChainlinkOracleFactory.deploy(
+        await feed18.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        STALENESS,
+        ethers.ZeroAddress
+      );
+      await sale.setOracle(await feedOracle18.getAddress());
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2500"));
+    });
+  });
+
+  describe("Min Of Both", function () {
+    it("Should use the pair when it gives fewer ECM", async function () {
+      const { sale } = await loadFixture(minModeFixture);
+
+      // Pair 2000 ECM vs feed 2500 ECM
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should use the feed when it gives fewer ECM", async function () {
+      const { sale, feed, buyer1 } = await loadFixture(minModeFixture);
+
+      await feed.updateAnswer(100_000_000); // ECM = $1.00
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("1000"));
+
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("1000"));
+    });
+
+    it("Should revert with a zero oracle", async function () {
+      const { spotOracle } = await loadFixture(deployFixture);
+
+      const MinOracleFactory = await ethers.getContractFactory("MinPriceOracle");
+      await expect(
+        MinOracleFactory.deploy(await spotOracle.getAddress(), ethers.ZeroAddress)
+      ).to.be.revertedWith("zero addr");
+    });
+  });
+
+  describe("Stale Feed Fallback", function () {
+    it("Should fall back to the pair once the answer is older than the threshold", async function () {
+      const { sale, feed } = await loadFixture(feedModeFixture);
+
+      await time.increase(STALENESS + 1);
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+
+      // Fresh answer restores feed pricing
+      await feed.updateAnswer(40_000_000);
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2500"));
+    });
+
+    it("Should buy at the pair price while the feed is stale", async function () {
+      const { sale, buyer1 } = await loadFixture(feedModeFixture);
+
+      await time.increase(STALENESS + 1);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should fall back to the pair on an incomplete round", async function () {
+      const { sale, feed, feedOracle } = await loadFixture(feedModeFixture);
+
+      // Round 5 still carries the answer of round 4
+      await feed.updateRoundData(5, 40_000_000, await time.latest(), 4);
+
+      const [fresh] = await feedOracle.latestAnswer();
+      expect(fresh).to.be.false;
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should fall back to the pair when updatedAt is zero", async function () {
+      const { sale, feed } = await loadFixture(feedModeFixture);
+
+      await feed.updateRoundData(5, 40_000_000, 0, 5);
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should use only the pair in min-of-both while the feed is stale", async function () {
+      const { sale, feed } = await loadFixture(minModeFixture);
+
+      await feed.updateAnswer(100_000_000);
+      await time.increase(STALENESS + 1);
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should revert on a stale feed without fallback", async function () {
+      const { sale, feed, ecmToken, usdt, buyer1 } = await loadFixture(deployFixture);
+
+      const ChainlinkOracleFactory = await ethers.getContractFactory("ChainlinkOracle");
+      const strictOracle = await ChainlinkOracleFactory.deploy(
+        await feed.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        STALENESS,
+        ethers.ZeroAddress
+      );
+      await sale.setOracle(await strictOracle.getAddress());
+      await time.increase(STALENESS + 1);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)
+      ).to.be.revertedWith("stale feed");
+    });
+  });
+
+  describe("Negative Answers", function () {
+    it("Should revert on a negative answer", async function () {
+      const { sale, feed, buyer1 } = await loadFixture(feedModeFixture);
+
+      await feed.updateAnswer(-40_000_000);
+
+      await expect(sale.getEstimatedECMForUSDT(usdtAmount)).to.be.revertedWith("bad feed price");
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)
+      ).to.be.revertedWith("bad feed price");
+    });
+
+    it("Should revert on a zero answer", async function () {
+      const { sale, feed } = await loadFixture(minModeFixture);
+
+      await feed.updateAnswer(0);
+
+      await expect(sale.getEstimatedECMForUSDT(usdtAmount)).to.be.revertedWith("bad feed price");
+    });
+
+    it("Should not read the feed with the pair oracle", async function () {
+      const { sale, feed } = await loadFixture(deployFixture);
+
+      await feed.updateAnswer(-1);
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+  });
+
+  describe("Switching Oracles", function () {
+    it("Should price off a new feed oracle after setOracle", async function () {
+      const { sale, owner, buyer1, ecmToken, usdt, spotOracle } = await loadFixture(feedModeFixture);
+
+      const MockFeedFactory = await ethers.getContractFactory("MockV3Aggregator");
+      const newFeed = await MockFeedFactory.deploy(8, 25_000_000); // ECM = $0.25
+
+      const ChainlinkOracleFactory = await ethers.getContractFactory("ChainlinkOracle");
+      const newFeedOracle = await ChainlinkOracleFactory.deploy(
+        await newFeed.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        STALENESS,
+        await spotOracle.getAddress()
+      );
+
+      await expect(sale.connect(owner).setOracle(await newFeedOracle.getAddress()))
+        .to.emit(sale, "OracleUpdated")
+        .withArgs(owner.address, await newFeedOracle.getAddress());
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("4000"));
+
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, ethers.parseEther("4000"));
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("4000"));
+    });
+
+    it("Should go back to pair pricing when switched to the spot oracle", async function () {
+      const { sale, spotOracle } = await loadFixture(feedModeFixture);
+
+      await sale.setOracle(await spotOracle.getAddress());
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+  });
+});
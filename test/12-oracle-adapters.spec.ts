@@ -0,0 +1,144 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Oracle Adapters", function () {
+  async function deployFixture() {
+    const [owner, buyer1] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    // Fixed price: 4 ECM per 1 USDT
+    const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+    const fixedOracle = await FixedOracleFactory.deploy(ethers.parseEther("4"), ethers.parseUnits("1", 6));
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await fixedOracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, fixedOracle, sale, owner, buyer1 };
+  }
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+
+  describe("FixedPriceOracle", function () {
+    it("Should quote at the fixed rate", async function () {
+      const { sale, fixedOracle } = await loadFixture(deployFixture);
+
+      expect(await fixedOracle.ecmRate()).to.equal(ethers.parseEther("4"));
+      expect(await fixedOracle.usdtRate()).to.equal(ethers.parseUnits("1", 6));
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("4000"));
+    });
+
+    it("Should ignore pair reserves", async function () {
+      const { sale, pair } = await loadFixture(deployFixture);
+
+      await pair.setReserves(0, 0);
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("4000"));
+    });
+
+    it("Should lock the fixed-rate amount on purchase", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, ethers.parseEther("4000"));
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("4000"));
+    });
+
+    it("Should revert with a zero rate", async function () {
+      const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+
+      await expect(FixedOracleFactory.deploy(0, 1)).to.be.revertedWith("zero rate");
+      await expect(FixedOracleFactory.deploy(1, 0)).to.be.revertedWith("zero rate");
+    });
+  });
+
+  describe("UniswapV2SpotOracle", function () {
+    it("Should detect token order", async function () {
+      const { pair, ecmToken, usdt } = await loadFixture(deployFixture);
+
+      const SpotOracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+      const spotOracle = await SpotOracleFactory.deploy(
+        await pair.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress()
+      );
+
+      expect(await spotOracle.pair()).to.equal(await pair.getAddress());
+      expect(await spotOracle.usdtIsToken0()).to.be.true;
+      expect(await spotOracle.getECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should revert when the pair does not hold ECM and USDT", async function () {
+      const { pair, ecmToken } = await loadFixture(deployFixture);
+
+      const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+      const otherToken = await MockUSDTFactory.deploy();
+
+      const SpotOracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+      await expect(
+        SpotOracleFactory.deploy(
+          await pair.getAddress(),
+          await ecmToken.getAddress(),
+          await otherToken.getAddress()
+        )
+      ).to.be.revertedWith("pair tokens mismatch");
+    });
+
+    it("Should revert with a zero pair", async function () {
+      const { ecmToken, usdt } = await loadFixture(deployFixture);
+
+      const SpotOracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+      await expect(
+        SpotOracleFactory.deploy(
+          ethers.ZeroAddress,
+          await ecmToken.getAddress(),
+          await usdt.getAddress()
+        )
+      ).to.be.revertedWith("zero addr");
+    });
+  });
+
+  describe("Oracle Updates", function () {
+    it("Should call update() on the oracle during purchases", async function () {
+      const { sale, pair, ecmToken, usdt, buyer1 } = await loadFixture(deployFixture);
+
+      const TwapOracleFactory = await ethers.getContractFactory("UniswapV2TwapOracle");
+      const twapOracle = await TwapOracleFactory.deploy(
+        await pair.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        1
+      );
+      await sale.setOracle(await twapOracle.getAddress());
+
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0))
+        .to.emit(twapOracle, "Updated");
+    });
+  });
+});
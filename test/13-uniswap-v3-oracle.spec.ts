@@ -0,0 +1,274 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Uniswap V3 Oracle", function () {
+  const WINDOW = 30 * 60; // 30 minutes
+
+  // Largest tick whose price (token1 per token0, raw units) is <= price
+  const tickForPrice = (price: number) => Math.floor(Math.log(price) / Math.log(1.0001));
+
+  // 1 USDT (1e6) = 2 ECM (2e18)
+  const USDT_TOKEN0_TICK = tickForPrice(2e18 / 1e6);
+  const ECM_TOKEN0_TICK = tickForPrice(1e6 / 2e18) + 1;
+
+  async function deployFixture() {
+    const [owner, buyer1, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPoolFactory = await ethers.getContractFactory("MockUniswapV3Pool");
+    const pool = await MockPoolFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress(),
+      USDT_TOKEN0_TICK
+    );
+
+    const V3OracleFactory = await ethers.getContractFactory("UniswapV3TwapOracle");
+    const v3Oracle = await V3OracleFactory.deploy(
+      await pool.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      WINDOW
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await v3Oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pool, v3Oracle, sale, owner, buyer1, other };
+  }
+
+  // Pool history covers one full window
+  async function windowReadyFixture() {
+    const fixture = await deployFixture();
+    await time.increase(WINDOW);
+    return fixture;
+  }
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+  // One tick is 0.01%
+  const tolerance = ethers.parseEther("0.2");
+
+  describe("Deployment", function () {
+    it("Should set pool, window and token order", async function () {
+      const { v3Oracle, pool } = await loadFixture(deployFixture);
+
+      expect(await v3Oracle.pool()).to.equal(await pool.getAddress());
+      expect(await v3Oracle.window()).to.equal(WINDOW);
+      expect(await v3Oracle.usdtIsToken0()).to.be.true;
+    });
+
+    it("Should revert when the pool does not hold ECM and USDT", async function () {
+      const { pool, ecmToken } = await loadFixture(deployFixture);
+
+      const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+      const otherToken = await MockUSDTFactory.deploy();
+
+      const V3OracleFactory = await ethers.getContractFactory("UniswapV3TwapOracle");
+      await expect(
+        V3OracleFactory.deploy(
+          await pool.getAddress(),
+          await ecmToken.getAddress(),
+          await otherToken.getAddress(),
+          WINDOW
+        )
+      ).to.be.revertedWith("pool tokens mismatch");
+    });
+
+    it("Should revert with zero pool or zero window", async function () {
+      const { pool, ecmToken, usdt } = await loadFixture(deployFixture);
+
+      const V3OracleFactory = await ethers.getContractFactory("UniswapV3TwapOracle");
+      await expect(
+        V3OracleFactory.deploy(
+          ethers.ZeroAddress,
+          await ecmToken.getAddress(),
+          await usdt.getAddress(),
+          WINDOW
+        )
+      ).to.be.revertedWith("zero addr");
+
+      await expect(
+        V3OracleFactory.deploy(
+          await pool.getAddress(),
+          await ecmToken.getAddress(),
+          await usdt.getAddress(),
+          0
+        )
+      ).to.be.revertedWith("zero window");
+    });
+  });
+
+  describe("Pricing", function () {
+    it("Should quote at the mean tick once the pool covers the window", async function () {
+      const { sale, v3Oracle } = await loadFixture(windowReadyFixture);
+
+      expect(await v3Oracle.meanTick()).to.equal(USDT_TOKEN0_TICK);
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.be.closeTo(ethers.parseEther("2000"), tolerance);
+    });
+
+    it("Should revert while the pool history is shorter than the window", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      await expect(sale.getEstimatedECMForUSDT(usdtAmount)).to.be.revertedWith("OLD");
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)
+      ).to.be.revertedWith("OLD");
+    });
+
+    it("Should handle token0 = ECM, token1 = USDT correctly", async function () {
+      const { sale, usdt, ecmToken } = await loadFixture(deployFixture);
+
+      const MockPoolFactory = await ethers.getContractFactory("MockUniswapV3Pool");
+      const pool = await MockPoolFactory.deploy(
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        ECM_TOKEN0_TICK
+      );
+
+      const V3OracleFactory = await ethers.getContractFactory("UniswapV3TwapOracle");
+      const v3Oracle = await V3OracleFactory.deploy(
+        await pool.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        WINDOW
+      );
+      await sale.setOracle(await v3Oracle.getAddress());
+      await time.increase(WINDOW);
+
+      expect(await v3Oracle.usdtIsToken0()).to.be.false;
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.be.closeTo(ethers.parseEther("2000"), tolerance);
+    });
+
+    it("Should quote correctly at extreme ticks", async function () {
+      const { usdt, ecmToken } = await loadFixture(deployFixture);
+
+      const MockPoolFactory = await ethers.getContractFactory("MockUniswapV3Pool");
+      const V3OracleFactory = await ethers.getContractFactory("UniswapV3TwapOracle");
+
+      // Above 500k the sqrt price no longer fits in 128 bits
+      for (const tick of [500000, -500000]) {
+        const pool = await MockPoolFactory.deploy(
+          await usdt.getAddress(),
+          await ecmToken.getAddress(),
+          tick
+        );
+        const v3Oracle = await V3OracleFactory.deploy(
+          await pool.getAddress(),
+          await ecmToken.getAddress(),
+          await usdt.getAddress(),
+          WINDOW
+        );
+        await time.increase(WINDOW);
+
+        const amount = tick > 0 ? 10n ** 6n : 10n ** 30n;
+        const expected = Number(amount) * Math.pow(1.0001, tick);
+        const quote = Number(await v3Oracle.getECMForUSDT(amount));
+        expect(Math.abs(quote - expected) / expected).to.be.lt(1e-8);
+      }
+    });
+  });
+
+  describe("Mean Tick", function () {
+    it("Should average ticks over the window", async function () {
+      const { pool, v3Oracle } = await loadFixture(windowReadyFixture);
+
+      await pool.setTick(USDT_TOKEN0_TICK + 1000);
+      await time.increase(WINDOW / 2);
+
+      const meanTick = await v3Oracle.meanTick();
+      expect(meanTick).to.be.closeTo(BigInt(USDT_TOKEN0_TICK + 500), 2n);
+    });
+
+    it("Should round negative mean ticks toward negative infinity", async function () {
+      const { usdt, ecmToken } = await loadFixture(deployFixture);
+
+      const MockPoolFactory = await ethers.getContractFactory("MockUniswapV3Pool");
+      const pool = await MockPoolFactory.deploy(await usdt.getAddress(), await ecmToken.getAddress(), 0);
+
+      const V3OracleFactory = await ethers.getContractFactory("UniswapV3TwapOracle");
+      const v3Oracle = await V3OracleFactory.deploy(
+        await pool.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        WINDOW
+      );
+
+      await time.increase(WINDOW);
+      await pool.setTick(-1);
+      await time.increase(10);
+
+      // Mean is slightly below zero
+      expect(await v3Oracle.meanTick()).to.equal(-1);
+
+      await pool.setTick(1);
+      await time.increase(WINDOW);
+      expect(await v3Oracle.meanTick()).to.equal(1);
+    });
+  });
+
+  describe("Manipulation Resistance", function () {
+    it("Should ignore a tick push made in the last block", async function () {
+      const { sale, pool } = await loadFixture(windowReadyFixture);
+
+      // Attacker makes ECM ~10x more expensive right before the quote
+      await pool.setTick(USDT_TOKEN0_TICK - 23027);
+
+      const estimate = await sale.getEstimatedECMForUSDT(usdtAmount);
+      expect(estimate).to.be.closeTo(ethers.parseEther("2000"), ethers.parseEther("5"));
+    });
+  });
+
+  describe("Integration with buyWithUSDT", function () {
+    it("Should lock the V3-quoted amount", async function () {
+      const { sale, buyer1 } = await loadFixture(windowReadyFixture);
+
+      const estimate = await sale.getEstimatedECMForUSDT(usdtAmount);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, estimate);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(estimate);
+    });
+
+    it("Should switch from a V2 spot oracle to the V3 pool", async function () {
+      const { sale, usdt, ecmToken, owner } = await loadFixture(windowReadyFixture);
+
+      const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+      const fixedOracle = await FixedOracleFactory.deploy(ethers.parseEther("3"), ethers.parseUnits("1", 6));
+      await sale.connect(owner).setOracle(await fixedOracle.getAddress());
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("3000"));
+
+      const MockPoolFactory = await ethers.getContractFactory("MockUniswapV3Pool");
+      const pool = await MockPoolFactory.deploy(
+        await usdt.getAddress(),
+        await ecmToken.getAddress(),
+        USDT_TOKEN0_TICK
+      );
+      const V3OracleFactory = await ethers.getContractFactory("UniswapV3TwapOracle");
+      const v3Oracle = await V3OracleFactory.deploy(
+        await pool.getAddress(),
+        await ecmToken.getAddress(),
+        await usdt.getAddress(),
+        WINDOW
+      );
+      await time.increase(WINDOW);
+
+      await expect(sale.connect(owner).setOracle(await v3Oracle.getAddress()))
+        .to.emit(sale, "OracleUpdated")
+        .withArgs(owner.address, await v3Oracle.getAddress());
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.be.closeTo(ethers.parseEther("2000"), tolerance);
+    });
+  });
+});
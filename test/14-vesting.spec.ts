@@ -0,0 +1,231 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Linear Vesting", function () {
+  const DAY = 24 * 60 * 60;
+  const VESTING = 100 * DAY;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  // Vesting enabled and one 2000 ECM purchase by buyer1
+  async function vestingLockFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setVestingDuration(VESTING);
+    await fixture.sale.connect(fixture.buyer1).buyWithUSDT(usdtAmount, 0);
+    const [, releaseTimes] = await fixture.sale.getUserLocks(fixture.buyer1.address);
+    return { ...fixture, releaseTime: releaseTimes[0] };
+  }
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+  const lockAmount = ethers.parseEther("2000");
+
+  describe("Configuration", function () {
+    it("Should default to cliff-only locks", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      expect(await sale.vestingDuration()).to.equal(0);
+    });
+
+    it("Should allow owner to set the vesting duration", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setVestingDuration(VESTING))
+        .to.emit(sale, "VestingDurationUpdated")
+        .withArgs(VESTING);
+
+      expect(await sale.vestingDuration()).to.equal(VESTING);
+    });
+
+    it("Should revert when non-owner tries to set the vesting duration", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setVestingDuration(VESTING)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should record the vesting duration on new locks only", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+      await sale.setVestingDuration(VESTING);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      const [, , , vestingDurations] = await sale.getUserLocks(buyer1.address);
+      expect(vestingDurations[0]).to.equal(0);
+      expect(vestingDurations[1]).to.equal(VESTING);
+    });
+  });
+
+  describe("Cliff", function () {
+    it("Should vest nothing before the release time", async function () {
+      const { sale, buyer1, releaseTime } = await loadFixture(vestingLockFixture);
+
+      await time.increaseTo(releaseTime - 10n);
+
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(0);
+      await expect(sale.connect(buyer1).claimAllUnlocked()).to.be.revertedWith("nothing unlocked");
+      await expect(sale.connect(buyer1).claimLocks([0])).to.be.revertedWith("not yet unlocked");
+    });
+  });
+
+  describe("Linear Release", function () {
+    it("Should vest linearly after the cliff", async function () {
+      const { sale, buyer1, releaseTime } = await loadFixture(vestingLockFixture);
+
+      await time.increaseTo(releaseTime + BigInt(VESTING / 4));
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(lockAmount / 4n);
+
+      await time.increaseTo(releaseTime + BigInt(VESTING / 2));
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(lockAmount / 2n);
+    });
+
+    it("Should claim the vested part and track it per lock", async function () {
+      const { sale, ecmToken, buyer1, releaseTime } = await loadFixture(vestingLockFixture);
+
+      await time.setNextBlockTimestamp(releaseTime + BigInt(VESTING / 4));
+      await expect(sale.connect(buyer1).claimAllUnlocked())
+        .to.emit(sale, "Claim")
+        .withArgs(buyer1.address, lockAmount / 4n, 0);
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(lockAmount / 4n);
+
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(lockAmount);
+      expect(claimed[0]).to.equal(lockAmount / 4n);
+      expect(await sale.totalLocked()).to.equal(lockAmount - lockAmount / 4n);
+    });
+
+    it("Should allow repeated partial claims with claimLocks", async function () {
+      const { sale, ecmToken, buyer1, releaseTime } = await loadFixture(vestingLockFixture);
+
+      await time.setNextBlockTimestamp(releaseTime + BigInt(VESTING / 4));
+      await sale.connect(buyer1).claimLocks([0]);
+
+      await time.setNextBlockTimestamp(releaseTime + BigInt(VESTING / 2));
+      await expect(sale.connect(buyer1).claimLocks([0]))
+        .to.emit(sale, "Claim")
+        .withArgs(buyer1.address, lockAmount / 4n, 0);
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(lockAmount / 2n);
+      expect(await sale.totalLocked()).to.equal(lockAmount / 2n);
+    });
+
+    it("Should release everything once vesting ends", async function () {
+      const { sale, ecmToken, buyer1, releaseTime } = await loadFixture(vestingLockFixture);
+
+      await time.setNextBlockTimestamp(releaseTime + BigInt(VESTING / 2));
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      await time.increaseTo(releaseTime + BigInt(VESTING) + 1n);
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(lockAmount);
+      expect(await sale.totalLocked()).to.equal(0);
+
+      const [, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(lockAmount);
+    });
+
+    it("Should revert claiming a fully claimed lock", async function () {
+      const { sale, buyer1, releaseTime } = await loadFixture(vestingLockFixture);
+
+      await time.increaseTo(releaseTime + BigInt(VESTING));
+      await sale.connect(buyer1).claimLocks([0]);
+
+      await expect(sale.connect(buyer1).claimLocks([0])).to.be.revertedWith("already claimed");
+      await expect(sale.connect(buyer1).claimAllUnlocked()).to.be.revertedWith("nothing unlocked");
+    });
+  });
+
+  describe("Mixed Locks", function () {
+    it("Should claim cliff and vesting locks together", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(deployFixture);
+
+      // Lock 0: cliff only, lock 1: vesting
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+      await sale.setVestingDuration(VESTING);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      const [, releaseTimes] = await sale.getUserLocks(buyer1.address);
+      await time.setNextBlockTimestamp(releaseTimes[1] + BigInt(VESTING / 2));
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      const [, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(lockAmount);
+      expect(claimed[1]).to.equal(lockAmount / 2n);
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(lockAmount + lockAmount / 2n);
+      expect(await sale.totalLocked()).to.equal(lockAmount / 2n);
+    });
+
+    it("Should keep unvested tokens out of availableECM", async function () {
+      const { sale, buyer1, releaseTime } = await loadFixture(vestingLockFixture);
+
+      const availableBefore = await sale.availableECM();
+
+      await time.setNextBlockTimestamp(releaseTime + BigInt(VESTING / 2));
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      // Claiming moves tokens out of both balance and totalLocked
+      expect(await sale.availableECM()).to.equal(availableBefore);
+      await expect(
+        sale.withdrawAvailableECM(availableBefore + 1n)
+      ).to.be.revertedWith("amount > available");
+    });
+
+    it("Should track vesting per user", async function () {
+      const { sale, buyer1, buyer2, releaseTime } = await loadFixture(vestingLockFixture);
+
+      await sale.connect(buyer2).buyWithUSDT(usdtAmount, 0);
+      await time.increaseTo(releaseTime + BigInt(VESTING / 2));
+
+      const claimable1 = await sale.getClaimableECM(buyer1.address);
+      const claimable2 = await sale.getClaimableECM(buyer2.address);
+      expect(claimable1).to.equal(lockAmount / 2n);
+      expect(claimable2).to.be.lt(claimable1);
+    });
+  });
+});
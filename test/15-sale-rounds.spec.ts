@@ -0,0 +1,301 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Sale Rounds", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  // Seed (fixed $0.25, 10k ECM cap, 365 day lock) then public (10% discount, 1M cap, 90 day lock)
+  async function roundsFixture() {
+    const fixture = await deployFixture();
+    const now = BigInt(await time.latest());
+    const seedStart = now + BigInt(DAY);
+    const seedEnd = seedStart + BigInt(7 * DAY);
+    const publicStart = seedEnd + BigInt(DAY);
+    const publicEnd = publicStart + BigInt(30 * DAY);
+
+    await fixture.sale.createRound(
+      seedStart, seedEnd, ethers.parseEther("10000"), ethers.parseUnits("0.25", 6), 0, 365 * DAY
+    );
+    await fixture.sale.createRound(
+      publicStart, publicEnd, ethers.parseEther("1000000"), 0, 1000, 90 * DAY
+    );
+    return { ...fixture, seedStart, seedEnd, publicStart, publicEnd };
+  }
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+
+  describe("Round Creation", function () {
+    it("Should create rounds and emit RoundCreated", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      const start = BigInt(await time.latest()) + 100n;
+      const end = start + BigInt(DAY);
+
+      await expect(
+        sale.connect(owner).createRound(start, end, ethers.parseEther("5000"), 0, 500, 30 * DAY)
+      )
+        .to.emit(sale, "RoundCreated")
+        .withArgs(0, start, end, ethers.parseEther("5000"), 0, 500, 30 * DAY);
+
+      expect(await sale.roundCount()).to.equal(1);
+      const round = await sale.getRound(0);
+      expect(round.start).to.equal(start);
+      expect(round.end).to.equal(end);
+      expect(round.ecmCap).to.equal(ethers.parseEther("5000"));
+      expect(round.discountBps).to.equal(500);
+      expect(round.lockDuration).to.equal(30 * DAY);
+      expect(round.ecmSold).to.equal(0);
+      expect(round.usdtRaised).to.equal(0);
+    });
+
+    it("Should revert on invalid parameters", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      const now = BigInt(await time.latest());
+      const cap = ethers.parseEther("5000");
+
+      await expect(sale.createRound(now + 100n, now + 100n, cap, 0, 0, DAY)).to.be.revertedWith("bad window");
+      await expect(sale.createRound(now - 100n, now, cap, 0, 0, DAY)).to.be.revertedWith("round ended");
+      await expect(sale.createRound(now + 100n, now + 200n, 0, 0, 0, DAY)).to.be.revertedWith("zero cap");
+      await expect(sale.createRound(now + 100n, now + 200n, cap, 0, 10000, DAY)).to.be.revertedWith("bps >= 10000");
+      await expect(sale.createRound(now + 100n, now + 200n, cap, 1, 100, DAY)).to.be.revertedWith("price and discount");
+    });
+
+    it("Should revert on overlapping rounds", async function () {
+      const { sale, seedEnd } = await loadFixture(roundsFixture);
+
+      await expect(
+        sale.createRound(seedEnd, seedEnd + BigInt(DAY), ethers.parseEther("1"), 0, 0, DAY)
+      ).to.be.revertedWith("round overlap");
+    });
+
+    it("Should revert when non-owner tries to create a round", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      const start = BigInt(await time.latest()) + 100n;
+      await expect(
+        sale.connect(other).createRound(start, start + 100n, 1, 0, 0, DAY)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should revert reading an unknown round", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.getRound(0)).to.be.revertedWith("invalid round");
+    });
+  });
+
+  describe("Round Routing", function () {
+    it("Should keep global settings while no rounds exist", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      const [active] = await sale.getCurrentRound();
+      expect(active).to.be.false;
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("2000"));
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.not.be.reverted;
+    });
+
+    it("Should refuse purchases before the first round", async function () {
+      const { sale, buyer1 } = await loadFixture(roundsFixture);
+
+      const [active] = await sale.getCurrentRound();
+      expect(active).to.be.false;
+      await expect(sale.getEstimatedECMForUSDT(usdtAmount)).to.be.revertedWith("no active round");
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.be.revertedWith("no active round");
+    });
+
+    it("Should refuse purchases between rounds", async function () {
+      const { sale, buyer1, seedEnd } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(seedEnd);
+      const [active, roundId] = await sale.getCurrentRound();
+      expect(active).to.be.false;
+      expect(roundId).to.equal(1);
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.be.revertedWith("no active round");
+    });
+
+    it("Should refuse purchases after the last round", async function () {
+      const { sale, buyer1, publicEnd } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(publicEnd);
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.be.revertedWith("no active round");
+    });
+  });
+
+  describe("Fixed Price Round", function () {
+    it("Should sell at the fixed price with the round lock duration", async function () {
+      const { sale, buyer1, seedStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(seedStart);
+      const [active, roundId] = await sale.getCurrentRound();
+      expect(active).to.be.true;
+      expect(roundId).to.equal(0);
+
+      // $0.25 per ECM
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("4000"));
+
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, ethers.parseEther("4000"));
+
+      const [amounts, releaseTimes] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("4000"));
+      expect(releaseTimes[0]).to.equal(BigInt(await time.latest()) + BigInt(365 * DAY));
+    });
+
+    it("Should ignore the oracle price", async function () {
+      const { sale, pair, seedStart } = await loadFixture(roundsFixture);
+
+      await pair.setReserves(0, 0);
+      await time.increaseTo(seedStart);
+
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("4000"));
+    });
+
+    it("Should track ECM sold and USDT raised", async function () {
+      const { sale, buyer1, buyer2, seedStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(seedStart);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+      await sale.connect(buyer2).buyWithUSDT(usdtAmount / 2n, 0);
+
+      const round = await sale.getRound(0);
+      expect(round.ecmSold).to.equal(ethers.parseEther("6000"));
+      expect(round.usdtRaised).to.equal(usdtAmount + usdtAmount / 2n);
+    });
+
+    it("Should enforce the round cap", async function () {
+      const { sale, buyer1, seedStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(seedStart);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount * 2n, 0); // 8000 ECM
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0) // 4000 ECM > 2000 left
+      ).to.be.revertedWith("round cap exceeded");
+    });
+
+    it("Should close the round when it sells out", async function () {
+      const { sale, buyer1, seedStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(seedStart);
+      await expect(sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("2500", 6), 0))
+        .to.emit(sale, "RoundClosed")
+        .withArgs(0, ethers.parseEther("10000"), ethers.parseUnits("2500", 6));
+
+      expect(await sale.roundCursor()).to.equal(1);
+      const [active] = await sale.getCurrentRound();
+      expect(active).to.be.false;
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.be.revertedWith("no active round");
+    });
+  });
+
+  describe("Discount Round", function () {
+    it("Should sell at a discount to the oracle price", async function () {
+      const { sale, buyer1, publicStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(publicStart);
+
+      // 2000 ECM at 10% off the price
+      const expectedECM = (ethers.parseEther("2000") * 10000n) / 9000n;
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(expectedECM);
+
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, expectedECM);
+
+      const [amounts, releaseTimes] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(expectedECM);
+      expect(releaseTimes[0]).to.equal(BigInt(await time.latest()) + BigInt(90 * DAY));
+    });
+
+    it("Should follow the oracle price", async function () {
+      const { sale, pair, publicStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(publicStart);
+      await pair.setReserves(ethers.parseUnits("1000000", 6), ethers.parseEther("900000"));
+
+      // 900 ECM at 10% off
+      expect(await sale.getEstimatedECMForUSDT(usdtAmount)).to.equal(ethers.parseEther("1000"));
+    });
+  });
+
+  describe("Round Transitions", function () {
+    it("Should emit RoundClosed for ended rounds on the next purchase", async function () {
+      const { sale, buyer1, seedStart, publicStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(seedStart);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      await time.increaseTo(publicStart);
+      expect(await sale.roundCursor()).to.equal(0);
+
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0))
+        .to.emit(sale, "RoundClosed")
+        .withArgs(0, ethers.parseEther("4000"), usdtAmount);
+
+      expect(await sale.roundCursor()).to.equal(1);
+      const [active, roundId] = await sale.getCurrentRound();
+      expect(active).to.be.true;
+      expect(roundId).to.equal(1);
+    });
+
+    it("Should keep figures separate per round", async function () {
+      const { sale, buyer1, seedStart, publicStart } = await loadFixture(roundsFixture);
+
+      await time.increaseTo(seedStart);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      await time.increaseTo(publicStart);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      const seed = await sale.getRound(0);
+      const pub = await sale.getRound(1);
+      expect(seed.ecmSold).to.equal(ethers.parseEther("4000"));
+      expect(pub.ecmSold).to.equal((ethers.parseEther("2000") * 10000n) / 9000n);
+      expect(seed.usdtRaised).to.equal(usdtAmount);
+      expect(pub.usdtRaised).to.equal(usdtAmount);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Purchase Caps", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+  // min 100, max 5k per purchase, 10k per wallet, 15k hard cap
+  async function capsFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setPurchaseCaps(units("100"), units("5000"), units("10000"), units("15000"));
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should default to no caps", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      expect(await sale.minPurchaseUSDT()).to.equal(0);
+      expect(await sale.maxPurchaseUSDT()).to.equal(0);
+      expect(await sale.walletCapUSDT()).to.equal(0);
+      expect(await sale.hardCapUSDT()).to.equal(0);
+      expect(await sale.getRemainingAllowance(buyer1.address)).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should allow owner to set caps and emit PurchaseCapsUpdated", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(owner).setPurchaseCaps(units("100"), units("5000"), units("10000"), units("15000"))
+      )
+        .to.emit(sale, "PurchaseCapsUpdated")
+        .withArgs(units("100"), units("5000"), units("10000"), units("15000"));
+
+      expect(await sale.minPurchaseUSDT()).to.equal(units("100"));
+      expect(await sale.maxPurchaseUSDT()).to.equal(units("5000"));
+      expect(await sale.walletCapUSDT()).to.equal(units("10000"));
+      expect(await sale.hardCapUSDT()).to.equal(units("15000"));
+    });
+
+    it("Should revert when min is above max", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.setPurchaseCaps(units("200"), units("100"), 0, 0)
+      ).to.be.revertedWith("min > max");
+
+      // No max: any min is fine
+      await expect(sale.setPurchaseCaps(units("200"), 0, 0, 0)).to.not.be.reverted;
+    });
+
+    it("Should revert when non-owner tries to set caps", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setPurchaseCaps(0, 0, 0, 0)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Per-Transaction Limits", function () {
+    it("Should revert below the min purchase", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("99"), 0)
+      ).to.be.revertedWith("below min purchase");
+    });
+
+    it("Should revert above the max purchase", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("5001"), 0)
+      ).to.be.revertedWith("above max purchase");
+    });
+
+    it("Should accept purchases at the limits", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("100"), 0);
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+
+      expect(await sale.usdtContributed(buyer1.address)).to.equal(units("5100"));
+    });
+  });
+
+  describe("Wallet Cap", function () {
+    it("Should count every lock against the wallet cap", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("4000"), 0);
+      await sale.connect(buyer1).buyWithUSDT(units("4000"), 0);
+      expect(await sale.getRemainingAllowance(buyer1.address)).to.equal(units("2000"));
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("2001"), 0)
+      ).to.be.revertedWith("wallet cap exceeded");
+
+      await sale.connect(buyer1).buyWithUSDT(units("2000"), 0);
+      expect(await sale.getRemainingAllowance(buyer1.address)).to.equal(0);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts.length).to.equal(3);
+    });
+
+    it("Should keep counting after lock duration changes", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+      await sale.setLockDuration(30 * DAY);
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+
+      const [, releaseTimes] = await sale.getUserLocks(buyer1.address);
+      expect(releaseTimes[0] - releaseTimes[1]).to.be.gt(0);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("100"), 0)
+      ).to.be.revertedWith("wallet cap exceeded");
+    });
+
+    it("Should not reset after claiming", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await sale.setLockDuration(DAY);
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+
+      await time.increase(DAY);
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      expect(await sale.usdtContributed(buyer1.address)).to.equal(units("10000"));
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("100"), 0)
+      ).to.be.revertedWith("wallet cap exceeded");
+    });
+
+    it("Should track wallets separately", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(capsFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+
+      expect(await sale.getRemainingAllowance(buyer1.address)).to.equal(0);
+      expect(await sale.getRemainingAllowance(buyer2.address)).to.equal(units("5000"));
+      await expect(sale.connect(buyer2).buyWithUSDT(units("1000"), 0)).to.not.be.reverted;
+    });
+  });
+
+  describe("Hard Cap", function () {
+    it("Should revert once the hard cap would be exceeded", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(capsFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+      await sale.connect(buyer2).buyWithUSDT(units("4000"), 0);
+
+      expect(await sale.totalUSDTRaised()).to.equal(units("14000"));
+      // Hard cap is tighter than buyer2's wallet cap
+      expect(await sale.getRemainingAllowance(buyer2.address)).to.equal(units("1000"));
+
+      await expect(
+        sale.connect(buyer2).buyWithUSDT(units("1001"), 0)
+      ).to.be.revertedWith("hard cap exceeded");
+
+      await sale.connect(buyer2).buyWithUSDT(units("1000"), 0);
+      expect(await sale.getRemainingAllowance(buyer2.address)).to.equal(0);
+    });
+
+    it("Should not be affected by USDT withdrawals", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+      await sale.withdrawUSDT(units("5000"));
+
+      expect(await sale.totalUSDTRaised()).to.equal(units("5000"));
+    });
+
+    it("Should block purchases when lowered below the amount raised", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(capsFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("5000"), 0);
+      await sale.setPurchaseCaps(0, 0, 0, units("4000"));
+
+      expect(await sale.getRemainingAllowance(buyer2.address)).to.equal(0);
+      await expect(
+        sale.connect(buyer2).buyWithUSDT(units("1"), 0)
+      ).to.be.revertedWith("hard cap exceeded");
+    });
+
+    it("Should not record purchases that fail", async function () {
+      const { sale, buyer1 } = await loadFixture(capsFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("1000"), ethers.parseEther("999999"))
+      ).to.be.revertedWith("slippage");
+
+      expect(await sale.usdtContributed(buyer1.address)).to.equal(0);
+      expect(await sale.totalUSDTRaised()).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import hre, { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { buildAllowlist, parseAllowlistCsv } from "../tasks/allowlist-tree";
+
+describe("ECMSale - Allowlist", function () {
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+  const usdtAmount = units("1000");
+
+  // buyer1 capped at 2,000 USDT, buyer2 uncapped, other not listed
+  async function allowlistFixture() {
+    const fixture = await deployFixture();
+    const allowlist = buildAllowlist([
+      { address: fixture.buyer1.address, cap: units("2000") },
+      { address: fixture.buyer2.address, cap: 0n },
+      { address: fixture.owner.address, cap: units("1") },
+    ]);
+    await fixture.sale.setAllowlistRoot(allowlist.root);
+    await fixture.sale.setAllowlistOnly(true);
+    return { ...fixture, allowlist };
+  }
+
+  describe("Configuration", function () {
+    it("Should default to public mode without a root", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      expect(await sale.allowlistRoot()).to.equal(ethers.ZeroHash);
+      expect(await sale.allowlistOnly()).to.be.false;
+    });
+
+    it("Should allow owner to rotate the root", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      const root = ethers.keccak256("0x01");
+      await expect(sale.connect(owner).setAllowlistRoot(root))
+        .to.emit(sale, "AllowlistRootUpdated")
+        .withArgs(root);
+
+      expect(await sale.allowlistRoot()).to.equal(root);
+    });
+
+    it("Should allow owner to switch modes", async function () {
+      const { sale, owner } = await loadFixture(allowlistFixture);
+
+      expect(await sale.allowlistOnly()).to.be.true;
+      await expect(sale.connect(owner).setAllowlistOnly(false))
+        .to.emit(sale, "AllowlistModeUpdated")
+        .withArgs(false);
+      expect(await sale.allowlistOnly()).to.be.false;
+    });
+
+    it("Should revert enabling allowlist mode without a root", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.setAllowlistOnly(true)).to.be.revertedWith("no root");
+    });
+
+    it("Should revert when non-owner tries to configure the allowlist", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setAllowlistRoot(ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+      await expect(
+        sale.connect(other).setAllowlistOnly(false)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Allowlist Mode", function () {
+    it("Should block public purchases", async function () {
+      const { sale, buyer1 } = await loadFixture(allowlistFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)
+      ).to.be.revertedWith("allowlist only");
+    });
+
+    it("Should accept a valid proof", async function () {
+      const { sale, buyer1, allowlist } = await loadFixture(allowlistFixture);
+
+      const { cap, proof } = allowlist.proofs[buyer1.address];
+      expect(await sale.isAllowlisted(buyer1.address, cap, proof)).to.be.true;
+
+      await expect(sale.connect(buyer1).buyWithUSDTAllowlisted(usdtAmount, 0, cap, proof))
+        .to.emit(sale, "Purchase");
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should reject addresses not on the list", async function () {
+      const { sale, other, allowlist, buyer2 } = await loadFixture(allowlistFixture);
+
+      const { cap, proof } = allowlist.proofs[buyer2.address];
+      expect(await sale.isAllowlisted(other.address, cap, proof)).to.be.false;
+
+      await expect(
+        sale.connect(other).buyWithUSDTAllowlisted(usdtAmount, 0, cap, proof)
+      ).to.be.revertedWith("not allowlisted");
+    });
+
+    it("Should reject a forged cap", async function () {
+      const { sale, buyer1, allowlist } = await loadFixture(allowlistFixture);
+
+      const { proof } = allowlist.proofs[buyer1.address];
+      await expect(
+        sale.connect(buyer1).buyWithUSDTAllowlisted(usdtAmount, 0, 0, proof)
+      ).to.be.revertedWith("not allowlisted");
+    });
+
+    it("Should enforce the per-address cap across purchases", async function () {
+      const { sale, buyer1, allowlist } = await loadFixture(allowlistFixture);
+
+      const { cap, proof } = allowlist.proofs[buyer1.address];
+      await sale.connect(buyer1).buyWithUSDTAllowlisted(usdtAmount, 0, cap, proof);
+      await sale.connect(buyer1).buyWithUSDTAllowlisted(usdtAmount, 0, cap, proof);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTAllowlisted(1, 0, cap, proof)
+      ).to.be.revertedWith("allowlist cap exceeded");
+    });
+
+    it("Should let uncapped addresses buy up to the global caps", async function () {
+      const { sale, buyer2, allowlist } = await loadFixture(allowlistFixture);
+
+      await sale.setPurchaseCaps(0, 0, units("5000"), 0);
+      const { cap, proof } = allowlist.proofs[buyer2.address];
+
+      await sale.connect(buyer2).buyWithUSDTAllowlisted(units("5000"), 0, cap, proof);
+      await expect(
+        sale.connect(buyer2).buyWithUSDTAllowlisted(1, 0, cap, proof)
+      ).to.be.revertedWith("wallet cap exceeded");
+    });
+
+    it("Should invalidate old proofs when the root is rotated", async function () {
+      const { sale, buyer1, buyer2, allowlist } = await loadFixture(allowlistFixture);
+
+      const rotated = buildAllowlist([{ address: buyer2.address, cap: 0n }]);
+      await sale.setAllowlistRoot(rotated.root);
+
+      const { cap, proof } = allowlist.proofs[buyer1.address];
+      await expect(
+        sale.connect(buyer1).buyWithUSDTAllowlisted(usdtAmount, 0, cap, proof)
+      ).to.be.revertedWith("not allowlisted");
+
+      // Single-leaf tree: empty proof
+      await expect(
+        sale.connect(buyer2).buyWithUSDTAllowlisted(usdtAmount, 0, 0, rotated.proofs[buyer2.address].proof)
+      ).to.emit(sale, "Purchase");
+    });
+  });
+
+  describe("Public Mode", function () {
+    it("Should reopen public purchases", async function () {
+      const { sale, other, usdt } = await loadFixture(allowlistFixture);
+
+      await sale.setAllowlistOnly(false);
+      await usdt.mint(other.address, usdtAmount);
+      await usdt.connect(other).approve(await sale.getAddress(), usdtAmount);
+
+      await expect(sale.connect(other).buyWithUSDT(usdtAmount, 0)).to.emit(sale, "Purchase");
+    });
+
+    it("Should count public purchases against the allowlist cap", async function () {
+      const { sale, buyer1, allowlist } = await loadFixture(allowlistFixture);
+
+      await sale.setAllowlistOnly(false);
+      await sale.connect(buyer1).buyWithUSDT(units("1500"), 0);
+
+      const { cap, proof } = allowlist.proofs[buyer1.address];
+      await expect(
+        sale.connect(buyer1).buyWithUSDTAllowlisted(units("501"), 0, cap, proof)
+      ).to.be.revertedWith("allowlist cap exceeded");
+    });
+  });
+
+  describe("Allowlist Task", function () {
+    let tmpDir: string;
+
+    beforeEach(function () {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "allowlist-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("Should write a root and proofs the sale accepts", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(deployFixture);
+
+      const csv = path.join(tmpDir, "allowlist.csv");
+      const out = path.join(tmpDir, "out", "allowlist.json");
+      fs.writeFileSync(
+        csv,
+        `address,cap\n${buyer1.address.toLowerCase()},2500.5\n${buyer2.address},\n`
+      );
+
+      await hre.run("allowlist", { csv, out });
+      const allowlist = JSON.parse(fs.readFileSync(out, "utf8"));
+
+      expect(allowlist.proofs[buyer1.address].cap).to.equal(units("2500.5").toString());
+      expect(allowlist.proofs[buyer2.address].cap).to.equal("0");
+
+      await sale.setAllowlistRoot(allowlist.root);
+      await sale.setAllowlistOnly(true);
+
+      const entry = allowlist.proofs[buyer1.address];
+      await expect(
+        sale.connect(buyer1).buyWithUSDTAllowlisted(usdtAmount, 0, entry.cap, entry.proof)
+      ).to.emit(sale, "Purchase");
+    });
+
+    it("Should reject invalid and duplicate addresses", function () {
+      const address = ethers.Wallet.createRandom().address;
+
+      expect(() => parseAllowlistCsv("0x1234,100")).to.throw("invalid address");
+      expect(() => parseAllowlistCsv(`${address},1\n${address},2`)).to.throw("duplicate address");
+      expect(() => parseAllowlistCsv("address,cap\n")).to.throw("allowlist is empty");
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import hre, { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import SepoliaDeploymentModule from "../ignition/modules/deploy-sepolia";
+
+describe("ECMSale - Sale Schedule", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+
+  // Sale opens in one day and runs for 30 days
+  async function scheduledFixture() {
+    const fixture = await deployFixture();
+    const saleStart = BigInt(await time.latest()) + BigInt(DAY);
+    const saleEnd = saleStart + BigInt(30 * DAY);
+    await fixture.sale.setSaleSchedule(saleStart, saleEnd);
+    return { ...fixture, saleStart, saleEnd };
+  }
+
+  const Status = { Upcoming: 0n, Active: 1n, Ended: 2n };
+  const usdtAmount = ethers.parseUnits("1000", 6);
+
+  describe("Configuration", function () {
+    it("Should default to an open-ended active sale", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      expect(await sale.saleStart()).to.equal(0);
+      expect(await sale.saleEnd()).to.equal(0);
+      expect(await sale.getSaleStatus()).to.equal(Status.Active);
+    });
+
+    it("Should allow owner to set the schedule", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setSaleSchedule(1000, 2000))
+        .to.emit(sale, "SaleScheduleUpdated")
+        .withArgs(1000, 2000);
+
+      expect(await sale.saleStart()).to.equal(1000);
+      expect(await sale.saleEnd()).to.equal(2000);
+    });
+
+    it("Should allow a start without an end", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.setSaleSchedule(1000, 0)).to.not.be.reverted;
+    });
+
+    it("Should revert when the end is not after the start", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.setSaleSchedule(2000, 2000)).to.be.revertedWith("bad window");
+      await expect(sale.setSaleSchedule(2000, 1000)).to.be.revertedWith("bad window");
+    });
+
+    it("Should revert when non-owner tries to set the schedule", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setSaleSchedule(0, 0)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Purchase Window", function () {
+    it("Should refuse purchases before the start", async function () {
+      const { sale, buyer1 } = await loadFixture(scheduledFixture);
+
+      expect(await sale.getSaleStatus()).to.equal(Status.Upcoming);
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)
+      ).to.be.revertedWith("sale not started");
+    });
+
+    it("Should accept purchases from the start", async function () {
+      const { sale, buyer1, saleStart } = await loadFixture(scheduledFixture);
+
+      await time.increaseTo(saleStart);
+      expect(await sale.getSaleStatus()).to.equal(Status.Active);
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.emit(sale, "Purchase");
+    });
+
+    it("Should refuse purchases from the end", async function () {
+      const { sale, buyer1, saleEnd } = await loadFixture(scheduledFixture);
+
+      await time.increaseTo(saleEnd);
+      expect(await sale.getSaleStatus()).to.equal(Status.Ended);
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)
+      ).to.be.revertedWith("sale ended");
+    });
+
+    it("Should apply to allowlisted purchases", async function () {
+      const { sale, buyer1 } = await loadFixture(scheduledFixture);
+
+      // Single-leaf tree: the root is the leaf
+      const leaf = ethers.keccak256(
+        ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [buyer1.address, 0]))
+      );
+      await sale.setAllowlistRoot(leaf);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTAllowlisted(usdtAmount, 0, 0, [])
+      ).to.be.revertedWith("sale not started");
+    });
+
+    it("Should reopen when the owner extends the end", async function () {
+      const { sale, buyer1, saleStart, saleEnd } = await loadFixture(scheduledFixture);
+
+      await time.increaseTo(saleEnd);
+      await sale.setSaleSchedule(saleStart, saleEnd + BigInt(DAY));
+
+      expect(await sale.getSaleStatus()).to.equal(Status.Active);
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.emit(sale, "Purchase");
+    });
+  });
+
+  describe("End of Sale", function () {
+    it("Should keep claims working after the end", async function () {
+      const { sale, ecmToken, buyer1, saleStart, saleEnd } = await loadFixture(scheduledFixture);
+
+      await time.increaseTo(saleStart);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      await time.increaseTo(saleEnd + BigInt(180 * DAY));
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should let owner withdraw all unsold ECM after the end", async function () {
+      const { sale, ecmToken, owner, buyer1, saleStart, saleEnd } = await loadFixture(scheduledFixture);
+
+      await time.increaseTo(saleStart);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+      await time.increaseTo(saleEnd);
+
+      const unsold = await sale.availableECM();
+      const ownerBalance = await ecmToken.balanceOf(owner.address);
+
+      await expect(sale.connect(owner).withdrawUnsoldECM())
+        .to.emit(sale, "WithdrawECM")
+        .withArgs(owner.address, unsold);
+
+      expect(await ecmToken.balanceOf(owner.address)).to.equal(ownerBalance + unsold);
+      expect(await sale.availableECM()).to.equal(0);
+      expect(await ecmToken.balanceOf(await sale.getAddress())).to.equal(await sale.totalLocked());
+
+      // Locked tokens are still claimable
+      await time.increase(180 * DAY);
+      await expect(sale.connect(buyer1).claimAllUnlocked()).to.not.be.reverted;
+    });
+
+    it("Should revert withdrawing unsold ECM before the end", async function () {
+      const { sale, saleStart } = await loadFixture(scheduledFixture);
+
+      await expect(sale.withdrawUnsoldECM()).to.be.revertedWith("sale not ended");
+      await time.increaseTo(saleStart);
+      await expect(sale.withdrawUnsoldECM()).to.be.revertedWith("sale not ended");
+    });
+
+    it("Should revert withdrawing unsold ECM without an end", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.withdrawUnsoldECM()).to.be.revertedWith("sale not ended");
+    });
+
+    it("Should revert when nothing is left to withdraw", async function () {
+      const { sale, saleEnd } = await loadFixture(scheduledFixture);
+
+      await time.increaseTo(saleEnd);
+      await sale.withdrawUnsoldECM();
+
+      await expect(sale.withdrawUnsoldECM()).to.be.revertedWith("nothing to withdraw");
+    });
+
+    it("Should revert when non-owner tries to withdraw unsold ECM", async function () {
+      const { sale, other, saleEnd } = await loadFixture(scheduledFixture);
+
+      await time.increaseTo(saleEnd);
+      await expect(
+        sale.connect(other).withdrawUnsoldECM()
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Ignition Module", function () {
+    it("Should deploy with the schedule from parameters", async function () {
+      const saleStart = BigInt(await time.latest()) + BigInt(DAY);
+      const saleEnd = saleStart + BigInt(30 * DAY);
+
+      const { ecmSale } = await hre.ignition.deploy(SepoliaDeploymentModule, {
+        parameters: { SepoliaDeployment: { saleStart, saleEnd } },
+      });
+
+      expect(await ecmSale.saleStart()).to.equal(saleStart);
+      expect(await ecmSale.saleEnd()).to.equal(saleEnd);
+      expect(await ecmSale.getSaleStatus()).to.equal(Status.Upcoming);
+    });
+  });
+});
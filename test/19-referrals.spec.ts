@@ -0,0 +1,275 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Referrals", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, buyer3, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer3.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer3).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, buyer3, other };
+  }
+
+
+  // 5% referral bonus
+  async function referralFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setReferralBonusBps(500);
+    return fixture;
+  }
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+  const ecmAmount = ethers.parseEther("2000");
+  const bonus = ethers.parseEther("100");
+
+  describe("Configuration", function () {
+    it("Should default to no bonus", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      expect(await sale.referralBonusBps()).to.equal(0);
+    });
+
+    it("Should allow owner to set the bonus", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setReferralBonusBps(500))
+        .to.emit(sale, "ReferralBonusUpdated")
+        .withArgs(500);
+
+      expect(await sale.referralBonusBps()).to.equal(500);
+    });
+
+    it("Should revert with bps above 10000", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.setReferralBonusBps(10001)).to.be.revertedWith("bps > 10000");
+    });
+
+    it("Should revert when non-owner tries to set the bonus", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setReferralBonusBps(500)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Referred Purchases", function () {
+    it("Should lock the bonus for the referrer", async function () {
+      const { sale, buyer1, other } = await loadFixture(referralFixture);
+
+      await expect(sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address))
+        .to.emit(sale, "ReferralBonus")
+        .withArgs(other.address, buyer1.address, bonus, 0);
+
+      const [buyerAmounts, buyerReleaseTimes] = await sale.getUserLocks(buyer1.address);
+      const [referrerAmounts, referrerReleaseTimes] = await sale.getUserLocks(other.address);
+      expect(buyerAmounts[0]).to.equal(ecmAmount);
+      expect(referrerAmounts[0]).to.equal(bonus);
+      expect(referrerReleaseTimes[0]).to.equal(buyerReleaseTimes[0]);
+
+      expect(await sale.totalLocked()).to.equal(ecmAmount + bonus);
+      expect(await sale.referralEarnings(other.address)).to.equal(bonus);
+    });
+
+    it("Should bind the referrer on the first referred purchase", async function () {
+      const { sale, buyer1, other } = await loadFixture(referralFixture);
+
+      await expect(sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address))
+        .to.emit(sale, "ReferrerBound")
+        .withArgs(buyer1.address, other.address);
+      expect(await sale.referrerOf(buyer1.address)).to.equal(other.address);
+
+      await expect(sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address))
+        .to.not.emit(sale, "ReferrerBound");
+      expect(await sale.referralEarnings(other.address)).to.equal(bonus * 2n);
+    });
+
+    it("Should revert when naming a different referrer later", async function () {
+      const { sale, buyer1, buyer2, other } = await loadFixture(referralFixture);
+
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, buyer2.address)
+      ).to.be.revertedWith("referrer mismatch");
+    });
+
+    it("Should accumulate earnings from several buyers", async function () {
+      const { sale, buyer1, buyer2, other } = await loadFixture(referralFixture);
+
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address);
+      await sale.connect(buyer2).buyWithUSDTReferred(usdtAmount / 2n, 0, other.address);
+
+      expect(await sale.referralEarnings(other.address)).to.equal(bonus + bonus / 2n);
+      const [amounts] = await sale.getUserLocks(other.address);
+      expect(amounts.length).to.equal(2);
+    });
+
+    it("Should pay no bonus on plain purchases", async function () {
+      const { sale, buyer1, other } = await loadFixture(referralFixture);
+
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address);
+      await sale.connect(buyer1).buyWithUSDT(usdtAmount, 0);
+
+      expect(await sale.referralEarnings(other.address)).to.equal(bonus);
+    });
+
+    it("Should bind without a lock while the bonus is zero", async function () {
+      const { sale, buyer1, other } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address))
+        .to.not.emit(sale, "ReferralBonus");
+
+      expect(await sale.referrerOf(buyer1.address)).to.equal(other.address);
+      const [amounts] = await sale.getUserLocks(other.address);
+      expect(amounts.length).to.equal(0);
+    });
+
+    it("Should vest the bonus like the purchase", async function () {
+      const { sale, buyer1, other } = await loadFixture(referralFixture);
+
+      await sale.setVestingDuration(30 * 24 * 60 * 60);
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address);
+
+      const [, , , vestingDurations] = await sale.getUserLocks(other.address);
+      expect(vestingDurations[0]).to.equal(30 * 24 * 60 * 60);
+    });
+
+    it("Should let the referrer claim the bonus after the lock", async function () {
+      const { sale, ecmToken, buyer1, other } = await loadFixture(referralFixture);
+
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address);
+      await time.increase(180 * 24 * 60 * 60);
+
+      await sale.connect(other).claimAllUnlocked();
+      expect(await ecmToken.balanceOf(other.address)).to.equal(bonus);
+    });
+  });
+
+  describe("Validation", function () {
+    it("Should reject a zero referrer", async function () {
+      const { sale, buyer1 } = await loadFixture(referralFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, ethers.ZeroAddress)
+      ).to.be.revertedWith("zero referrer");
+    });
+
+    it("Should reject self-referral", async function () {
+      const { sale, buyer1 } = await loadFixture(referralFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, buyer1.address)
+      ).to.be.revertedWith("self referral");
+    });
+
+    it("Should reject a direct referral loop", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(referralFixture);
+
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, buyer2.address);
+
+      await expect(
+        sale.connect(buyer2).buyWithUSDTReferred(usdtAmount, 0, buyer1.address)
+      ).to.be.revertedWith("referral loop");
+    });
+
+    it("Should reject a longer referral loop", async function () {
+      const { sale, buyer1, buyer2, buyer3 } = await loadFixture(referralFixture);
+
+      // buyer1 <- buyer2 <- buyer3
+      await sale.connect(buyer2).buyWithUSDTReferred(usdtAmount, 0, buyer1.address);
+      await sale.connect(buyer3).buyWithUSDTReferred(usdtAmount, 0, buyer2.address);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, buyer3.address)
+      ).to.be.revertedWith("referral loop");
+    });
+
+    it("Should respect allowlist mode", async function () {
+      const { sale, buyer1, other } = await loadFixture(referralFixture);
+
+      await sale.setAllowlistRoot(ethers.keccak256("0x01"));
+      await sale.setAllowlistOnly(true);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address)
+      ).to.be.revertedWith("allowlist only");
+    });
+  });
+
+  describe("Solvency", function () {
+    it("Should draw the bonus from availableECM", async function () {
+      const { sale, buyer1, other } = await loadFixture(referralFixture);
+
+      const availableBefore = await sale.availableECM();
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address);
+
+      expect(await sale.availableECM()).to.equal(availableBefore - ecmAmount - bonus);
+    });
+
+    it("Should revert when inventory cannot cover purchase and bonus", async function () {
+      const { sale, buyer1, other } = await loadFixture(referralFixture);
+
+      // Leave exactly enough for the purchase but not the bonus
+      await sale.withdrawAvailableECM((await sale.availableECM()) - ecmAmount);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address)
+      ).to.be.revertedWith("insufficient ECM in sale");
+
+      await expect(sale.connect(buyer1).buyWithUSDT(usdtAmount, 0)).to.not.be.reverted;
+    });
+
+    it("Should keep the contract balance covering totalLocked", async function () {
+      const { sale, ecmToken, buyer1, buyer2, other } = await loadFixture(referralFixture);
+
+      await sale.connect(buyer1).buyWithUSDTReferred(usdtAmount, 0, other.address);
+      await sale.connect(buyer2).buyWithUSDTReferred(usdtAmount, 0, buyer1.address);
+      await sale.withdrawAvailableECM(await sale.availableECM());
+
+      expect(await ecmToken.balanceOf(await sale.getAddress())).to.equal(await sale.totalLocked());
+    });
+  });
+});
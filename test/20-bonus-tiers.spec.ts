@@ -0,0 +1,250 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Volume Bonus Tiers", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+  // +5% from 10k USDT, +10% from 50k USDT
+  async function tiersFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setBonusTiers([units("10000"), units("50000")], [500, 1000]);
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should default to no tiers", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      const [minUSDT, bonusBps] = await sale.getBonusTiers();
+      expect(minUSDT.length).to.equal(0);
+      expect(bonusBps.length).to.equal(0);
+      expect(await sale.getBonusBps(units("1000000"))).to.equal(0);
+    });
+
+    it("Should allow owner to set tiers and emit BonusTiersUpdated", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setBonusTiers([units("10000"), units("50000")], [500, 1000]))
+        .to.emit(sale, "BonusTiersUpdated")
+        .withArgs([units("10000"), units("50000")], [500, 1000]);
+
+      const [minUSDT, bonusBps] = await sale.getBonusTiers();
+      expect(minUSDT).to.deep.equal([units("10000"), units("50000")]);
+      expect(bonusBps).to.deep.equal([500n, 1000n]);
+    });
+
+    it("Should replace existing tiers", async function () {
+      const { sale } = await loadFixture(tiersFixture);
+
+      await sale.setBonusTiers([units("20000")], [300]);
+
+      const [minUSDT, bonusBps] = await sale.getBonusTiers();
+      expect(minUSDT).to.deep.equal([units("20000")]);
+      expect(bonusBps).to.deep.equal([300n]);
+    });
+
+    it("Should clear tiers with empty arrays", async function () {
+      const { sale } = await loadFixture(tiersFixture);
+
+      await sale.setBonusTiers([], []);
+
+      expect(await sale.getBonusBps(units("50000"))).to.equal(0);
+    });
+
+    it("Should revert on invalid tiers", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.setBonusTiers([units("10000")], [])).to.be.revertedWith("length mismatch");
+      await expect(
+        sale.setBonusTiers([units("50000"), units("10000")], [500, 1000])
+      ).to.be.revertedWith("tiers not ascending");
+      await expect(
+        sale.setBonusTiers([units("10000"), units("10000")], [500, 1000])
+      ).to.be.revertedWith("tiers not ascending");
+      await expect(sale.setBonusTiers([units("10000")], [10001])).to.be.revertedWith("bps > 10000");
+    });
+
+    it("Should revert when non-owner tries to set tiers", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setBonusTiers([], [])
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Tier Selection", function () {
+    it("Should pick the highest tier reached", async function () {
+      const { sale } = await loadFixture(tiersFixture);
+
+      expect(await sale.getBonusBps(units("9999.999999"))).to.equal(0);
+      expect(await sale.getBonusBps(units("10000"))).to.equal(500);
+      expect(await sale.getBonusBps(units("49999"))).to.equal(500);
+      expect(await sale.getBonusBps(units("50000"))).to.equal(1000);
+      expect(await sale.getBonusBps(units("1000000"))).to.equal(1000);
+    });
+  });
+
+  describe("Purchases", function () {
+    it("Should lock the bonus and emit it in Purchase", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(tiersFixture);
+
+      // 10k USDT = 20k ECM + 5%
+      const ecmAmount = ethers.parseEther("20000");
+      const bonus = ethers.parseEther("1000");
+
+      const tx = await sale.connect(buyer1).buyWithUSDT(units("10000"), 0);
+      const [amounts, releaseTimes, , , bonuses] = await sale.getUserLocks(buyer1.address);
+
+      await expect(tx)
+        .to.emit(sale, "Purchase")
+        .withArgs(buyer1.address, buyer1.address, await usdt.getAddress(), units("10000"), ecmAmount + bonus, bonus, releaseTimes[0], 0);
+      expect(amounts[0]).to.equal(ecmAmount + bonus);
+      expect(bonuses[0]).to.equal(bonus);
+      expect(await sale.totalLocked()).to.equal(ecmAmount + bonus);
+    });
+
+    it("Should apply no bonus below the first tier", async function () {
+      const { sale, buyer1 } = await loadFixture(tiersFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      const [amounts, , , , bonuses] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("2000"));
+      expect(bonuses[0]).to.equal(0);
+    });
+
+    it("Should apply the top tier to the largest purchases", async function () {
+      const { sale, buyer1, usdt } = await loadFixture(tiersFixture);
+
+      await usdt.mint(buyer1.address, units("50000"));
+      await sale.connect(buyer1).buyWithUSDT(units("50000"), 0);
+
+      const [amounts, , , , bonuses] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("110000"));
+      expect(bonuses[0]).to.equal(ethers.parseEther("10000"));
+    });
+
+    it("Should release the bonus with the rest of the lock", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(tiersFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("10000"), 0);
+      await time.increase(180 * 24 * 60 * 60);
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ethers.parseEther("21000"));
+    });
+
+    it("Should check slippage against the amount including the bonus", async function () {
+      const { sale, buyer1 } = await loadFixture(tiersFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("10000"), ethers.parseEther("21000"))
+      ).to.not.be.reverted;
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("10000"), ethers.parseEther("21000") + 1n)
+      ).to.be.revertedWith("slippage");
+    });
+
+    it("Should revert when inventory cannot cover the bonus", async function () {
+      const { sale, buyer1 } = await loadFixture(tiersFixture);
+
+      await sale.withdrawAvailableECM((await sale.availableECM()) - ethers.parseEther("20000"));
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("10000"), 0)
+      ).to.be.revertedWith("insufficient ECM in sale");
+    });
+
+    it("Should pay referral bonuses on the ECM bought only", async function () {
+      const { sale, buyer1, other } = await loadFixture(tiersFixture);
+
+      await sale.setReferralBonusBps(500);
+      await sale.connect(buyer1).buyWithUSDTReferred(units("10000"), 0, other.address);
+
+      expect(await sale.referralEarnings(other.address)).to.equal(ethers.parseEther("1000"));
+      const [, , , , bonuses] = await sale.getUserLocks(other.address);
+      expect(bonuses[0]).to.equal(0);
+    });
+  });
+
+  describe("Estimation", function () {
+    it("Should include the bonus in the estimate", async function () {
+      const { sale, buyer1 } = await loadFixture(tiersFixture);
+
+      const estimate = await sale.getEstimatedECMForUSDT(units("10000"));
+      expect(estimate).to.equal(ethers.parseEther("21000"));
+
+      await sale.connect(buyer1).buyWithUSDT(units("10000"), estimate);
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(estimate);
+    });
+
+    it("Should include the bonus in round estimates", async function () {
+      const { sale, buyer1 } = await loadFixture(tiersFixture);
+
+      // Fixed $0.25 per ECM
+      const start = BigInt(await time.latest()) + 10n;
+      await sale.createRound(start, start + 1000n, ethers.parseEther("1000000"), units("0.25"), 0, 0);
+      await time.increaseTo(start);
+
+      const estimate = await sale.getEstimatedECMForUSDT(units("10000"));
+      expect(estimate).to.equal(ethers.parseEther("42000"));
+
+      await sale.connect(buyer1).buyWithUSDT(units("10000"), estimate);
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(estimate);
+
+      // Round cap counts the ECM bought, not the bonus
+      expect((await sale.getRound(0)).ecmSold).to.equal(ethers.parseEther("40000"));
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { buildAllowlist } from "../tasks/allowlist-tree";
+
+describe("ECMSale - Buy For Beneficiary", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, custodian, customer1, customer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    // Omnibus wallet funds all purchases, customers hold no USDT
+    await usdt.mint(custodian.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(custodian).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, custodian, customer1, customer2, other };
+  }
+
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+  const ecmAmount = ethers.parseEther("2000");
+
+  describe("buyFor", function () {
+    it("Should pull the payer's USDT and lock for the beneficiary", async function () {
+      const { sale, usdt, custodian, customer1 } = await loadFixture(deployFixture);
+
+      const custodianBefore = await usdt.balanceOf(custodian.address);
+      const tx = await sale.connect(custodian).buyFor(customer1.address, usdtAmount, ecmAmount);
+      const [amounts, releaseTimes] = await sale.getUserLocks(customer1.address);
+
+      await expect(tx)
+        .to.emit(sale, "Purchase")
+        .withArgs(customer1.address, custodian.address, await usdt.getAddress(), usdtAmount, ecmAmount, 0, releaseTimes[0], 0);
+
+      expect(amounts[0]).to.equal(ecmAmount);
+      expect(await usdt.balanceOf(custodian.address)).to.equal(custodianBefore - usdtAmount);
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(usdtAmount);
+
+      const [custodianLocks] = await sale.getUserLocks(custodian.address);
+      expect(custodianLocks.length).to.equal(0);
+    });
+
+    it("Should append to the beneficiary's existing locks", async function () {
+      const { sale, usdt, custodian, customer1, customer2 } = await loadFixture(deployFixture);
+
+      await sale.connect(custodian).buyFor(customer1.address, usdtAmount, 0);
+      await sale.connect(custodian).buyFor(customer2.address, usdtAmount, 0);
+      await expect(sale.connect(custodian).buyFor(customer1.address, usdtAmount, 0))
+        .to.emit(sale, "Purchase")
+        .withArgs(customer1.address, custodian.address, await usdt.getAddress(), usdtAmount, ecmAmount, 0, anyValue, 1);
+
+      const [amounts1] = await sale.getUserLocks(customer1.address);
+      const [amounts2] = await sale.getUserLocks(customer2.address);
+      expect(amounts1.length).to.equal(2);
+      expect(amounts2.length).to.equal(1);
+    });
+
+    it("Should let the beneficiary claim", async function () {
+      const { sale, ecmToken, custodian, customer1 } = await loadFixture(deployFixture);
+
+      await sale.connect(custodian).buyFor(customer1.address, usdtAmount, 0);
+      await time.increase(180 * 24 * 60 * 60);
+
+      await expect(sale.connect(custodian).claimAllUnlocked()).to.be.revertedWith("no locks");
+      await sale.connect(customer1).claimAllUnlocked();
+      expect(await ecmToken.balanceOf(customer1.address)).to.equal(ecmAmount);
+    });
+
+    it("Should revert with a zero beneficiary", async function () {
+      const { sale, custodian } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(custodian).buyFor(ethers.ZeroAddress, usdtAmount, 0)
+      ).to.be.revertedWith("zero beneficiary");
+    });
+
+    it("Should revert when the payer has no USDT", async function () {
+      const { sale, customer1, customer2 } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(customer1).buyFor(customer2.address, usdtAmount, 0)
+      ).to.be.reverted;
+    });
+
+    it("Should respect pause", async function () {
+      const { sale, custodian, customer1 } = await loadFixture(deployFixture);
+
+      await sale.pause();
+      await expect(
+        sale.connect(custodian).buyFor(customer1.address, usdtAmount, 0)
+      ).to.be.revertedWithCustomError(sale, "EnforcedPause");
+    });
+  });
+
+  describe("Caps", function () {
+    it("Should apply the wallet cap to the beneficiary", async function () {
+      const { sale, custodian, customer1, customer2 } = await loadFixture(deployFixture);
+
+      await sale.setPurchaseCaps(0, 0, usdtAmount, 0);
+
+      await sale.connect(custodian).buyFor(customer1.address, usdtAmount, 0);
+      await expect(
+        sale.connect(custodian).buyFor(customer1.address, 1, 0)
+      ).to.be.revertedWith("wallet cap exceeded");
+
+      // The custodian's own allowance is untouched
+      await sale.connect(custodian).buyFor(customer2.address, usdtAmount, 0);
+      expect(await sale.usdtContributed(custodian.address)).to.equal(0);
+      expect(await sale.usdtContributed(customer1.address)).to.equal(usdtAmount);
+      expect(await sale.getRemainingAllowance(custodian.address)).to.equal(usdtAmount);
+    });
+
+    it("Should count toward the hard cap", async function () {
+      const { sale, custodian, customer1, customer2 } = await loadFixture(deployFixture);
+
+      await sale.setPurchaseCaps(0, 0, 0, usdtAmount);
+
+      await sale.connect(custodian).buyFor(customer1.address, usdtAmount, 0);
+      await expect(
+        sale.connect(custodian).buyFor(customer2.address, 1, 0)
+      ).to.be.revertedWith("hard cap exceeded");
+    });
+  });
+
+  describe("Allowlist", function () {
+    // customer1 capped at 1,500 USDT; the custodian is not listed
+    async function allowlistFixture() {
+      const fixture = await deployFixture();
+      const allowlist = buildAllowlist([
+        { address: fixture.customer1.address, cap: ethers.parseUnits("1500", 6) },
+        { address: fixture.customer2.address, cap: 0n },
+      ]);
+      await fixture.sale.setAllowlistRoot(allowlist.root);
+      await fixture.sale.setAllowlistOnly(true);
+      return { ...fixture, allowlist };
+    }
+
+    it("Should block buyFor in allowlist mode", async function () {
+      const { sale, custodian, customer1 } = await loadFixture(allowlistFixture);
+
+      await expect(
+        sale.connect(custodian).buyFor(customer1.address, usdtAmount, 0)
+      ).to.be.revertedWith("allowlist only");
+    });
+
+    it("Should accept the beneficiary's proof", async function () {
+      const { sale, usdt, custodian, customer1, allowlist } = await loadFixture(allowlistFixture);
+
+      const { cap, proof } = allowlist.proofs[customer1.address];
+      await expect(
+        sale.connect(custodian).buyForAllowlisted(customer1.address, usdtAmount, 0, cap, proof)
+      )
+        .to.emit(sale, "Purchase")
+        .withArgs(customer1.address, custodian.address, await usdt.getAddress(), usdtAmount, ecmAmount, 0, anyValue, 0);
+    });
+
+    it("Should reject a proof for another address", async function () {
+      const { sale, custodian, customer1, customer2, allowlist } = await loadFixture(allowlistFixture);
+
+      const { cap, proof } = allowlist.proofs[customer1.address];
+      await expect(
+        sale.connect(custodian).buyForAllowlisted(customer2.address, usdtAmount, 0, cap, proof)
+      ).to.be.revertedWith("not allowlisted");
+    });
+
+    it("Should apply the beneficiary's allowlist cap", async function () {
+      const { sale, custodian, customer1, allowlist } = await loadFixture(allowlistFixture);
+
+      const { cap, proof } = allowlist.proofs[customer1.address];
+      await sale.connect(custodian).buyForAllowlisted(customer1.address, usdtAmount, 0, cap, proof);
+
+      await expect(
+        sale.connect(custodian).buyForAllowlisted(customer1.address, usdtAmount, 0, cap, proof)
+      ).to.be.revertedWith("allowlist cap exceeded");
+    });
+
+    it("Should count the beneficiary's own purchases against its cap", async function () {
+      const { sale, usdt, custodian, customer1, allowlist } = await loadFixture(allowlistFixture);
+
+      const { cap, proof } = allowlist.proofs[customer1.address];
+      await usdt.mint(customer1.address, usdtAmount);
+      await usdt.connect(customer1).approve(await sale.getAddress(), usdtAmount);
+      await sale.connect(customer1).buyWithUSDTAllowlisted(usdtAmount, 0, cap, proof);
+
+      await expect(
+        sale.connect(custodian).buyForAllowlisted(customer1.address, usdtAmount, 0, cap, proof)
+      ).to.be.revertedWith("allowlist cap exceeded");
+    });
+
+    it("Should revert with a zero beneficiary", async function () {
+      const { sale, custodian } = await loadFixture(allowlistFixture);
+
+      await expect(
+        sale.connect(custodian).buyForAllowlisted(ethers.ZeroAddress, usdtAmount, 0, 0, [])
+      ).to.be.revertedWith("zero beneficiary");
+    });
+  });
+});
@@ -0,0 +1,416 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockERC20Permit, MockPermit2 } from "../typechain-types";
+
+describe("ECMSale - Permit Purchases", function () {
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const PermitTokenFactory = await ethers.getContractFactory("MockERC20Permit");
+    const usdc = await PermitTokenFactory.deploy();
+
+    const Permit2Factory = await ethers.getContractFactory("MockPermit2");
+    const permit2 = await Permit2Factory.deploy();
+
+    // 1 USDT = 2 ECM
+    const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+    const oracle = await FixedOracleFactory.deploy(ethers.parseEther("2"), ethers.parseUnits("1", 6));
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+    await sale.setPermit2(await permit2.getAddress());
+    // USDC (EIP-2612) accepted at par with USDT
+    await sale.setPaymentToken(await usdc.getAddress(), ethers.ZeroAddress);
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    for (const buyer of [buyer1, buyer2]) {
+      await usdt.mint(buyer.address, ethers.parseUnits("100000", 6));
+      await usdc.mint(buyer.address, ethers.parseUnits("100000", 6));
+    }
+
+    return { ecmToken, usdt, usdc, permit2, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  // Buyers approve Permit2 once, as they would in a wallet
+  async function permit2ApprovedFixture() {
+    const fixture = await deployFixture();
+    await fixture.usdt.setStrictApproval(true);
+    for (const buyer of [fixture.buyer1, fixture.buyer2]) {
+      await fixture.usdt.connect(buyer).approve(await fixture.permit2.getAddress(), ethers.MaxUint256);
+    }
+    return fixture;
+  }
+
+  const usdtAmount = ethers.parseUnits("1000", 6);
+  const ecmAmount = ethers.parseEther("2000");
+
+  async function signPermit(
+    token: MockERC20Permit,
+    owner: HardhatEthersSigner,
+    spender: string,
+    value: bigint,
+    deadline: bigint
+  ) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const ownerAddress = await owner.getAddress();
+    const signature = await owner.signTypedData(
+      { name: await token.name(), version: "1", chainId, verifyingContract: await token.getAddress() },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { owner: ownerAddress, spender, value, nonce: await token.nonces(ownerAddress), deadline }
+    );
+    return ethers.Signature.from(signature);
+  }
+
+  async function signPermit2(
+    permit2: MockPermit2,
+    owner: HardhatEthersSigner,
+    token: string,
+    amount: bigint,
+    spender: string,
+    nonce: bigint,
+    deadline: bigint
+  ) {
+    const { chainId } = await ethers.provider.getNetwork();
+    return owner.signTypedData(
+      { name: "Permit2", chainId, verifyingContract: await permit2.getAddress() },
+      {
+        PermitTransferFrom: [
+          { name: "permitted", type: "TokenPermissions" },
+          { name: "spender", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+        TokenPermissions: [
+          { name: "token", type: "address" },
+          { name: "amount", type: "uint256" },
+        ],
+      },
+      { permitted: { token, amount }, spender, nonce, deadline }
+    );
+  }
+
+  async function deadlineIn(seconds: number) {
+    return BigInt(await time.latest()) + BigInt(seconds);
+  }
+
+  describe("buyWithPermit (EIP-2612)", function () {
+    it("Should buy in one transaction without a prior approval", async function () {
+      const { usdc, sale, buyer1 } = await loadFixture(deployFixture);
+
+      const deadline = await deadlineIn(3600);
+      const { v, r, s } = await signPermit(usdc, buyer1, await sale.getAddress(), usdtAmount, deadline);
+
+      await expect(sale.connect(buyer1).buyWithPermit(await usdc.getAddress(), usdtAmount, ecmAmount, deadline, v, r, s))
+        .to.emit(sale, "Purchase");
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ecmAmount);
+      expect(await usdc.balanceOf(await sale.getAddress())).to.equal(usdtAmount);
+      expect(await usdc.allowance(buyer1.address, await sale.getAddress())).to.equal(0);
+    });
+
+    it("Should revert with an expired permit", async function () {
+      const { usdc, sale, buyer1 } = await loadFixture(deployFixture);
+
+      const deadline = await deadlineIn(60);
+      const { v, r, s } = await signPermit(usdc, buyer1, await sale.getAddress(), usdtAmount, deadline);
+      await time.increaseTo(deadline + 1n);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit(await usdc.getAddress(), usdtAmount, 0, deadline, v, r, s)
+      ).to.be.revertedWith("permit failed");
+    });
+
+    it("Should revert when a permit is replayed", async function () {
+      const { usdc, sale, buyer1 } = await loadFixture(deployFixture);
+
+      const deadline = await deadlineIn(3600);
+      const { v, r, s } = await signPermit(usdc, buyer1, await sale.getAddress(), usdtAmount, deadline);
+      await sale.connect(buyer1).buyWithPermit(await usdc.getAddress(), usdtAmount, 0, deadline, v, r, s);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit(await usdc.getAddress(), usdtAmount, 0, deadline, v, r, s)
+      ).to.be.revertedWith("permit failed");
+    });
+
+    it("Should revert when the permit was signed by someone else", async function () {
+      const { usdc, sale, buyer1, buyer2 } = await loadFixture(deployFixture);
+
+      const deadline = await deadlineIn(3600);
+      const { v, r, s } = await signPermit(usdc, buyer2, await sale.getAddress(), usdtAmount, deadline);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit(await usdc.getAddress(), usdtAmount, 0, deadline, v, r, s)
+      ).to.be.revertedWith("permit failed");
+    });
+
+    it("Should still buy when the permit was front-run", async function () {
+      const { usdc, sale, buyer1, other } = await loadFixture(deployFixture);
+
+      const deadline = await deadlineIn(3600);
+      const saleAddress = await sale.getAddress();
+      const { v, r, s } = await signPermit(usdc, buyer1, saleAddress, usdtAmount, deadline);
+
+      // Someone submits the permit from the mempool first
+      await usdc.connect(other).permit(buyer1.address, saleAddress, usdtAmount, deadline, v, r, s);
+
+      await expect(sale.connect(buyer1).buyWithPermit(await usdc.getAddress(), usdtAmount, 0, deadline, v, r, s))
+        .to.emit(sale, "Purchase");
+    });
+
+    it("Should fall back to an allowance for tokens without permit", async function () {
+      const { usdt, sale, buyer1 } = await loadFixture(deployFixture);
+      const token = await usdt.getAddress();
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit(token, usdtAmount, 0, 0, 0, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWith("permit failed");
+
+      await usdt.connect(buyer1).approve(await sale.getAddress(), usdtAmount);
+      await expect(
+        sale.connect(buyer1).buyWithPermit(token, usdtAmount, 0, 0, 0, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.emit(sale, "Purchase");
+    });
+
+    it("Should revert for tokens the sale does not accept", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      const PermitTokenFactory = await ethers.getContractFactory("MockERC20Permit");
+      const other = await PermitTokenFactory.deploy();
+      const deadline = await deadlineIn(3600);
+      const { v, r, s } = await signPermit(other, buyer1, await sale.getAddress(), usdtAmount, deadline);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit(await other.getAddress(), usdtAmount, 0, deadline, v, r, s)
+      ).to.be.revertedWith("token not accepted");
+      expect(await other.allowance(buyer1.address, await sale.getAddress())).to.equal(0);
+    });
+
+    it("Should respect allowlist mode", async function () {
+      const { usdc, sale, buyer1 } = await loadFixture(deployFixture);
+
+      await sale.setAllowlistRoot(ethers.keccak256("0x01"));
+      await sale.setAllowlistOnly(true);
+
+      const deadline = await deadlineIn(3600);
+      const { v, r, s } = await signPermit(usdc, buyer1, await sale.getAddress(), usdtAmount, deadline);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit(await usdc.getAddress(), usdtAmount, 0, deadline, v, r, s)
+      ).to.be.revertedWith("allowlist only");
+    });
+  });
+
+  describe("buyWithPermit2", function () {
+    it("Should allow owner to set Permit2 and emit Permit2Updated", async function () {
+      const { sale, owner, permit2 } = await loadFixture(deployFixture);
+
+      expect(await sale.permit2()).to.equal(await permit2.getAddress());
+
+      await expect(sale.connect(owner).setPermit2(ethers.ZeroAddress))
+        .to.emit(sale, "Permit2Updated")
+        .withArgs(ethers.ZeroAddress);
+    });
+
+    it("Should revert when non-owner tries to set Permit2", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setPermit2(other.address)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should buy USDT with a signature instead of a sale approval", async function () {
+      const { usdt, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      const saleAddress = await sale.getAddress();
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, saleAddress, 0n, deadline
+      );
+
+      await expect(sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, ecmAmount, 0, deadline, signature))
+        .to.emit(sale, "Purchase");
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ecmAmount);
+      expect(await usdt.balanceOf(saleAddress)).to.equal(usdtAmount);
+      expect(await usdt.allowance(buyer1.address, saleAddress)).to.equal(0);
+    });
+
+    it("Should buy an accepted payment token with a signature", async function () {
+      const { usdc, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+      await usdc.connect(buyer1).approve(await permit2.getAddress(), ethers.MaxUint256);
+
+      const saleAddress = await sale.getAddress();
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdc.getAddress(), usdtAmount, saleAddress, 0n, deadline
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdc.getAddress(), usdtAmount, ecmAmount, 0, deadline, signature)
+      ).to.emit(sale, "Purchase");
+      expect(await usdc.balanceOf(saleAddress)).to.equal(usdtAmount);
+      expect(await sale.tokenRaised(await usdc.getAddress())).to.equal(usdtAmount);
+    });
+
+    it("Should revert when the signed token differs from the paid one", async function () {
+      const { usdt, usdc, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, await sale.getAddress(), 0n, deadline
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdc.getAddress(), usdtAmount, 0, 0, deadline, signature)
+      ).to.be.revertedWithCustomError(permit2, "InvalidSigner");
+    });
+
+    it("Should accept several purchases with different nonces", async function () {
+      const { usdt, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      const deadline = await deadlineIn(3600);
+      for (const nonce of [7n, 3n]) {
+        const signature = await signPermit2(
+          permit2, buyer1, await usdt.getAddress(), usdtAmount, await sale.getAddress(), nonce, deadline
+        );
+        await sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, nonce, deadline, signature);
+      }
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts.length).to.equal(2);
+    });
+
+    it("Should revert with an expired signature", async function () {
+      const { usdt, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      const deadline = await deadlineIn(60);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, await sale.getAddress(), 0n, deadline
+      );
+      await time.increaseTo(deadline + 1n);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, deadline, signature)
+      ).to.be.revertedWithCustomError(permit2, "SignatureExpired");
+    });
+
+    it("Should revert when a signature is replayed", async function () {
+      const { usdt, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, await sale.getAddress(), 0n, deadline
+      );
+      await sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, deadline, signature);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, deadline, signature)
+      ).to.be.revertedWithCustomError(permit2, "InvalidNonce");
+    });
+
+    it("Should revert when the amount differs from the signed one", async function () {
+      const { usdt, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, await sale.getAddress(), 0n, deadline
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount * 2n, 0, 0, deadline, signature)
+      ).to.be.revertedWithCustomError(permit2, "InvalidSigner");
+    });
+
+    it("Should revert when another buyer submits the signature", async function () {
+      const { usdt, permit2, sale, buyer1, buyer2 } = await loadFixture(permit2ApprovedFixture);
+
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, await sale.getAddress(), 0n, deadline
+      );
+
+      await expect(
+        sale.connect(buyer2).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, deadline, signature)
+      ).to.be.revertedWithCustomError(permit2, "InvalidSigner");
+    });
+
+    it("Should revert when the signature names another spender", async function () {
+      const { usdt, permit2, sale, buyer1, other } = await loadFixture(permit2ApprovedFixture);
+
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, other.address, 0n, deadline
+      );
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, deadline, signature)
+      ).to.be.revertedWithCustomError(permit2, "InvalidSigner");
+    });
+
+    it("Should revert when Permit2 is disabled", async function () {
+      const { usdt, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      await sale.setPermit2(ethers.ZeroAddress);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, 0, "0x")
+      ).to.be.revertedWith("permit2 disabled");
+    });
+
+    it("Should respect allowlist mode", async function () {
+      const { usdt, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      await sale.setAllowlistRoot(ethers.keccak256("0x01"));
+      await sale.setAllowlistOnly(true);
+
+      await expect(
+        sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, 0, "0x")
+      ).to.be.revertedWith("allowlist only");
+    });
+
+    it("Should not move USDT when the price guard pauses the sale", async function () {
+      const { usdt, permit2, sale, buyer1 } = await loadFixture(permit2ApprovedFixture);
+
+      // Reference quotes 4 ECM per USDT, the sale oracle 2: 50% deviation
+      const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+      const reference = await FixedOracleFactory.deploy(ethers.parseEther("4"), ethers.parseUnits("1", 6));
+      await sale.setReferenceOracle(await reference.getAddress());
+      await sale.setPriceDeviationGuard(100, true);
+
+      const deadline = await deadlineIn(3600);
+      const signature = await signPermit2(
+        permit2, buyer1, await usdt.getAddress(), usdtAmount, await sale.getAddress(), 0n, deadline
+      );
+
+      await expect(sale.connect(buyer1).buyWithPermit2(await usdt.getAddress(), usdtAmount, 0, 0, deadline, signature))
+        .to.emit(sale, "PriceDeviationBreached");
+
+      expect(await sale.paused()).to.be.true;
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+      expect(await permit2.nonceUsed(buyer1.address, 0)).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+describe("ECMSale - Payment Tokens", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    // DAI (18 decimals) priced at par with USDT through the sale oracle
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const dai = await MockERC20Factory.deploy("Dai Stablecoin", "DAI", 18, 0);
+
+    // USDC (6 decimals) priced by its own ECM/USDC pair: 1 USDC = 1.9 ECM
+    const MockUSDCFactory = await ethers.getContractFactory("MockERC20Permit");
+    const usdc = await MockUSDCFactory.deploy();
+    const usdcPair = await MockPairFactory.deploy(
+      await usdc.getAddress(),
+      await ecmToken.getAddress()
+    );
+    await usdcPair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("1900000")
+    );
+    const usdcOracle = await OracleFactory.deploy(
+      await usdcPair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdc.getAddress()
+    );
+
+    for (const buyer of [buyer1, buyer2]) {
+      await dai.mint(buyer.address, ethers.parseEther("100000"));
+      await usdc.mint(buyer.address, ethers.parseUnits("100000", 6));
+      await dai.connect(buyer).approve(await sale.getAddress(), ethers.MaxUint256);
+      await usdc.connect(buyer).approve(await sale.getAddress(), ethers.MaxUint256);
+    }
+
+
+    return { ecmToken, usdt, dai, usdc, pair, oracle, usdcOracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+  async function acceptedFixture() {
+    const fixture = await deployFixture();
+    const { sale, dai, usdc, usdcOracle } = fixture;
+    await sale.setPaymentToken(await dai.getAddress(), ethers.ZeroAddress);
+    await sale.setPaymentToken(await usdc.getAddress(), await usdcOracle.getAddress());
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should only accept USDT by default", async function () {
+      const { sale, dai, buyer1 } = await loadFixture(deployFixture);
+
+      expect(await sale.getPaymentTokens()).to.deep.equal([]);
+      await expect(
+        sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("100"), 0)
+      ).to.be.revertedWith("token not accepted");
+    });
+
+    it("Should allow owner to add payment tokens and emit PaymentTokenUpdated", async function () {
+      const { sale, dai, usdc, usdcOracle } = await loadFixture(deployFixture);
+
+      await expect(sale.setPaymentToken(await dai.getAddress(), ethers.ZeroAddress))
+        .to.emit(sale, "PaymentTokenUpdated")
+        .withArgs(await dai.getAddress(), ethers.ZeroAddress, 18);
+      await sale.setPaymentToken(await usdc.getAddress(), await usdcOracle.getAddress());
+
+      expect(await sale.getPaymentTokens()).to.deep.equal([
+        await dai.getAddress(),
+        await usdc.getAddress(),
+      ]);
+      expect(await sale.getPaymentToken(await usdc.getAddress())).to.deep.equal([
+        true,
+        await usdcOracle.getAddress(),
+        6n,
+      ]);
+    });
+
+    it("Should update the oracle of an accepted token without duplicating it", async function () {
+      const { sale, dai, usdcOracle } = await loadFixture(acceptedFixture);
+
+      await sale.setPaymentToken(await dai.getAddress(), await usdcOracle.getAddress());
+
+      expect((await sale.getPaymentTokens()).length).to.equal(2);
+      const [, tokenOracle] = await sale.getPaymentToken(await dai.getAddress());
+      expect(tokenOracle).to.equal(await usdcOracle.getAddress());
+    });
+
+    it("Should reject USDT, ECM and the zero address", async function () {
+      const { sale, usdt, ecmToken } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.setPaymentToken(ethers.ZeroAddress, ethers.ZeroAddress)
+      ).to.be.revertedWith("zero addr");
+      await expect(
+        sale.setPaymentToken(await usdt.getAddress(), ethers.ZeroAddress)
+      ).to.be.revertedWith("invalid token");
+      await expect(
+        sale.setPaymentToken(await ecmToken.getAddress(), ethers.ZeroAddress)
+      ).to.be.revertedWith("invalid token");
+    });
+
+    it("Should remove a payment token and emit PaymentTokenRemoved", async function () {
+      const { sale, dai, usdc, buyer1 } = await loadFixture(acceptedFixture);
+
+      await expect(sale.removePaymentToken(await dai.getAddress()))
+        .to.emit(sale, "PaymentTokenRemoved")
+        .withArgs(await dai.getAddress());
+
+      expect(await sale.getPaymentTokens()).to.deep.equal([await usdc.getAddress()]);
+      await expect(
+        sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("100"), 0)
+      ).to.be.revertedWith("token not accepted");
+      await expect(
+        sale.removePaymentToken(await dai.getAddress())
+      ).to.be.revertedWith("token not accepted");
+    });
+
+    it("Should revert when non-owner manages payment tokens", async function () {
+      const { sale, dai, other } = await loadFixture(acceptedFixture);
+
+      await expect(
+        sale.connect(other).setPaymentToken(await dai.getAddress(), ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+      await expect(
+        sale.connect(other).removePaymentToken(await dai.getAddress())
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Pricing", function () {
+    it("Should normalize decimals to USDT units", async function () {
+      const { sale, usdt, dai, usdc } = await loadFixture(acceptedFixture);
+
+      expect(await sale.getUSDTValue(await usdt.getAddress(), units("100"))).to.equal(units("100"));
+      expect(await sale.getUSDTValue(await dai.getAddress(), ethers.parseEther("100"))).to.equal(units("100"));
+      expect(await sale.getUSDTValue(await usdc.getAddress(), units("100"))).to.equal(units("100"));
+    });
+
+    it("Should price a token without oracle at par through the sale oracle", async function () {
+      const { sale, oracle, dai, buyer1 } = await loadFixture(acceptedFixture);
+
+      const expected = await oracle.getECMForUSDT(units("1000"));
+      expect(
+        await sale.getEstimatedECMForToken(await dai.getAddress(), ethers.parseEther("1000"))
+      ).to.equal(expected);
+
+      await sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("1000"), expected);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(expected);
+    });
+
+    it("Should price a token with its own oracle", async function () {
+      const { sale, oracle, usdc, usdcOracle, buyer1 } = await loadFixture(acceptedFixture);
+
+      const expected = await usdcOracle.getECMForUSDT(units("1000"));
+      expect(expected).to.not.equal(await oracle.getECMForUSDT(units("1000")));
+      expect(
+        await sale.getEstimatedECMForToken(await usdc.getAddress(), units("1000"))
+      ).to.equal(expected);
+
+      await sale.connect(buyer1).buyWithToken(await usdc.getAddress(), units("1000"), expected);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(expected);
+    });
+
+    it("Should run the price deviation guard on token oracle quotes", async function () {
+      const { sale, oracle, usdc, buyer1 } = await loadFixture(acceptedFixture);
+      // the USDC pair quotes 1.9 ECM against the reference's 2 ECM per dollar: 5% off
+      await sale.setReferenceOracle(await oracle.getAddress());
+      await sale.setPriceDeviationGuard(400, false);
+
+      await expect(
+        sale.connect(buyer1).buyWithToken(await usdc.getAddress(), units("1000"), 0)
+      ).to.be.revertedWith("price deviation");
+
+      await sale.setPriceDeviationGuard(600, false);
+      await sale.connect(buyer1).buyWithToken(await usdc.getAddress(), units("1000"), 0);
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts.length).to.equal(1);
+    });
+
+    it("Should pause on a manipulated token oracle", async function () {
+      const { sale, oracle, usdc, usdcOracle, buyer1 } = await loadFixture(acceptedFixture);
+      await sale.setReferenceOracle(await oracle.getAddress());
+      await sale.setPriceDeviationGuard(1000, true);
+
+      // USDC pair pushed to 4 ECM per USDC within a block
+      const usdcPair = await ethers.getContractAt("MockUniswapV2Pair", await usdcOracle.pair());
+      await usdcPair.setReserves(units("1000000"), ethers.parseEther("4000000"));
+
+      await expect(sale.connect(buyer1).buyWithToken(await usdc.getAddress(), units("1000"), 0))
+        .to.emit(sale, "PriceDeviationBreached")
+        .withArgs(await usdcOracle.getECMForUSDT(units("1000")), await oracle.getECMForUSDT(units("1000")));
+      expect(await sale.paused()).to.equal(true);
+      expect(await usdc.balanceOf(await sale.getAddress())).to.equal(0);
+    });
+
+    it("Should apply fixed round prices to the USDT value", async function () {
+      const { sale, dai, buyer1 } = await loadFixture(acceptedFixture);
+      const now = await time.latest();
+      // $0.50 per ECM
+      await sale.createRound(now, now + 30 * DAY, ethers.parseEther("1000000"), units("0.5"), 0, 90 * DAY);
+
+      await sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("1000"), 0);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("2000"));
+      expect((await sale.getRound(0)).usdtRaised).to.equal(units("1000"));
+    });
+
+    it("Should apply bonus tiers to the USDT value", async function () {
+      const { sale, usdc, usdcOracle, buyer1 } = await loadFixture(acceptedFixture);
+      await sale.setBonusTiers([units("1000")], [500]);
+
+      const ecmAmount = await usdcOracle.getECMForUSDT(units("1000"));
+      await sale.connect(buyer1).buyWithToken(await usdc.getAddress(), units("1000"), 0);
+
+      const [amounts, , , , bonuses] = await sale.getUserLocks(buyer1.address);
+      expect(bonuses[0]).to.equal(ecmAmount / 20n);
+      expect(amounts[0]).to.equal(ecmAmount + ecmAmount / 20n);
+    });
+  });
+
+  describe("Purchases", function () {
+    it("Should record the payment token in the Purchase event", async function () {
+      const { sale, dai, oracle, buyer1 } = await loadFixture(acceptedFixture);
+
+      const expected = await oracle.getECMForUSDT(units("500"));
+      await expect(
+        sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("500"), 0)
+      )
+        .to.emit(sale, "Purchase")
+        .withArgs(buyer1.address, buyer1.address, await dai.getAddress(), ethers.parseEther("500"), expected, 0, anyValue, 0);
+    });
+
+    it("Should accept USDT through buyWithToken", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(acceptedFixture);
+
+      await sale.connect(buyer1).buyWithToken(await usdt.getAddress(), units("100"), 0);
+
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("100"));
+      expect(await sale.tokenRaised(await usdt.getAddress())).to.equal(units("100"));
+    });
+
+    it("Should track proceeds per token and USDT value in total", async function () {
+      const { sale, usdt, dai, usdc, buyer1, buyer2 } = await loadFixture(acceptedFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("100"), 0);
+      await sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("200"), 0);
+      await sale.connect(buyer2).buyWithToken(await usdc.getAddress(), units("300"), 0);
+
+      expect(await sale.tokenRaised(await usdt.getAddress())).to.equal(units("100"));
+      expect(await sale.tokenRaised(await dai.getAddress())).to.equal(ethers.parseEther("200"));
+      expect(await sale.tokenRaised(await usdc.getAddress())).to.equal(units("300"));
+      expect(await sale.usdtContributed(buyer1.address)).to.equal(units("300"));
+      expect(await sale.totalUSDTRaised()).to.equal(units("600"));
+      expect(await dai.balanceOf(await sale.getAddress())).to.equal(ethers.parseEther("200"));
+    });
+
+    it("Should enforce caps across payment tokens", async function () {
+      const { sale, dai, usdc, buyer1 } = await loadFixture(acceptedFixture);
+      await sale.setPurchaseCaps(units("100"), 0, units("1000"), 0);
+
+      await expect(
+        sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("99"), 0)
+      ).to.be.revertedWith("below min purchase");
+
+      await sale.connect(buyer1).buyWithUSDT(units("600"), 0);
+      await sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("300"), 0);
+      await expect(
+        sale.connect(buyer1).buyWithToken(await usdc.getAddress(), units("101"), 0)
+      ).to.be.revertedWith("wallet cap exceeded");
+    });
+
+    it("Should revert on amounts worth less than one USDT unit", async function () {
+      const { sale, dai, buyer1 } = await loadFixture(acceptedFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithToken(await dai.getAddress(), 10n ** 11n, 0)
+      ).to.be.revertedWith("zero USDT");
+    });
+
+    it("Should respect the allowlist-only phase", async function () {
+      const { sale, dai, buyer1 } = await loadFixture(acceptedFixture);
+      await sale.setAllowlistRoot(ethers.keccak256("0x01"));
+      await sale.setAllowlistOnly(true);
+
+      await expect(
+        sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("100"), 0)
+      ).to.be.revertedWith("allowlist only");
+    });
+  });
+
+  describe("Withdrawals", function () {
+    it("Should withdraw proceeds per token and emit WithdrawProceeds", async function () {
+      const { sale, dai, owner, buyer1 } = await loadFixture(acceptedFixture);
+      await sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("500"), 0);
+
+      const before = await dai.balanceOf(owner.address);
+      await expect(sale.withdrawProceeds(await dai.getAddress(), ethers.parseEther("500")))
+        .to.emit(sale, "WithdrawProceeds")
+        .withArgs(owner.address, await dai.getAddress(), ethers.parseEther("500"));
+      expect(await dai.balanceOf(owner.address)).to.equal(before + ethers.parseEther("500"));
+    });
+
+    it("Should keep proceeds of a removed token withdrawable", async function () {
+      const { sale, usdc, buyer1 } = await loadFixture(acceptedFixture);
+      await sale.connect(buyer1).buyWithToken(await usdc.getAddress(), units("500"), 0);
+      await sale.removePaymentToken(await usdc.getAddress());
+
+      await expect(sale.withdrawProceeds(await usdc.getAddress(), units("500"))).to.not.be.reverted;
+    });
+
+    it("Should revert above the token balance", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(acceptedFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("100"), 0);
+
+      await expect(
+        sale.withdrawProceeds(await usdt.getAddress(), units("101"))
+      ).to.be.revertedWith("amount > balance");
+    });
+
+    it("Should not withdraw ECM", async function () {
+      const { sale, ecmToken } = await loadFixture(acceptedFixture);
+
+      await expect(
+        sale.withdrawProceeds(await ecmToken.getAddress(), 1)
+      ).to.be.revertedWith("use ECM withdrawal");
+    });
+
+    it("Should revert when non-owner withdraws proceeds", async function () {
+      const { sale, dai, other } = await loadFixture(acceptedFixture);
+
+      await expect(
+        sale.connect(other).withdrawProceeds(await dai.getAddress(), 0)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+});
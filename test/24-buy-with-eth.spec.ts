@@ -0,0 +1,220 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { MockUniswapV2Router } from "../typechain-types";
+
+describe("ECMSale - Buy With ETH", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    // 1000 ETH : 3M USDT (1 ETH ~ 3000 USDT)
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const weth = await MockERC20Factory.deploy("Wrapped Ether", "WETH", 18, 0);
+    const RouterFactory = await ethers.getContractFactory("MockUniswapV2Router");
+    const router = await RouterFactory.deploy(await weth.getAddress());
+    await router.setReserves(ethers.parseEther("1000"), ethers.parseUnits("3000000", 6));
+    await usdt.mint(await router.getAddress(), ethers.parseUnits("3000000", 6));
+
+    await sale.setRouter(await router.getAddress());
+
+    return { ecmToken, usdt, pair, oracle, router, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+  const oneETH = ethers.parseEther("1");
+
+  async function deadline() {
+    return (await time.latest()) + 600;
+  }
+
+  async function swapOut(router: MockUniswapV2Router, ethAmount: bigint) {
+    return router.getAmountOut(ethAmount, await router.reserveETH(), await router.reserveToken());
+  }
+
+  describe("Configuration", function () {
+    it("Should allow owner to set the router and emit RouterUpdated", async function () {
+      const { sale, router, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setRouter(ethers.ZeroAddress))
+        .to.emit(sale, "RouterUpdated")
+        .withArgs(ethers.ZeroAddress);
+      expect(await sale.router()).to.equal(ethers.ZeroAddress);
+
+      await sale.connect(owner).setRouter(await router.getAddress());
+      expect(await sale.router()).to.equal(await router.getAddress());
+    });
+
+    it("Should revert when non-owner tries to set the router", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setRouter(other.address)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should revert ETH purchases while the router is unset", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.setRouter(ethers.ZeroAddress);
+
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, 0, await deadline(), { value: oneETH })
+      ).to.be.revertedWith("router disabled");
+    });
+  });
+
+  describe("buyWithETH", function () {
+    it("Should swap ETH to USDT and lock the ECM bought with it", async function () {
+      const { sale, usdt, oracle, router, buyer1 } = await loadFixture(deployFixture);
+
+      const usdtOut = await swapOut(router, oneETH);
+      const expectedECM = await oracle.getECMForUSDT(usdtOut);
+
+      await expect(
+        sale.connect(buyer1).buyWithETH(usdtOut, expectedECM, await deadline(), { value: oneETH })
+      )
+        .to.emit(sale, "Purchase")
+        .withArgs(buyer1.address, buyer1.address, await usdt.getAddress(), usdtOut, expectedECM, 0, anyValue, 0);
+
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(expectedECM);
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(usdtOut);
+      expect(await ethers.provider.getBalance(await router.getAddress())).to.equal(oneETH);
+      expect(await sale.usdtContributed(buyer1.address)).to.equal(usdtOut);
+    });
+
+    it("Should not touch USDT already held by the sale", async function () {
+      const { sale, usdt, router, buyer1, buyer2 } = await loadFixture(deployFixture);
+      await sale.connect(buyer2).buyWithUSDT(units("1000"), 0);
+
+      const usdtOut = await swapOut(router, oneETH);
+      await sale.connect(buyer1).buyWithETH(0, 0, await deadline(), { value: oneETH });
+
+      expect(await sale.usdtContributed(buyer1.address)).to.equal(usdtOut);
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("1000") + usdtOut);
+    });
+
+    it("Should revert when the swap returns less than minUSDTOut", async function () {
+      const { sale, router, buyer1 } = await loadFixture(deployFixture);
+
+      const usdtOut = await swapOut(router, oneETH);
+      await expect(
+        sale.connect(buyer1).buyWithETH(usdtOut + 1n, 0, await deadline(), { value: oneETH })
+      ).to.be.revertedWith("INSUFFICIENT_OUTPUT_AMOUNT");
+    });
+
+    it("Should revert after the deadline", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      const past = (await time.latest()) - 1;
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, 0, past, { value: oneETH })
+      ).to.be.revertedWith("EXPIRED");
+    });
+
+    it("Should revert when ECM received is below minECM", async function () {
+      const { sale, oracle, router, buyer1 } = await loadFixture(deployFixture);
+
+      const expectedECM = await oracle.getECMForUSDT(await swapOut(router, oneETH));
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, expectedECM + 1n, await deadline(), { value: oneETH })
+      ).to.be.revertedWith("slippage");
+    });
+
+    it("Should revert without ETH", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, 0, await deadline())
+      ).to.be.revertedWith("zero ETH");
+    });
+
+    it("Should apply purchase caps to the USDT received", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.setPurchaseCaps(0, units("2000"), 0, 0);
+
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, 0, await deadline(), { value: oneETH })
+      ).to.be.revertedWith("above max purchase");
+    });
+
+    it("Should respect the allowlist-only phase", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.setAllowlistRoot(ethers.keccak256("0x01"));
+      await sale.setAllowlistOnly(true);
+
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, 0, await deadline(), { value: oneETH })
+      ).to.be.revertedWith("allowlist only");
+    });
+
+    it("Should revert when paused", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.pause();
+
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, 0, await deadline(), { value: oneETH })
+      ).to.be.revertedWithCustomError(sale, "EnforcedPause");
+    });
+
+    it("Should return the swapped USDT when the deviation guard pauses the sale", async function () {
+      const { sale, usdt, router, buyer1 } = await loadFixture(deployFixture);
+      // Reference at 1 USDT = 1 ECM vs the pair's 1 USDT = 2 ECM
+      const FixedPriceOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+      const reference = await FixedPriceOracleFactory.deploy(ethers.parseEther("1"), units("1"));
+      await sale.setReferenceOracle(await reference.getAddress());
+      await sale.setPriceDeviationGuard(500, true);
+
+      const usdtOut = await swapOut(router, oneETH);
+      await expect(
+        sale.connect(buyer1).buyWithETH(0, 0, await deadline(), { value: oneETH })
+      ).to.emit(sale, "PriceDeviationBreached");
+
+      expect(await sale.paused()).to.equal(true);
+      expect(await usdt.balanceOf(buyer1.address)).to.equal(units("100000") + usdtOut);
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts.length).to.equal(0);
+    });
+  });
+});
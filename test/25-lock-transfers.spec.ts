@@ -0,0 +1,255 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Lock Transfers", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+  // 1000 USDT buys 2000 ECM at the pair's 1 USDT = 2 ECM
+  const ecmAmount = ethers.parseEther("2000");
+
+  // buyer1 holds two locks, transfers enabled
+  async function locksFixture() {
+    const fixture = await deployFixture();
+    const { sale, buyer1 } = fixture;
+    await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+    await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+    await sale.setLockTransfersEnabled(true);
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should disable transfers by default", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      expect(await sale.lockTransfersEnabled()).to.equal(false);
+      await expect(
+        sale.connect(buyer1).transferLock(0, buyer2.address)
+      ).to.be.revertedWith("transfers disabled");
+    });
+
+    it("Should allow owner to toggle transfers and emit LockTransfersUpdated", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setLockTransfersEnabled(true))
+        .to.emit(sale, "LockTransfersUpdated")
+        .withArgs(true);
+      expect(await sale.lockTransfersEnabled()).to.equal(true);
+
+      await sale.connect(owner).setLockTransfersEnabled(false);
+      expect(await sale.lockTransfersEnabled()).to.equal(false);
+    });
+
+    it("Should revert when non-owner toggles transfers", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setLockTransfersEnabled(true)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("transferLock", function () {
+    it("Should move a lock and keep the sender's indices", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(locksFixture);
+      const [, releaseTimes] = await sale.getUserLocks(buyer1.address);
+
+      await expect(sale.connect(buyer1).transferLock(0, buyer2.address))
+        .to.emit(sale, "LockTransferred")
+        .withArgs(buyer1.address, buyer2.address, 0, 0);
+
+      const [amounts, , , , , transferred] = await sale.getUserLocks(buyer1.address);
+      expect(amounts.length).to.equal(2);
+      expect(transferred).to.deep.equal([true, false]);
+
+      const [toAmounts, toReleaseTimes, toClaimed, , , toTransferred] = await sale.getUserLocks(buyer2.address);
+      expect(toAmounts).to.deep.equal([ecmAmount]);
+      expect(toReleaseTimes).to.deep.equal([releaseTimes[0]]);
+      expect(toClaimed).to.deep.equal([0n]);
+      expect(toTransferred).to.deep.equal([false]);
+    });
+
+    it("Should append to the recipient's existing locks", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(locksFixture);
+      await sale.connect(buyer2).buyWithUSDT(units("500"), 0);
+
+      await expect(sale.connect(buyer1).transferLock(1, buyer2.address))
+        .to.emit(sale, "LockTransferred")
+        .withArgs(buyer1.address, buyer2.address, 1, 1);
+
+      const [amounts] = await sale.getUserLocks(buyer2.address);
+      expect(amounts).to.deep.equal([ethers.parseEther("1000"), ecmAmount]);
+    });
+
+    it("Should let the recipient claim the moved lock instead of the sender", async function () {
+      const { sale, ecmToken, buyer1, buyer2 } = await loadFixture(locksFixture);
+      await sale.connect(buyer1).transferLock(0, buyer2.address);
+
+      await time.increase(180 * DAY);
+
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(ecmAmount);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(ecmAmount);
+      await expect(
+        sale.connect(buyer1).claimLocks([0])
+      ).to.be.revertedWith("lock transferred");
+
+      await sale.connect(buyer1).claimAllUnlocked();
+      await sale.connect(buyer2).claimAllUnlocked();
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ecmAmount);
+      expect(await ecmToken.balanceOf(buyer2.address)).to.equal(ecmAmount);
+      expect(await sale.totalLocked()).to.equal(0);
+    });
+
+    it("Should keep totalLocked unchanged", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(locksFixture);
+      const before = await sale.totalLocked();
+
+      await sale.connect(buyer1).transferLock(0, buyer2.address);
+
+      expect(await sale.totalLocked()).to.equal(before);
+    });
+
+    it("Should carry vesting progress of a partially claimed lock", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(deployFixture);
+      await sale.setVestingDuration(100 * DAY);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      await sale.setLockTransfersEnabled(true);
+
+      await time.increase(180 * DAY + 50 * DAY);
+      await sale.connect(buyer1).claimLocks([0]);
+      const [, , claimed] = await sale.getUserLocks(buyer1.address);
+
+      await sale.connect(buyer1).transferLock(0, buyer2.address);
+
+      const [amounts, , toClaimed, vestingDurations] = await sale.getUserLocks(buyer2.address);
+      expect(amounts[0]).to.equal(ecmAmount);
+      expect(toClaimed[0]).to.equal(claimed[0]);
+      expect(vestingDurations[0]).to.equal(100 * DAY);
+
+      await time.increase(50 * DAY);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(ecmAmount - claimed[0]);
+    });
+
+    it("Should let the recipient transfer the lock again", async function () {
+      const { sale, buyer1, buyer2, other } = await loadFixture(locksFixture);
+      await sale.connect(buyer1).transferLock(0, buyer2.address);
+
+      await sale.connect(buyer2).transferLock(0, other.address);
+
+      const [amounts] = await sale.getUserLocks(other.address);
+      expect(amounts).to.deep.equal([ecmAmount]);
+    });
+
+    it("Should revert for transferred, claimed or unknown locks", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(locksFixture);
+      await sale.connect(buyer1).transferLock(0, buyer2.address);
+
+      await expect(
+        sale.connect(buyer1).transferLock(0, buyer2.address)
+      ).to.be.revertedWith("lock transferred");
+      await expect(
+        sale.connect(buyer1).transferLock(2, buyer2.address)
+      ).to.be.revertedWith("invalid index");
+
+      await time.increase(180 * DAY);
+      await sale.connect(buyer1).claimLocks([1]);
+      await expect(
+        sale.connect(buyer1).transferLock(1, buyer2.address)
+      ).to.be.revertedWith("already claimed");
+    });
+
+    it("Should revert on zero or self recipient", async function () {
+      const { sale, buyer1 } = await loadFixture(locksFixture);
+
+      await expect(
+        sale.connect(buyer1).transferLock(0, ethers.ZeroAddress)
+      ).to.be.revertedWith("zero addr");
+      await expect(
+        sale.connect(buyer1).transferLock(0, buyer1.address)
+      ).to.be.revertedWith("self transfer");
+    });
+
+    it("Should revert when paused", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(locksFixture);
+      await sale.pause();
+
+      await expect(
+        sale.connect(buyer1).transferLock(0, buyer2.address)
+      ).to.be.revertedWithCustomError(sale, "EnforcedPause");
+    });
+  });
+
+  describe("transferLocks", function () {
+    it("Should move several locks in one call", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(locksFixture);
+
+      await expect(sale.connect(buyer1).transferLocks([1, 0], buyer2.address))
+        .to.emit(sale, "LockTransferred")
+        .withArgs(buyer1.address, buyer2.address, 1, 0)
+        .and.to.emit(sale, "LockTransferred")
+        .withArgs(buyer1.address, buyer2.address, 0, 1);
+
+      const [, , , , , transferred] = await sale.getUserLocks(buyer1.address);
+      expect(transferred).to.deep.equal([true, true]);
+      const [amounts] = await sale.getUserLocks(buyer2.address);
+      expect(amounts).to.deep.equal([ecmAmount, ecmAmount]);
+    });
+
+    it("Should revert the whole batch on a duplicate index", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(locksFixture);
+
+      await expect(
+        sale.connect(buyer1).transferLocks([0, 0], buyer2.address)
+      ).to.be.revertedWith("lock transferred");
+
+      const [amounts] = await sale.getUserLocks(buyer2.address);
+      expect(amounts.length).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Lock Positions", function () {
+  const DAY = 24 * 60 * 60;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    const PositionFactory = await ethers.getContractFactory("ECMLockPosition");
+    const positions = await PositionFactory.deploy(await sale.getAddress());
+    await sale.setPositionNFT(await positions.getAddress());
+
+    // buyer1 holds two locks of 2000 ECM
+    await sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0);
+    await sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0);
+
+    return { ecmToken, usdt, pair, oracle, sale, positions, owner, buyer1, buyer2, other };
+  }
+
+  const ecmAmount = ethers.parseEther("2000");
+
+  function decodeDataURI(uri: string, mime: string) {
+    const prefix = `data:${mime};base64,`;
+    expect(uri.startsWith(prefix)).to.equal(true);
+    return Buffer.from(uri.slice(prefix.length), "base64").toString();
+  }
+
+  describe("Configuration", function () {
+    it("Should allow owner to set the position NFT and emit PositionNFTUpdated", async function () {
+      const { sale, positions, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setPositionNFT(ethers.ZeroAddress))
+        .to.emit(sale, "PositionNFTUpdated")
+        .withArgs(ethers.ZeroAddress);
+      await sale.connect(owner).setPositionNFT(await positions.getAddress());
+      expect(await sale.positionNFT()).to.equal(await positions.getAddress());
+    });
+
+    it("Should revert when non-owner sets the position NFT", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setPositionNFT(other.address)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not change the position NFT while positions are open", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).tokenizeLock(0);
+      expect(await sale.openPositions()).to.equal(1);
+
+      const PositionFactory = await ethers.getContractFactory("ECMLockPosition");
+      const replacement = await PositionFactory.deploy(await sale.getAddress());
+      await expect(sale.setPositionNFT(await replacement.getAddress())).to.be.revertedWith("positions open");
+      await expect(sale.setPositionNFT(ethers.ZeroAddress)).to.be.revertedWith("positions open");
+
+      await time.increase(180 * DAY);
+      await sale.connect(buyer1).claimPositions([1]);
+      expect(await sale.openPositions()).to.equal(0);
+      await sale.setPositionNFT(await replacement.getAddress());
+      expect(await sale.positionNFT()).to.equal(await replacement.getAddress());
+    });
+
+    it("Should only let the sale mint and burn positions", async function () {
+      const { sale, positions, other } = await loadFixture(deployFixture);
+
+      expect(await positions.sale()).to.equal(await sale.getAddress());
+      await expect(positions.connect(other).mint(other.address)).to.be.revertedWith("only sale");
+      await expect(positions.connect(other).burn(1)).to.be.revertedWith("only sale");
+    });
+  });
+
+  describe("tokenizeLock", function () {
+    it("Should mint a position carrying the lock", async function () {
+      const { sale, positions, buyer1 } = await loadFixture(deployFixture);
+      const [, releaseTimes] = await sale.getUserLocks(buyer1.address);
+      const totalLocked = await sale.totalLocked();
+
+      await expect(sale.connect(buyer1).tokenizeLock(0))
+        .to.emit(sale, "LockTokenized")
+        .withArgs(buyer1.address, 0, 1);
+
+      expect(await positions.ownerOf(1)).to.equal(buyer1.address);
+      expect(await sale.getPosition(1)).to.deep.equal([ecmAmount, releaseTimes[0], 0n, 0n, 0n]);
+      expect(await sale.totalLocked()).to.equal(totalLocked);
+
+      const [amounts, , , , , transferred] = await sale.getUserLocks(buyer1.address);
+      expect(amounts.length).to.equal(2);
+      expect(transferred).to.deep.equal([true, false]);
+    });
+
+    it("Should revert while tokenizing is disabled", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.setPositionNFT(ethers.ZeroAddress);
+
+      await expect(sale.connect(buyer1).tokenizeLock(0)).to.be.revertedWith("positions disabled");
+    });
+
+    it("Should revert for tokenized, claimed or unknown locks", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).tokenizeLock(0);
+
+      await expect(sale.connect(buyer1).tokenizeLock(0)).to.be.revertedWith("lock transferred");
+      await expect(sale.connect(buyer1).tokenizeLock(2)).to.be.revertedWith("invalid index");
+
+      await time.increase(180 * DAY);
+      await sale.connect(buyer1).claimLocks([1]);
+      await expect(sale.connect(buyer1).tokenizeLock(1)).to.be.revertedWith("already claimed");
+    });
+
+    it("Should revert getPosition for unknown ids", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.getPosition(1)).to.be.revertedWith("invalid position");
+    });
+  });
+
+  describe("claimPositions", function () {
+    it("Should pay the holder and burn a fully claimed position", async function () {
+      const { sale, positions, ecmToken, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).tokenizeLock(0);
+      const totalLocked = await sale.totalLocked();
+
+      await expect(sale.connect(buyer1).claimPositions([1])).to.be.revertedWith("not yet unlocked");
+
+      await time.increase(180 * DAY);
+      await expect(sale.connect(buyer1).claimPositions([1]))
+        .to.emit(sale, "PositionClaim")
+        .withArgs(buyer1.address, ecmAmount, 1);
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ecmAmount);
+      expect(await sale.totalLocked()).to.equal(totalLocked - ecmAmount);
+      await expect(positions.ownerOf(1)).to.be.revertedWithCustomError(positions, "ERC721NonexistentToken");
+    });
+
+    it("Should keep a partially vested position until it is fully claimed", async function () {
+      const { sale, positions, ecmToken, buyer2 } = await loadFixture(deployFixture);
+      await sale.setVestingDuration(100 * DAY);
+      await sale.connect(buyer2).buyWithUSDT(ethers.parseUnits("1000", 6), 0);
+      await sale.connect(buyer2).tokenizeLock(0);
+
+      await time.increase(180 * DAY + 50 * DAY);
+      await sale.connect(buyer2).claimPositions([1]);
+      expect(await positions.ownerOf(1)).to.equal(buyer2.address);
+      const [, , , claimed] = await sale.getPosition(1);
+      expect(claimed).to.be.greaterThan(0n);
+
+      await time.increase(50 * DAY);
+      await sale.connect(buyer2).claimPositions([1]);
+      expect(await ecmToken.balanceOf(buyer2.address)).to.equal(ecmAmount);
+      await expect(positions.ownerOf(1)).to.be.revertedWithCustomError(positions, "ERC721NonexistentToken");
+    });
+
+    it("Should follow the NFT when it changes hands", async function () {
+      const { sale, positions, ecmToken, buyer1, buyer2 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).tokenizeLock(0);
+      await positions.connect(buyer1).transferFrom(buyer1.address, buyer2.address, 1);
+
+      await time.increase(180 * DAY);
+      await expect(sale.connect(buyer1).claimPositions([1])).to.be.revertedWith("not position owner");
+      await sale.connect(buyer2).claimPositions([1]);
+      expect(await ecmToken.balanceOf(buyer2.address)).to.equal(ecmAmount);
+    });
+
+    it("Should coexist with claimLocks for legacy locks", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).tokenizeLock(0);
+      await time.increase(180 * DAY);
+
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(ecmAmount);
+      await expect(sale.connect(buyer1).claimLocks([0])).to.be.revertedWith("lock transferred");
+      await sale.connect(buyer1).claimLocks([1]);
+      await sale.connect(buyer1).claimPositions([1]);
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ecmAmount * 2n);
+      expect(await sale.totalLocked()).to.equal(0);
+    });
+
+    it("Should revert on empty input", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(buyer1).claimPositions([])).to.be.revertedWith("nothing to claim");
+    });
+  });
+
+  describe("Metadata", function () {
+    it("Should serve on-chain JSON with an SVG image", async function () {
+      const { sale, positions, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).tokenizeLock(0);
+      const [, releaseTime] = await sale.getPosition(1);
+
+      const metadata = JSON.parse(decodeDataURI(await positions.tokenURI(1), "application/json"));
+      expect(metadata.name).to.equal("ECM Lock #1");
+      expect(metadata.attributes).to.deep.equal([
+        { trait_type: "Amount", value: 2000 },
+        { trait_type: "Claimed", value: 0 },
+        { trait_type: "Release Time", display_type: "date", value: Number(releaseTime) },
+        { trait_type: "Vesting Duration", value: 0 },
+      ]);
+
+      const svg = decodeDataURI(metadata.image, "image/svg+xml");
+      expect(svg).to.contain("ECM Lock #1");
+      expect(svg).to.contain("Amount: 2000 ECM");
+      expect(svg).to.contain(`Release: ${releaseTime}`);
+    });
+
+    it("Should revert for burned positions", async function () {
+      const { sale, positions, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).tokenizeLock(0);
+      await time.increase(180 * DAY);
+      await sale.connect(buyer1).claimPositions([1]);
+
+      await expect(positions.tokenURI(1)).to.be.revertedWithCustomError(positions, "ERC721NonexistentToken");
+    });
+  });
+});
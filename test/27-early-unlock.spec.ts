@@ -0,0 +1,347 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ECMSale } from "../typechain-types";
+
+describe("ECMSale - Early Unlock", function () {
+  const DAY = 24 * 60 * 60;
+  const BURN_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+  const Mode = { Burn: 0, Inventory: 1, Redistribute: 2 };
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+  // 1000 USDT buys 2000 ECM at the pair's 1 USDT = 2 ECM
+  const ecmAmount = ethers.parseEther("2000");
+
+  // 50% max penalty in the given mode, buyer1 holding one 2000 ECM lock
+  async function lockFixture(mode: number) {
+    const fixture = await deployFixture();
+    await fixture.sale.setEarlyUnlockConfig(true, 5000, mode);
+    await fixture.sale.connect(fixture.buyer1).buyWithUSDT(units("1000"), 0);
+    return fixture;
+  }
+
+  const burnFixture = () => lockFixture(Mode.Burn);
+  const inventoryFixture = () => lockFixture(Mode.Inventory);
+  const soleLockerFixture = () => lockFixture(Mode.Redistribute);
+
+  // as inventoryFixture, with the lock vesting over 100 days after its 180 day cliff
+  async function vestingFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setEarlyUnlockConfig(true, 5000, Mode.Inventory);
+    await fixture.sale.setVestingDuration(100 * DAY);
+    await fixture.sale.connect(fixture.buyer1).buyWithUSDT(units("1000"), 0);
+    return fixture;
+  }
+
+  // buyer1 and buyer2 holding one 2000 ECM lock each, penalties redistributed
+  async function redistributeFixture() {
+    const fixture = await lockFixture(Mode.Redistribute);
+    await fixture.sale.connect(fixture.buyer2).buyWithUSDT(units("1000"), 0);
+    return fixture;
+  }
+
+  // start of a lock (purchase time) from its release time and the default 180 day lock
+  async function lockStart(sale: ECMSale, user: string, index: number) {
+    const [, releaseTimes] = await sale.getUserLocks(user);
+    return Number(releaseTimes[index]) - 180 * DAY;
+  }
+
+  describe("Configuration", function () {
+    it("Should disable early unlocks by default", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      expect(await sale.earlyUnlockEnabled()).to.equal(false);
+      expect(await sale.earlyUnlockPenaltyBps()).to.equal(0);
+      await expect(
+        sale.connect(buyer1).earlyUnlock(0)
+      ).to.be.revertedWith("early unlock disabled");
+    });
+
+    it("Should allow owner to configure and emit EarlyUnlockConfigUpdated", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setEarlyUnlockConfig(true, 2500, Mode.Redistribute))
+        .to.emit(sale, "EarlyUnlockConfigUpdated")
+        .withArgs(true, 2500, Mode.Redistribute);
+
+      expect(await sale.earlyUnlockEnabled()).to.equal(true);
+      expect(await sale.earlyUnlockPenaltyBps()).to.equal(2500);
+      expect(await sale.penaltyMode()).to.equal(Mode.Redistribute);
+    });
+
+    it("Should revert on a penalty above 100%", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.setEarlyUnlockConfig(true, 10001, Mode.Burn)
+      ).to.be.revertedWith("bps > 10000");
+    });
+
+    it("Should revert when non-owner configures", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setEarlyUnlockConfig(true, 5000, Mode.Burn)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Penalty", function () {
+    it("Should preview a penalty decaying linearly to zero", async function () {
+      const { sale, buyer1 } = await loadFixture(inventoryFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+
+      let [received, penalty] = await sale.getEarlyUnlockPenalty(buyer1.address, 0);
+      expect(received + penalty).to.equal(ecmAmount);
+      expect(penalty).to.be.closeTo(ethers.parseEther("1000"), ethers.parseEther("1"));
+
+      await time.increaseTo(start + 90 * DAY);
+      [received, penalty] = await sale.getEarlyUnlockPenalty(buyer1.address, 0);
+      expect(received + penalty).to.equal(ecmAmount);
+      expect(penalty).to.be.closeTo(ethers.parseEther("500"), ethers.parseEther("1"));
+
+      await time.increaseTo(start + 180 * DAY);
+      [received, penalty] = await sale.getEarlyUnlockPenalty(buyer1.address, 0);
+      expect(received).to.equal(ecmAmount);
+      expect(penalty).to.equal(0);
+    });
+
+    it("Should release the lock minus the penalty and emit EarlyUnlock", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(inventoryFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await expect(sale.connect(buyer1).earlyUnlock(0))
+        .to.emit(sale, "EarlyUnlock")
+        .withArgs(buyer1.address, 0, ethers.parseEther("1500"), ethers.parseEther("500"), Mode.Inventory);
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ethers.parseEther("1500"));
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(claimed[0]).to.equal(amounts[0]);
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(0);
+    });
+
+    it("Should only charge the unvested part of a vesting lock", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(vestingFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+
+      // half vested, 50 of 280 days left
+      await time.setNextBlockTimestamp(start + 230 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+
+      const unvested = ethers.parseEther("1000");
+      const penalty = (unvested * 5000n * BigInt(50 * DAY)) / (BigInt(280 * DAY) * 10000n);
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ecmAmount - penalty);
+    });
+
+    it("Should release a partially claimed lock", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(vestingFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+
+      await time.setNextBlockTimestamp(start + 205 * DAY);
+      await sale.connect(buyer1).claimLocks([0]);
+      await time.setNextBlockTimestamp(start + 230 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+
+      const unvested = ethers.parseEther("1000");
+      const penalty = (unvested * 5000n * BigInt(50 * DAY)) / (BigInt(280 * DAY) * 10000n);
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ecmAmount - penalty);
+      expect(await sale.totalLocked()).to.equal(0);
+    });
+
+    it("Should keep claiming the other locks after an early unlock", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(inventoryFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      await sale.connect(buyer1).earlyUnlock(0);
+      const balance = await ecmToken.balanceOf(buyer1.address);
+
+      await time.increase(180 * DAY);
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(ecmAmount);
+      await sale.connect(buyer1).claimAllUnlocked();
+
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(balance + ecmAmount);
+      expect(await sale.totalLocked()).to.equal(0);
+    });
+
+    it("Should revert for transferred, claimed or unknown locks", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(inventoryFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      await sale.setLockTransfersEnabled(true);
+      await sale.connect(buyer1).transferLock(0, buyer2.address);
+
+      expect(await sale.getEarlyUnlockPenalty(buyer1.address, 0)).to.deep.equal([0n, 0n]);
+      await expect(sale.connect(buyer1).earlyUnlock(0)).to.be.revertedWith("lock transferred");
+
+      await sale.connect(buyer1).earlyUnlock(1);
+      await expect(sale.connect(buyer1).earlyUnlock(1)).to.be.revertedWith("already claimed");
+
+      await expect(sale.connect(buyer1).earlyUnlock(2)).to.be.revertedWith("invalid index");
+      await expect(sale.getEarlyUnlockPenalty(buyer1.address, 2)).to.be.revertedWith("invalid index");
+    });
+
+    it("Should revert when paused", async function () {
+      const { sale, buyer1 } = await loadFixture(inventoryFixture);
+      await sale.pause();
+
+      await expect(
+        sale.connect(buyer1).earlyUnlock(0)
+      ).to.be.revertedWithCustomError(sale, "EnforcedPause");
+    });
+  });
+
+  describe("Penalty modes", function () {
+    it("Should burn the penalty", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(burnFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+      const available = await sale.availableECM();
+
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+
+      expect(await ecmToken.balanceOf(BURN_ADDRESS)).to.equal(ethers.parseEther("500"));
+      expect(await sale.totalLocked()).to.equal(0);
+      expect(await sale.availableECM()).to.equal(available);
+    });
+
+    it("Should return the penalty to inventory", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(inventoryFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+      const available = await sale.availableECM();
+
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+
+      expect(await ecmToken.balanceOf(BURN_ADDRESS)).to.equal(0);
+      expect(await sale.totalLocked()).to.equal(0);
+      expect(await sale.availableECM()).to.equal(available + ethers.parseEther("500"));
+    });
+
+    it("Should redistribute the penalty to the remaining lockers", async function () {
+      const { sale, ecmToken, buyer1, buyer2 } = await loadFixture(redistributeFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+      const available = await sale.availableECM();
+
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+
+      // the penalty stays in the sale for buyer2, claimable right away
+      expect(await sale.totalLocked()).to.equal(ethers.parseEther("2500"));
+      expect(await sale.availableECM()).to.equal(available);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(ethers.parseEther("500"));
+
+      await expect(sale.connect(buyer2).claimLocks([0]))
+        .to.emit(sale, "Claim")
+        .withArgs(buyer2.address, ethers.parseEther("500"), 0);
+      expect(await sale.totalLocked()).to.equal(ecmAmount);
+
+      await time.increaseTo(start + 181 * DAY);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(ecmAmount);
+      await sale.connect(buyer2).claimAllUnlocked();
+
+      expect(await ecmToken.balanceOf(buyer2.address)).to.equal(ethers.parseEther("2500"));
+      expect(await sale.totalLocked()).to.equal(0);
+      expect(await sale.availableECM()).to.equal(available);
+    });
+
+    it("Should split redistributed penalties pro rata to unclaimed principal", async function () {
+      const { sale, buyer1, buyer2, other } = await loadFixture(redistributeFixture);
+      await sale.connect(buyer2).buyFor(other.address, units("1000"), 0);
+      await sale.connect(buyer2).buyWithUSDT(units("1000"), 0);
+      const start = await lockStart(sale, buyer1.address, 0);
+
+      // penalty 600 over 6000 ECM of remaining principal: 0.1 ECM per ECM
+      await sale.setEarlyUnlockConfig(true, 6000, Mode.Redistribute);
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+
+      await time.increaseTo(start + 200 * DAY);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(ethers.parseEther("4400"));
+      expect(await sale.getClaimableECM(other.address)).to.equal(ethers.parseEther("2200"));
+    });
+
+    it("Should not credit penalties to locks created afterwards", async function () {
+      const { sale, buyer1, buyer2, other } = await loadFixture(redistributeFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+      await sale.connect(buyer2).buyFor(other.address, units("1000"), 0);
+
+      await time.increaseTo(start + 400 * DAY);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(ethers.parseEther("2500"));
+      expect(await sale.getClaimableECM(other.address)).to.equal(ecmAmount);
+    });
+
+    it("Should carry redistributed penalties with a transferred lock", async function () {
+      const { sale, ecmToken, buyer1, buyer2, other } = await loadFixture(redistributeFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+      await sale.setLockTransfersEnabled(true);
+      await sale.connect(buyer2).transferLock(0, other.address);
+
+      await time.increaseTo(start + 181 * DAY);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(0);
+      await sale.connect(other).claimAllUnlocked();
+      expect(await ecmToken.balanceOf(other.address)).to.equal(ethers.parseEther("2500"));
+    });
+
+    it("Should fall back to inventory when nobody else is locked", async function () {
+      const { sale, buyer1 } = await loadFixture(soleLockerFixture);
+      const start = await lockStart(sale, buyer1.address, 0);
+      const available = await sale.availableECM();
+
+      await time.setNextBlockTimestamp(start + 90 * DAY);
+      await sale.connect(buyer1).earlyUnlock(0);
+
+      expect(await sale.totalLocked()).to.equal(0);
+      expect(await sale.availableECM()).to.equal(available + ethers.parseEther("500"));
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Refund Window", function () {
+  const DAY = 24 * 60 * 60;
+  const WINDOW = 14 * DAY;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.mint(buyer2.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+    await usdt.connect(buyer2).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    return { ecmToken, usdt, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+  // 1000 USDT buys 2000 ECM at the pair's 1 USDT = 2 ECM
+  const ecmAmount = ethers.parseEther("2000");
+
+  // 14 day refund window, buyer1 holding one 2000 ECM lock bought for 1000 USDT at noon
+  // (refund reserves are released per day)
+  async function windowFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setRefundWindow(WINDOW);
+    const now = await time.latest();
+    await time.setNextBlockTimestamp((Math.floor(now / DAY) + 1) * DAY + DAY / 2);
+    await fixture.sale.connect(fixture.buyer1).buyWithUSDT(units("1000"), 0);
+    return fixture;
+  }
+
+  // as windowFixture, referred by buyer2 for a 5% bonus
+  async function referredFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setRefundWindow(WINDOW);
+    await fixture.sale.setReferralBonusBps(500);
+    await fixture.sale.connect(fixture.buyer1).buyWithUSDTReferred(units("1000"), 0, fixture.buyer2.address);
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should disable refunds by default", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      expect(await sale.refundWindow()).to.equal(0);
+      expect(await sale.getLockCost(buyer1.address, 0)).to.deep.equal([units("1000"), 0n]);
+      await expect(
+        sale.connect(buyer1).cancelPurchase(0)
+      ).to.be.revertedWith("refund window closed");
+    });
+
+    it("Should allow owner to set the window and emit RefundWindowUpdated", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setRefundWindow(WINDOW))
+        .to.emit(sale, "RefundWindowUpdated")
+        .withArgs(WINDOW);
+      expect(await sale.refundWindow()).to.equal(WINDOW);
+    });
+
+    it("Should revert when non-owner sets the window", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setRefundWindow(WINDOW)
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should record the cost and deadline of each lock", async function () {
+      const { sale, buyer1 } = await loadFixture(windowFixture);
+      const purchaseTime = await time.latest();
+
+      expect(await sale.getLockCost(buyer1.address, 0)).to.deep.equal([
+        units("1000"),
+        BigInt(purchaseTime + WINDOW),
+      ]);
+      expect(await sale.refundReserve()).to.equal(units("1000"));
+      await expect(sale.getLockCost(buyer1.address, 1)).to.be.revertedWith("invalid index");
+    });
+  });
+
+  describe("cancelPurchase", function () {
+    it("Should refund the USDT, void the lock and emit PurchaseCancelled", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(windowFixture);
+      const balance = await usdt.balanceOf(buyer1.address);
+
+      await expect(sale.connect(buyer1).cancelPurchase(0))
+        .to.emit(sale, "PurchaseCancelled")
+        .withArgs(buyer1.address, 0, units("1000"), ecmAmount);
+
+      expect(await usdt.balanceOf(buyer1.address)).to.equal(balance + units("1000"));
+      const [amounts, , claimed] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(0);
+      expect(claimed[0]).to.equal(0);
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(0);
+    });
+
+    it("Should return the ECM to inventory and undo the contribution", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(windowFixture);
+      const available = await sale.availableECM();
+
+      await sale.connect(buyer1).cancelPurchase(0);
+
+      expect(await sale.totalLocked()).to.equal(0);
+      expect(await sale.availableECM()).to.equal(available + ecmAmount);
+      expect(await sale.usdtContributed(buyer1.address)).to.equal(0);
+      expect(await sale.totalUSDTRaised()).to.equal(0);
+      expect(await sale.tokenRaised(await usdt.getAddress())).to.equal(0);
+      expect(await sale.refundReserve()).to.equal(0);
+    });
+
+    it("Should free the wallet cap again", async function () {
+      const { sale, buyer1 } = await loadFixture(windowFixture);
+      await sale.setPurchaseCaps(0, 0, units("1000"), 0);
+
+      await expect(
+        sale.connect(buyer1).buyWithUSDT(units("1"), 0)
+      ).to.be.revertedWith("wallet cap exceeded");
+      await sale.connect(buyer1).cancelPurchase(0);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+    });
+
+    it("Should take the purchase out of its sale round", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(deployFixture);
+      await sale.setRefundWindow(WINDOW);
+      await sale.setBonusTiers([units("1000")], [500]);
+      const start = BigInt(await time.latest()) + 10n;
+      // 0.5 USDT per ECM, sold out by 1000 USDT
+      await sale.createRound(start, start + BigInt(30 * DAY), ethers.parseEther("2000"), units("0.5"), 0, 90 * DAY);
+      await time.increaseTo(start);
+
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      expect(await sale.roundCursor()).to.equal(1);
+      await expect(sale.connect(buyer2).buyWithUSDT(units("100"), 0)).to.be.revertedWith("no active round");
+
+      await sale.connect(buyer1).cancelPurchase(0);
+      const round = await sale.getRound(0);
+      expect(round.ecmSold).to.equal(0);
+      expect(round.usdtRaised).to.equal(0);
+      expect(await sale.roundCursor()).to.equal(0);
+
+      await sale.connect(buyer2).buyWithUSDT(units("1000"), 0);
+      expect((await sale.getRound(0)).ecmSold).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should void the referral bonus paid on the purchase", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(referredFixture);
+
+      // the referrer's bonus lock is frozen for the buyer's refund window
+      await sale.setLockTransfersEnabled(true);
+      await expect(
+        sale.connect(buyer2).transferLock(0, buyer1.address)
+      ).to.be.revertedWith("in refund window");
+
+      await sale.connect(buyer1).cancelPurchase(0);
+
+      const [amounts] = await sale.getUserLocks(buyer2.address);
+      expect(amounts[0]).to.equal(0);
+      expect(await sale.referralEarnings(buyer2.address)).to.equal(0);
+      expect(await sale.totalLocked()).to.equal(0);
+    });
+
+    it("Should not pay out the referral bonus before the window closes", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(deployFixture);
+      await sale.setRefundWindow(WINDOW);
+      await sale.setReferralBonusBps(500);
+      await sale.setLockDuration(0);
+      await sale.connect(buyer1).buyWithUSDTReferred(units("1000"), 0, buyer2.address);
+      await sale.connect(buyer1).buyWithUSDTReferred(units("1000"), 0, buyer2.address);
+
+      // both locks are unlocked but still inside the buyer's refund window
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(0);
+      expect(await sale.getClaimableECM(buyer2.address)).to.equal(0);
+      await expect(sale.connect(buyer1).claimAllUnlocked()).to.be.revertedWith("nothing unlocked");
+      await expect(sale.connect(buyer2).claimLocks([0])).to.be.revertedWith("in refund window");
+
+      await sale.connect(buyer1).cancelPurchase(0);
+      expect(await sale.referralEarnings(buyer2.address)).to.equal(ecmAmount / 20n);
+
+      await time.increase(WINDOW);
+      await sale.connect(buyer2).claimAllUnlocked();
+      expect(await sale.referralEarnings(buyer2.address)).to.equal(ecmAmount / 20n);
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(ecmAmount);
+      expect(await sale.totalLocked()).to.equal(ecmAmount);
+    });
+
+    it("Should revert after the window, twice or for unknown locks", async function () {
+      const { sale, buyer1 } = await loadFixture(windowFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      await sale.connect(buyer1).cancelPurchase(1);
+      await expect(sale.connect(buyer1).cancelPurchase(1)).to.be.revertedWith("refund window closed");
+      await expect(sale.connect(buyer1).cancelPurchase(2)).to.be.revertedWith("invalid index");
+
+      await time.increase(WINDOW);
+      await expect(sale.connect(buyer1).cancelPurchase(0)).to.be.revertedWith("refund window closed");
+    });
+
+    it("Should not refund purchases made for a beneficiary", async function () {
+      const { sale, buyer2, other } = await loadFixture(windowFixture);
+      await sale.connect(buyer2).buyFor(other.address, units("1000"), 0);
+
+      expect(await sale.getLockCost(other.address, 0)).to.deep.equal([units("1000"), 0n]);
+      await expect(
+        sale.connect(other).cancelPurchase(0)
+      ).to.be.revertedWith("refund window closed");
+    });
+
+    it("Should not refund referral bonus locks", async function () {
+      const { sale, buyer2 } = await loadFixture(referredFixture);
+
+      await expect(
+        sale.connect(buyer2).cancelPurchase(0)
+      ).to.be.revertedWith("not refundable");
+    });
+
+    it("Should freeze the lock until the window closes", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(windowFixture);
+      await sale.setLockTransfersEnabled(true);
+      await sale.setEarlyUnlockConfig(true, 5000, 1);
+
+      await expect(sale.connect(buyer1).transferLock(0, buyer2.address)).to.be.revertedWith("in refund window");
+      await expect(sale.connect(buyer1).earlyUnlock(0)).to.be.revertedWith("in refund window");
+
+      await time.increase(WINDOW);
+      await sale.connect(buyer1).transferLock(0, buyer2.address);
+    });
+
+    it("Should revert when paused", async function () {
+      const { sale, buyer1 } = await loadFixture(windowFixture);
+      await sale.pause();
+
+      await expect(
+        sale.connect(buyer1).cancelPurchase(0)
+      ).to.be.revertedWithCustomError(sale, "EnforcedPause");
+    });
+  });
+
+  describe("Withdrawals", function () {
+    it("Should keep USDT inside refund windows from being withdrawn", async function () {
+      const { sale, usdt, buyer2 } = await loadFixture(windowFixture);
+      await sale.setRefundWindow(0);
+      await sale.connect(buyer2).buyWithUSDT(units("500"), 0);
+
+      await expect(sale.withdrawUSDT(units("501"))).to.be.revertedWith("refunds reserved");
+      await expect(
+        sale.withdrawProceeds(await usdt.getAddress(), units("501"))
+      ).to.be.revertedWith("refunds reserved");
+      await expect(sale.withdrawUSDT(units("1501"))).to.be.revertedWith("amount > balance");
+
+      await sale.withdrawUSDT(units("500"));
+    });
+
+    it("Should release the reserve the day after the window closes", async function () {
+      const { sale, buyer1 } = await loadFixture(windowFixture);
+
+      await time.increase(WINDOW);
+      await expect(sale.withdrawUSDT(units("1000"))).to.be.revertedWith("refunds reserved");
+
+      await time.increase(DAY);
+      await sale.withdrawUSDT(units("1000"));
+      expect(await sale.refundReserve()).to.equal(0);
+      await expect(sale.connect(buyer1).cancelPurchase(0)).to.be.revertedWith("refund window closed");
+    });
+
+    it("Should release the reserve of a cancelled purchase at once", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(windowFixture);
+      await sale.connect(buyer2).buyWithUSDT(units("500"), 0);
+
+      await sale.connect(buyer1).cancelPurchase(0);
+      expect(await sale.refundReserve()).to.equal(units("500"));
+      await expect(sale.withdrawUSDT(units("1"))).to.be.revertedWith("refunds reserved");
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Soft Cap", function () {
+  const DAY = 24 * 60 * 60;
+  const PENDING = 0;
+  const SUCCEEDED = 1;
+  const FAILED = 2;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    // DAI (18 decimals) priced at par with USDT through the sale oracle
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const dai = await MockERC20Factory.deploy("Dai Stablecoin", "DAI", 18, 0);
+    await sale.setPaymentToken(await dai.getAddress(), ethers.ZeroAddress);
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    for (const buyer of [buyer1, buyer2]) {
+      await usdt.mint(buyer.address, ethers.parseUnits("100000", 6));
+      await dai.mint(buyer.address, ethers.parseEther("100000"));
+      await usdt.connect(buyer).approve(await sale.getAddress(), ethers.MaxUint256);
+      await dai.connect(buyer).approve(await sale.getAddress(), ethers.MaxUint256);
+    }
+
+    return { ecmToken, usdt, dai, pair, oracle, sale, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+  // 10k USDT soft cap on a sale ending in 30 days; buyer1 bought for 1000 USDT and 500 DAI
+  async function softCapFixture() {
+    const fixture = await deployFixture();
+    const { sale, dai, buyer1 } = fixture;
+    const now = await time.latest();
+    await sale.setSaleSchedule(0, now + 30 * DAY);
+    await sale.setSoftCap(units("10000"));
+    await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+    await sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("500"), 0);
+    return fixture;
+  }
+
+  // softCapFixture, ended below the soft cap and finalized as failed
+  async function failedFixture() {
+    const fixture = await softCapFixture();
+    await time.increaseTo(await fixture.sale.saleEnd());
+    await fixture.sale.finalizeSale();
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should have no soft cap by default", async function () {
+      const { sale, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      expect(await sale.softCapUSDT()).to.equal(0);
+      expect(await sale.saleOutcome()).to.equal(PENDING);
+      await expect(sale.finalizeSale()).to.be.revertedWith("no soft cap");
+      await sale.withdrawUSDT(units("1000"));
+    });
+
+    it("Should allow owner to set the soft cap and emit SoftCapUpdated", async function () {
+      const { sale, owner } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(owner).setSoftCap(units("10000")))
+        .to.emit(sale, "SoftCapUpdated")
+        .withArgs(units("10000"));
+      expect(await sale.softCapUSDT()).to.equal(units("10000"));
+    });
+
+    it("Should revert when non-owner sets the soft cap", async function () {
+      const { sale, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).setSoftCap(units("10000"))
+      ).to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not lift the soft cap once purchases started", async function () {
+      const { sale } = await loadFixture(softCapFixture);
+
+      await expect(sale.setSoftCap(0)).to.be.revertedWith("purchases started");
+      await expect(sale.withdrawUSDT(units("1000"))).to.be.revertedWith("soft cap not met");
+    });
+
+    it("Should not add a soft cap once purchases started", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      await sale.withdrawUSDT(units("1000"));
+
+      await expect(sale.setSoftCap(units("10000"))).to.be.revertedWith("purchases started");
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+    });
+
+    it("Should track contributions per beneficiary and payment token", async function () {
+      const { sale, usdt, dai, buyer1, buyer2 } = await loadFixture(softCapFixture);
+      await sale.connect(buyer2).buyFor(buyer1.address, units("200"), 0);
+
+      expect(await sale.tokenContributed(buyer1.address, await usdt.getAddress())).to.equal(units("1200"));
+      expect(await sale.tokenContributed(buyer1.address, await dai.getAddress())).to.equal(ethers.parseEther("500"));
+      expect(await sale.tokenContributed(buyer2.address, await usdt.getAddress())).to.equal(0);
+    });
+  });
+
+  describe("Success", function () {
+    it("Should block proceeds until the sale is finalized", async function () {
+      const { sale, dai } = await loadFixture(softCapFixture);
+
+      await expect(sale.withdrawUSDT(units("1000"))).to.be.revertedWith("soft cap not met");
+      await expect(
+        sale.withdrawProceeds(await dai.getAddress(), ethers.parseEther("500"))
+      ).to.be.revertedWith("soft cap not met");
+      await expect(sale.finalizeSale()).to.be.revertedWith("soft cap not met");
+    });
+
+    it("Should succeed before the end once the soft cap is met", async function () {
+      const { sale, buyer2, other } = await loadFixture(softCapFixture);
+      await sale.connect(buyer2).buyWithUSDT(units("8500"), 0);
+
+      await expect(sale.connect(other).finalizeSale())
+        .to.emit(sale, "SaleFinalized")
+        .withArgs(SUCCEEDED, units("10000"));
+      expect(await sale.saleOutcome()).to.equal(SUCCEEDED);
+
+      await sale.withdrawUSDT(units("9500"));
+      await expect(sale.finalizeSale()).to.be.revertedWith("sale finalized");
+      await expect(sale.setSoftCap(0)).to.be.revertedWith("sale finalized");
+      await expect(
+        sale.connect(buyer2).claimRefund(await sale.usdt())
+      ).to.be.revertedWith("sale not failed");
+    });
+
+    it("Should block claims and lock moves until the sale is finalized", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(softCapFixture);
+      const PositionFactory = await ethers.getContractFactory("ECMLockPosition");
+      const positions = await PositionFactory.deploy(await sale.getAddress());
+      await sale.setPositionNFT(await positions.getAddress());
+      await sale.setLockTransfersEnabled(true);
+      await sale.setEarlyUnlockConfig(true, 5000, 1); // Inventory
+      await time.increase(180 * DAY);
+
+      await expect(sale.connect(buyer1).claimAllUnlocked()).to.be.revertedWith("soft cap not met");
+      await expect(sale.connect(buyer1).claimLocks([0])).to.be.revertedWith("soft cap not met");
+      await expect(sale.connect(buyer1).earlyUnlock(0)).to.be.revertedWith("soft cap not met");
+      await expect(sale.connect(buyer1).transferLock(0, buyer2.address)).to.be.revertedWith("soft cap not met");
+      await expect(sale.connect(buyer1).transferLocks([0], buyer2.address)).to.be.revertedWith("soft cap not met");
+      await expect(sale.connect(buyer1).tokenizeLock(0)).to.be.revertedWith("soft cap not met");
+    });
+
+    it("Should keep locks and claims working after success", async function () {
+      const { sale, ecmToken, buyer1, buyer2 } = await loadFixture(softCapFixture);
+      await sale.connect(buyer2).buyWithUSDT(units("8500"), 0);
+      await time.increaseTo(await sale.saleEnd());
+      await sale.finalizeSale();
+
+      await time.increase(180 * DAY);
+      const claimable = await sale.getClaimableECM(buyer1.address);
+      expect(claimable).to.equal(ethers.parseEther("3000"));
+      await sale.connect(buyer1).claimAllUnlocked();
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(claimable);
+    });
+
+    it("Should not count USDT inside refund windows towards the soft cap", async function () {
+      const { sale, buyer2 } = await loadFixture(softCapFixture);
+      await sale.setRefundWindow(14 * DAY);
+      await sale.connect(buyer2).buyWithUSDT(units("8500"), 0);
+
+      await expect(sale.finalizeSale()).to.be.revertedWith("soft cap not met");
+
+      await time.increase(15 * DAY);
+      await sale.finalizeSale();
+      expect(await sale.saleOutcome()).to.equal(SUCCEEDED);
+    });
+  });
+
+  describe("Failure", function () {
+    it("Should fail once the sale ends below the soft cap", async function () {
+      const { sale } = await loadFixture(softCapFixture);
+      await time.increaseTo(await sale.saleEnd());
+
+      await expect(sale.finalizeSale())
+        .to.emit(sale, "SaleFinalized")
+        .withArgs(FAILED, units("1500"));
+      expect(await sale.saleOutcome()).to.equal(FAILED);
+    });
+
+    it("Should refund each payment token and emit SoftCapRefund", async function () {
+      const { sale, usdt, dai, buyer1 } = await loadFixture(failedFixture);
+      const usdtBalance = await usdt.balanceOf(buyer1.address);
+      const daiBalance = await dai.balanceOf(buyer1.address);
+
+      await expect(sale.connect(buyer1).claimRefund(await usdt.getAddress()))
+        .to.emit(sale, "SoftCapRefund")
+        .withArgs(buyer1.address, await usdt.getAddress(), units("1000"));
+      await sale.connect(buyer1).claimRefund(await dai.getAddress());
+
+      expect(await usdt.balanceOf(buyer1.address)).to.equal(usdtBalance + units("1000"));
+      expect(await dai.balanceOf(buyer1.address)).to.equal(daiBalance + ethers.parseEther("500"));
+      await expect(
+        sale.connect(buyer1).claimRefund(await usdt.getAddress())
+      ).to.be.revertedWith("nothing to refund");
+    });
+
+    it("Should refund purchases made with buyFor to the beneficiary", async function () {
+      const { sale, usdt, buyer2, other } = await loadFixture(softCapFixture);
+      await sale.connect(buyer2).buyFor(other.address, units("300"), 0);
+      await time.increaseTo(await sale.saleEnd());
+      await sale.finalizeSale();
+
+      await sale.connect(other).claimRefund(await usdt.getAddress());
+      expect(await usdt.balanceOf(other.address)).to.equal(units("300"));
+      await expect(
+        sale.connect(buyer2).claimRefund(await usdt.getAddress())
+      ).to.be.revertedWith("nothing to refund");
+    });
+
+    it("Should void all locks", async function () {
+      const { sale, buyer1, buyer2 } = await loadFixture(failedFixture);
+      await sale.setLockTransfersEnabled(true);
+      await time.increase(180 * DAY);
+
+      expect(await sale.getClaimableECM(buyer1.address)).to.equal(0);
+      await expect(sale.connect(buyer1).claimAllUnlocked()).to.be.revertedWith("sale failed");
+      await expect(sale.connect(buyer1).claimLocks([0])).to.be.revertedWith("sale failed");
+      await expect(sale.connect(buyer1).transferLock(0, buyer2.address)).to.be.revertedWith("sale failed");
+    });
+
+    it("Should return all ECM to the owner but keep the proceeds locked", async function () {
+      const { sale, ecmToken, usdt } = await loadFixture(failedFixture);
+      const balance = await ecmToken.balanceOf(await sale.getAddress());
+
+      expect(await sale.availableECM()).to.equal(balance);
+      await sale.withdrawUnsoldECM();
+      expect(await ecmToken.balanceOf(await sale.getAddress())).to.equal(0);
+
+      await expect(sale.withdrawUSDT(1)).to.be.revertedWith("soft cap not met");
+      await expect(sale.setSoftCap(0)).to.be.revertedWith("sale finalized");
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("1000"));
+    });
+
+    it("Should not refund cancelled purchases twice", async function () {
+      const { sale, usdt, buyer2 } = await loadFixture(softCapFixture);
+      await sale.setRefundWindow(14 * DAY);
+      await sale.connect(buyer2).buyWithUSDT(units("400"), 0);
+      await sale.connect(buyer2).buyWithUSDT(units("600"), 0);
+      await sale.connect(buyer2).cancelPurchase(0);
+
+      await time.increaseTo(await sale.saleEnd());
+      await sale.finalizeSale();
+
+      await expect(sale.connect(buyer2).claimRefund(await usdt.getAddress()))
+        .to.emit(sale, "SoftCapRefund")
+        .withArgs(buyer2.address, await usdt.getAddress(), units("600"));
+    });
+
+    it("Should revert refunds before the sale failed", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(softCapFixture);
+
+      await expect(
+        sale.connect(buyer1).claimRefund(await usdt.getAddress())
+      ).to.be.revertedWith("sale not failed");
+    });
+  });
+});
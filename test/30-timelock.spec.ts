@@ -0,0 +1,396 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Timelock", function () {
+  const DAY = 24 * 60 * 60;
+  const DELAY = 2 * DAY;
+  const GRACE_PERIOD = 7 * DAY;
+  // TimelockedParam
+  const ORACLE = 0;
+  const LOCK_DURATION = 1;
+  const TIMELOCK_DELAY = 2;
+  const REFERENCE_ORACLE = 3;
+  const PRICE_DEVIATION_GUARD = 4;
+  const PAYMENT_TOKEN = 5;
+  const ROUND = 6;
+
+  async function deployFixture() {
+    const [owner, buyer1, oracleManager, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    // 1 USDT = 3 ECM
+    const FixedOracleFactory = await ethers.getContractFactory("FixedPriceOracle");
+    const newOracle = await FixedOracleFactory.deploy(ethers.parseEther("3"), ethers.parseUnits("1", 6));
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    await usdt.mint(buyer1.address, ethers.parseUnits("100000", 6));
+    await usdt.connect(buyer1).approve(await sale.getAddress(), ethers.MaxUint256);
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const dai = await MockERC20Factory.deploy("Dai Stablecoin", "DAI", 18, 0);
+
+    return { ecmToken, usdt, pair, oracle, newOracle, dai, sale, owner, buyer1, oracleManager, other };
+  }
+
+  // 2 day delay, oracle managed by its own holder
+  async function timelockFixture() {
+    const fixture = await deployFixture();
+    const { sale, owner, oracleManager } = fixture;
+    await sale.setTimelockDelay(DELAY);
+    await sale.grantRole(await sale.ORACLE_MANAGER_ROLE(), oracleManager.address);
+    await sale.renounceRole(await sale.ORACLE_MANAGER_ROLE(), owner.address);
+    return fixture;
+  }
+
+  // timelockFixture with the fixed price oracle proposed
+  async function proposedFixture() {
+    const fixture = await timelockFixture();
+    const { sale, newOracle, oracleManager } = fixture;
+    await sale.connect(oracleManager).proposeChange(ORACLE, await newOracle.getAddress());
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should have no delay by default", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      expect(await sale.timelockDelay()).to.equal(0);
+      expect(await sale.MAX_TIMELOCK_DELAY()).to.equal(30 * DAY);
+      expect(await sale.TIMELOCK_GRACE_PERIOD()).to.equal(GRACE_PERIOD);
+      await sale.setLockDuration(90 * DAY);
+      expect(await sale.lockDuration()).to.equal(90 * DAY);
+    });
+
+    it("Should allow admin to raise the delay and emit TimelockDelayUpdated", async function () {
+      const { sale } = await loadFixture(deployFixture);
+
+      await expect(sale.setTimelockDelay(DELAY))
+        .to.emit(sale, "TimelockDelayUpdated")
+        .withArgs(DELAY);
+      expect(await sale.timelockDelay()).to.equal(DELAY);
+      await expect(sale.setTimelockDelay(31 * DAY)).to.be.revertedWith("delay too long");
+    });
+
+    it("Should revert when non-admin sets the delay", async function () {
+      const { sale, oracleManager } = await loadFixture(timelockFixture);
+
+      await expect(sale.connect(oracleManager).setTimelockDelay(3 * DAY))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should block instant changes once a delay is set", async function () {
+      const { sale, newOracle, oracleManager } = await loadFixture(timelockFixture);
+
+      await expect(
+        sale.connect(oracleManager).setOracle(await newOracle.getAddress())
+      ).to.be.revertedWith("timelocked");
+      await expect(sale.setLockDuration(90 * DAY)).to.be.revertedWith("timelocked");
+      await expect(sale.setTimelockDelay(DAY)).to.be.revertedWith("timelocked");
+    });
+
+    it("Should keep pause instant", async function () {
+      const { sale } = await loadFixture(timelockFixture);
+
+      await sale.pause();
+      expect(await sale.paused()).to.be.true;
+    });
+  });
+
+  describe("proposeChange", function () {
+    it("Should record the change and emit ChangeProposed", async function () {
+      const { sale, newOracle, oracle, oracleManager } = await loadFixture(timelockFixture);
+
+      const tx = sale.connect(oracleManager).proposeChange(ORACLE, await newOracle.getAddress());
+      const readyAt = (await time.latest()) + 1 + DELAY;
+      await expect(tx)
+        .to.emit(sale, "ChangeProposed")
+        .withArgs(ORACLE, await newOracle.getAddress(), readyAt);
+
+      expect(await sale.pendingChanges(ORACLE)).to.deep.equal([
+        BigInt(await newOracle.getAddress()),
+        BigInt(readyAt),
+      ]);
+      expect(await sale.oracle()).to.equal(await oracle.getAddress());
+    });
+
+    it("Should require the setter's role", async function () {
+      const { sale, owner, newOracle, oracleManager } = await loadFixture(timelockFixture);
+
+      await expect(sale.connect(owner).proposeChange(ORACLE, await newOracle.getAddress()))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(owner.address, await sale.ORACLE_MANAGER_ROLE());
+      await expect(sale.connect(oracleManager).proposeChange(LOCK_DURATION, 90 * DAY))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(oracleManager.address, await sale.CONFIG_ADMIN_ROLE());
+      await expect(sale.connect(oracleManager).proposeChange(TIMELOCK_DELAY, 0))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(oracleManager.address, await sale.DEFAULT_ADMIN_ROLE());
+    });
+
+    it("Should validate the value", async function () {
+      const { sale, oracleManager } = await loadFixture(timelockFixture);
+
+      await expect(sale.connect(oracleManager).proposeChange(ORACLE, 0)).to.be.revertedWith("zero addr");
+      await expect(sale.connect(oracleManager).proposeChange(ORACLE, 2n ** 160n)).to.be.revertedWith("zero addr");
+      await expect(sale.proposeChange(TIMELOCK_DELAY, 31 * DAY)).to.be.revertedWith("delay too long");
+    });
+
+    it("Should replace a pending change of the same parameter", async function () {
+      const { sale, oracle, oracleManager } = await loadFixture(proposedFixture);
+
+      await time.increase(DAY);
+      await sale.connect(oracleManager).proposeChange(ORACLE, await oracle.getAddress());
+
+      await time.increase(DAY);
+      await expect(sale.connect(oracleManager).executeChange(ORACLE)).to.be.revertedWith("change not ready");
+    });
+  });
+
+  describe("executeChange", function () {
+    it("Should apply the oracle after the delay and emit events", async function () {
+      const { sale, newOracle, oracleManager } = await loadFixture(proposedFixture);
+
+      await time.increase(DELAY);
+      await expect(sale.connect(oracleManager).executeChange(ORACLE))
+        .to.emit(sale, "ChangeExecuted")
+        .withArgs(ORACLE, await newOracle.getAddress())
+        .and.to.emit(sale, "OracleUpdated")
+        .withArgs(oracleManager.address, await newOracle.getAddress());
+
+      expect(await sale.oracle()).to.equal(await newOracle.getAddress());
+      expect(await sale.getEstimatedECMForUSDT(ethers.parseUnits("1000", 6))).to.equal(ethers.parseEther("3000"));
+      expect(await sale.pendingChanges(ORACLE)).to.deep.equal([0n, 0n]);
+    });
+
+    it("Should keep pricing purchases with the old oracle during the delay", async function () {
+      const { sale, buyer1, oracleManager } = await loadFixture(proposedFixture);
+
+      await time.increase(DELAY - 10);
+      await expect(sale.connect(oracleManager).executeChange(ORACLE)).to.be.revertedWith("change not ready");
+
+      await sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0);
+      const [amounts] = await sale.getUserLocks(buyer1.address);
+      expect(amounts[0]).to.equal(ethers.parseEther("2000"));
+    });
+
+    it("Should expire after the grace period", async function () {
+      const { sale, oracleManager } = await loadFixture(proposedFixture);
+
+      await time.increase(DELAY + GRACE_PERIOD - 1);
+      await sale.connect(oracleManager).executeChange.staticCall(ORACLE);
+
+      await time.increase(2);
+      await expect(sale.connect(oracleManager).executeChange(ORACLE)).to.be.revertedWith("change expired");
+    });
+
+    it("Should apply the lock duration to future purchases", async function () {
+      const { sale, buyer1 } = await loadFixture(timelockFixture);
+      await sale.proposeChange(LOCK_DURATION, 90 * DAY);
+
+      await time.increase(DELAY);
+      await expect(sale.executeChange(LOCK_DURATION))
+        .to.emit(sale, "LockDurationUpdated")
+        .withArgs(90 * DAY);
+
+      await sale.connect(buyer1).buyWithUSDT(ethers.parseUnits("1000", 6), 0);
+      const [, releaseTimes] = await sale.getUserLocks(buyer1.address);
+      expect(releaseTimes[0]).to.equal(BigInt(await time.latest()) + BigInt(90 * DAY));
+    });
+
+    it("Should lower the delay only after the current delay", async function () {
+      const { sale } = await loadFixture(timelockFixture);
+      await sale.proposeChange(TIMELOCK_DELAY, 0);
+
+      await time.increase(DELAY);
+      await sale.executeChange(TIMELOCK_DELAY);
+      expect(await sale.timelockDelay()).to.equal(0);
+      await sale.setLockDuration(90 * DAY);
+    });
+
+    it("Should revert without a pending change or the role", async function () {
+      const { sale, other, oracleManager } = await loadFixture(proposedFixture);
+
+      await expect(sale.executeChange(LOCK_DURATION)).to.be.revertedWith("no pending change");
+      await time.increase(DELAY);
+      await expect(sale.connect(other).executeChange(ORACLE))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+
+      await sale.connect(oracleManager).executeChange(ORACLE);
+      await expect(sale.connect(oracleManager).executeChange(ORACLE)).to.be.revertedWith("no pending change");
+    });
+  });
+
+  describe("cancelChange", function () {
+    it("Should drop the change and emit ChangeCancelled", async function () {
+      const { sale, newOracle, oracleManager } = await loadFixture(proposedFixture);
+
+      await expect(sale.connect(oracleManager).cancelChange(ORACLE))
+        .to.emit(sale, "ChangeCancelled")
+        .withArgs(ORACLE, await newOracle.getAddress());
+
+      await time.increase(DELAY);
+      await expect(sale.connect(oracleManager).executeChange(ORACLE)).to.be.revertedWith("no pending change");
+    });
+
+    it("Should let the admin cancel a change of another role", async function () {
+      const { sale, oracle, owner } = await loadFixture(proposedFixture);
+
+      await sale.connect(owner).cancelChange(ORACLE);
+      expect(await sale.oracle()).to.equal(await oracle.getAddress());
+    });
+
+    it("Should revert without a pending change or the role", async function () {
+      const { sale, other } = await loadFixture(proposedFixture);
+
+      await expect(sale.connect(other).cancelChange(ORACLE))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount");
+      await expect(sale.cancelChange(LOCK_DURATION)).to.be.revertedWith("no pending change");
+    });
+  });
+
+  describe("Setter-executed changes", function () {
+    it("Should run a proposed setPaymentToken call after the delay", async function () {
+      const { sale, dai, newOracle, oracleManager } = await loadFixture(timelockFixture);
+      const [token, tokenOracle] = [await dai.getAddress(), await newOracle.getAddress()];
+
+      await expect(sale.connect(oracleManager).setPaymentToken(token, tokenOracle)).to.be.revertedWith(
+        "no pending change"
+      );
+
+      // proposed value: hash of the setter call
+      const hash = ethers.keccak256(sale.interface.encodeFunctionData("setPaymentToken", [token, tokenOracle]));
+      await sale.connect(oracleManager).proposeChange(PAYMENT_TOKEN, hash);
+      await expect(sale.connect(oracleManager).setPaymentToken(token, tokenOracle)).to.be.revertedWith(
+        "change not ready"
+      );
+
+      await time.increase(DELAY);
+      await expect(sale.connect(oracleManager).setPaymentToken(token, tokenOracle))
+        .to.emit(sale, "ChangeExecuted")
+        .withArgs(PAYMENT_TOKEN, hash)
+        .and.to.emit(sale, "PaymentTokenUpdated")
+        .withArgs(token, tokenOracle, 18);
+      expect(await sale.pendingChanges(PAYMENT_TOKEN)).to.deep.equal([0n, 0n]);
+    });
+
+    it("Should reject a call with other arguments than proposed", async function () {
+      const { sale, dai, oracle, newOracle, oracleManager } = await loadFixture(timelockFixture);
+      const token = await dai.getAddress();
+      const data = sale.interface.encodeFunctionData("setPaymentToken", [token, await newOracle.getAddress()]);
+      await sale.connect(oracleManager).proposeChange(PAYMENT_TOKEN, ethers.keccak256(data));
+
+      await time.increase(DELAY);
+      await expect(
+        sale.connect(oracleManager).setPaymentToken(token, await oracle.getAddress())
+      ).to.be.revertedWith("not proposed");
+    });
+
+    it("Should not execute setter changes through executeChange", async function () {
+      const { sale, dai, newOracle, oracleManager } = await loadFixture(timelockFixture);
+      const data = sale.interface.encodeFunctionData("setPaymentToken", [
+        await dai.getAddress(),
+        await newOracle.getAddress(),
+      ]);
+      await sale.connect(oracleManager).proposeChange(PAYMENT_TOKEN, ethers.keccak256(data));
+
+      await time.increase(DELAY);
+      await expect(sale.connect(oracleManager).executeChange(PAYMENT_TOKEN)).to.be.revertedWith("call the setter");
+    });
+
+    it("Should timelock the reference oracle", async function () {
+      const { sale, newOracle, oracleManager } = await loadFixture(timelockFixture);
+      const reference = await newOracle.getAddress();
+
+      await expect(sale.connect(oracleManager).setReferenceOracle(reference)).to.be.revertedWith(
+        "no pending change"
+      );
+      const data = sale.interface.encodeFunctionData("setReferenceOracle", [reference]);
+      await sale.connect(oracleManager).proposeChange(REFERENCE_ORACLE, ethers.keccak256(data));
+
+      await time.increase(DELAY);
+      await expect(sale.connect(oracleManager).setReferenceOracle(reference))
+        .to.emit(sale, "ReferenceOracleUpdated")
+        .withArgs(oracleManager.address, reference);
+      expect(await sale.referenceOracle()).to.equal(reference);
+    });
+
+    it("Should tighten the price deviation guard at once but timelock loosening it", async function () {
+      const { sale, newOracle, oracleManager } = await loadFixture(deployFixture);
+      await sale.grantRole(await sale.ORACLE_MANAGER_ROLE(), oracleManager.address);
+      await sale.connect(oracleManager).setReferenceOracle(await newOracle.getAddress());
+      await sale.setTimelockDelay(DELAY);
+
+      await sale.connect(oracleManager).setPriceDeviationGuard(1000, false);
+      await sale.connect(oracleManager).setPriceDeviationGuard(500, true);
+      expect(await sale.maxPriceDeviationBps()).to.equal(500);
+
+      await expect(sale.connect(oracleManager).setPriceDeviationGuard(1000, true)).to.be.revertedWith(
+        "no pending change"
+      );
+      await expect(sale.connect(oracleManager).setPriceDeviationGuard(0, false)).to.be.revertedWith(
+        "no pending change"
+      );
+
+      const data = sale.interface.encodeFunctionData("setPriceDeviationGuard", [0, false]);
+      await sale.connect(oracleManager).proposeChange(PRICE_DEVIATION_GUARD, ethers.keccak256(data));
+      await time.increase(DELAY);
+      await expect(sale.connect(oracleManager).setPriceDeviationGuard(0, false))
+        .to.emit(sale, "PriceDeviationGuardUpdated")
+        .withArgs(0, false);
+      expect(await sale.maxPriceDeviationBps()).to.equal(0);
+    });
+
+    it("Should timelock new rounds under the config admin role", async function () {
+      const { sale, oracleManager } = await loadFixture(timelockFixture);
+      const start = BigInt(await time.latest()) + BigInt(10 * DAY);
+      const end = start + BigInt(DAY);
+      const cap = ethers.parseEther("5000");
+
+      await expect(sale.createRound(start, end, cap, 0, 500, 30 * DAY)).to.be.revertedWith("no pending change");
+
+      const hash = ethers.keccak256(
+        sale.interface.encodeFunctionData("createRound", [start, end, cap, 0, 500, 30 * DAY])
+      );
+      await expect(sale.connect(oracleManager).proposeChange(ROUND, hash))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(oracleManager.address, await sale.CONFIG_ADMIN_ROLE());
+      await sale.proposeChange(ROUND, hash);
+
+      await time.increase(DELAY);
+      await expect(sale.createRound(start, end, cap, 0, 500, 30 * DAY)).to.emit(sale, "RoundCreated");
+      expect(await sale.roundCount()).to.equal(1);
+    });
+  });
+});
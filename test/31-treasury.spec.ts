@@ -0,0 +1,304 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("ECMSale - Treasury", function () {
+  const DAY = 24 * 60 * 60;
+  // TreasuryMode
+  const MANUAL = 0;
+  const FORWARD = 1;
+  const DISTRIBUTE = 2;
+  // 70% ops, 20% liquidity, 10% marketing
+  const SHARES = [7000, 2000, 1000];
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, ops, liquidity, marketing, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const ECMSaleFactory = await ethers.getContractFactory("ECMSale");
+    const sale = await ECMSaleFactory.deploy(
+      await ecmToken.getAddress(),
+      await usdt.getAddress(),
+      await oracle.getAddress()
+    );
+
+    // DAI (18 decimals) priced at par with USDT through the sale oracle
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const dai = await MockERC20Factory.deploy("Dai Stablecoin", "DAI", 18, 0);
+    await sale.setPaymentToken(await dai.getAddress(), ethers.ZeroAddress);
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    for (const buyer of [buyer1, buyer2]) {
+      await usdt.mint(buyer.address, ethers.parseUnits("100000", 6));
+      await dai.mint(buyer.address, ethers.parseEther("100000"));
+      await usdt.connect(buyer).approve(await sale.getAddress(), ethers.MaxUint256);
+      await dai.connect(buyer).approve(await sale.getAddress(), ethers.MaxUint256);
+    }
+
+    const recipients = [ops.address, liquidity.address, marketing.address];
+
+    return { ecmToken, usdt, dai, pair, oracle, sale, owner, buyer1, buyer2, ops, liquidity, marketing, other, recipients };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+  // USDT forwarded to the three recipients on each purchase
+  async function forwardFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setTreasury(fixture.recipients, SHARES, FORWARD);
+    return fixture;
+  }
+
+  // USDT held until distribute(); buyer1 bought for 1000 USDT
+  async function distributeFixture() {
+    const fixture = await deployFixture();
+    await fixture.sale.setTreasury(fixture.recipients, SHARES, DISTRIBUTE);
+    await fixture.sale.connect(fixture.buyer1).buyWithUSDT(units("1000"), 0);
+    return fixture;
+  }
+
+  // 10k USDT soft cap, forwarding on; buyer1 bought for 1000 USDT
+  async function softCapFixture() {
+    const fixture = await forwardFixture();
+    const now = await time.latest();
+    await fixture.sale.setSaleSchedule(0, now + 30 * DAY);
+    await fixture.sale.setSoftCap(units("10000"));
+    await fixture.sale.connect(fixture.buyer1).buyWithUSDT(units("1000"), 0);
+    return fixture;
+  }
+
+  describe("Configuration", function () {
+    it("Should keep manual withdrawals by default", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(deployFixture);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      expect(await sale.treasuryMode()).to.equal(MANUAL);
+      expect(await sale.getTreasury()).to.deep.equal([[], []]);
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("1000"));
+      await expect(sale.distribute()).to.be.revertedWith("treasury not routed");
+      await sale.withdrawUSDT(units("1000"));
+    });
+
+    it("Should allow treasurer to set the treasury and emit TreasuryUpdated", async function () {
+      const { sale, recipients } = await loadFixture(deployFixture);
+
+      await expect(sale.setTreasury(recipients, SHARES, DISTRIBUTE))
+        .to.emit(sale, "TreasuryUpdated")
+        .withArgs(recipients, SHARES, DISTRIBUTE);
+
+      expect(await sale.treasuryMode()).to.equal(DISTRIBUTE);
+      expect(await sale.getTreasury()).to.deep.equal([recipients, SHARES.map(BigInt)]);
+    });
+
+    it("Should replace the recipients and switch back to manual", async function () {
+      const { sale, usdt, buyer1, other, recipients } = await loadFixture(forwardFixture);
+
+      await sale.setTreasury([other.address], [10000], DISTRIBUTE);
+      expect(await sale.getTreasury()).to.deep.equal([[other.address], [10000n]]);
+
+      await sale.setTreasury([], [], MANUAL);
+      expect(await sale.getTreasury()).to.deep.equal([[], []]);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      await sale.withdrawUSDT(units("1000"));
+      expect(await sale.treasuryReceived(recipients[0])).to.equal(0);
+      expect(await usdt.balanceOf(other.address)).to.equal(0);
+    });
+
+    it("Should validate recipients and shares", async function () {
+      const { sale, recipients } = await loadFixture(deployFixture);
+
+      await expect(sale.setTreasury(recipients, [7000, 3000], FORWARD)).to.be.revertedWith("length mismatch");
+      await expect(sale.setTreasury(recipients, [7000, 2000, 500], FORWARD)).to.be.revertedWith("invalid shares");
+      await expect(sale.setTreasury([], [], FORWARD)).to.be.revertedWith("invalid shares");
+      await expect(sale.setTreasury(recipients, SHARES, MANUAL)).to.be.revertedWith("invalid shares");
+      await expect(
+        sale.setTreasury([recipients[0], ethers.ZeroAddress], [5000, 5000], FORWARD)
+      ).to.be.revertedWith("zero addr");
+      await expect(
+        sale.setTreasury(Array(11).fill(recipients[0]), Array(11).fill(0), MANUAL)
+      ).to.be.revertedWith("too many recipients");
+    });
+
+    it("Should revert when non-treasurer sets the treasury", async function () {
+      const { sale, other, recipients } = await loadFixture(deployFixture);
+
+      await expect(sale.connect(other).setTreasury(recipients, SHARES, FORWARD))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(other.address, await sale.TREASURER_ROLE());
+    });
+  });
+
+  describe("Forward", function () {
+    it("Should split each USDT purchase and emit TreasuryPayment", async function () {
+      const { sale, usdt, buyer1, ops, liquidity, marketing } = await loadFixture(forwardFixture);
+
+      await expect(sale.connect(buyer1).buyWithUSDT(units("1000"), 0))
+        .to.emit(sale, "TreasuryPayment")
+        .withArgs(ops.address, units("700"))
+        .and.to.emit(sale, "TreasuryPayment")
+        .withArgs(liquidity.address, units("200"))
+        .and.to.emit(sale, "TreasuryPayment")
+        .withArgs(marketing.address, units("100"));
+
+      expect(await usdt.balanceOf(ops.address)).to.equal(units("700"));
+      expect(await usdt.balanceOf(liquidity.address)).to.equal(units("200"));
+      expect(await usdt.balanceOf(marketing.address)).to.equal(units("100"));
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+    });
+
+    it("Should track lifetime receipts and give the rounding dust to the last recipient", async function () {
+      const { sale, usdt, buyer1, buyer2, ops, liquidity, marketing } = await loadFixture(forwardFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      await sale.connect(buyer2).buyFor(buyer1.address, 99n, 0);
+
+      // 99 units: 69 + 19 + 11
+      expect(await sale.treasuryReceived(ops.address)).to.equal(units("700") + 69n);
+      expect(await sale.treasuryReceived(liquidity.address)).to.equal(units("200") + 19n);
+      expect(await sale.treasuryReceived(marketing.address)).to.equal(units("100") + 11n);
+      expect(await usdt.balanceOf(marketing.address)).to.equal(await sale.treasuryReceived(marketing.address));
+    });
+
+    it("Should keep other payment tokens for withdrawal", async function () {
+      const { sale, dai, buyer1, ops } = await loadFixture(forwardFixture);
+
+      await sale.connect(buyer1).buyWithToken(await dai.getAddress(), ethers.parseEther("500"), 0);
+
+      expect(await sale.treasuryReceived(ops.address)).to.equal(0);
+      await sale.withdrawProceeds(await dai.getAddress(), ethers.parseEther("500"));
+    });
+
+    it("Should keep USDT inside refund windows until the windows close", async function () {
+      const { sale, usdt, buyer1, buyer2, ops } = await loadFixture(forwardFixture);
+      await sale.setRefundWindow(14 * DAY);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("1000"));
+      expect(await sale.treasuryReceived(ops.address)).to.equal(0);
+      await sale.connect(buyer1).cancelPurchase(0);
+
+      await sale.connect(buyer2).buyWithUSDT(units("2000"), 0);
+      await time.increase(15 * DAY);
+      await sale.setRefundWindow(0);
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+
+      // the released reserve goes out with the next purchase
+      expect(await sale.treasuryReceived(ops.address)).to.equal(units("2100"));
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+    });
+
+    it("Should block USDT withdrawals while routed", async function () {
+      const { sale, usdt } = await loadFixture(forwardFixture);
+
+      await expect(sale.withdrawUSDT(0)).to.be.revertedWith("treasury routed");
+      await expect(
+        sale.withdrawProceeds(await usdt.getAddress(), 0)
+      ).to.be.revertedWith("treasury routed");
+    });
+  });
+
+  describe("Distribute", function () {
+    it("Should hold USDT until anyone distributes it", async function () {
+      const { sale, usdt, other, ops, liquidity, marketing } = await loadFixture(distributeFixture);
+
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("1000"));
+
+      expect(await sale.connect(other).distribute.staticCall()).to.equal(units("1000"));
+      await expect(sale.connect(other).distribute())
+        .to.emit(sale, "TreasuryPayment")
+        .withArgs(ops.address, units("700"));
+
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+      expect(await sale.treasuryReceived(ops.address)).to.equal(units("700"));
+      expect(await sale.treasuryReceived(liquidity.address)).to.equal(units("200"));
+      expect(await sale.treasuryReceived(marketing.address)).to.equal(units("100"));
+    });
+
+    it("Should accumulate receipts over several distributions", async function () {
+      const { sale, buyer2, ops } = await loadFixture(distributeFixture);
+      await sale.distribute();
+
+      await sale.connect(buyer2).buyWithUSDT(units("500"), 0);
+      await sale.distribute();
+
+      expect(await sale.treasuryReceived(ops.address)).to.equal(units("1050"));
+      await expect(sale.distribute()).to.be.revertedWith("nothing to distribute");
+    });
+
+    it("Should flush held USDT after switching to forward", async function () {
+      const { sale, ops, recipients } = await loadFixture(distributeFixture);
+      await sale.setTreasury(recipients, SHARES, FORWARD);
+
+      await sale.distribute();
+      expect(await sale.treasuryReceived(ops.address)).to.equal(units("700"));
+    });
+
+    it("Should not distribute USDT reserved for refunds", async function () {
+      const { sale, usdt, buyer2 } = await loadFixture(distributeFixture);
+      await sale.setRefundWindow(14 * DAY);
+      await sale.connect(buyer2).buyWithUSDT(units("500"), 0);
+
+      await sale.distribute();
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("500"));
+      await expect(sale.distribute()).to.be.revertedWith("nothing to distribute");
+    });
+
+    it("Should revert when paused", async function () {
+      const { sale } = await loadFixture(distributeFixture);
+      await sale.pause();
+
+      await expect(sale.distribute()).to.be.revertedWithCustomError(sale, "EnforcedPause");
+    });
+  });
+
+  describe("Soft cap", function () {
+    it("Should hold USDT until the sale succeeded", async function () {
+      const { sale, usdt, buyer2, ops } = await loadFixture(softCapFixture);
+
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(units("1000"));
+      await expect(sale.distribute()).to.be.revertedWith("soft cap not met");
+
+      await sale.connect(buyer2).buyWithUSDT(units("9000"), 0);
+      await sale.finalizeSale();
+      await sale.distribute();
+      expect(await sale.treasuryReceived(ops.address)).to.equal(units("7000"));
+
+      await sale.connect(buyer2).buyWithUSDT(units("1000"), 0);
+      expect(await sale.treasuryReceived(ops.address)).to.equal(units("7700"));
+    });
+
+    it("Should keep USDT for refunds if the sale failed", async function () {
+      const { sale, usdt, buyer1 } = await loadFixture(softCapFixture);
+      await time.increaseTo(await sale.saleEnd());
+      await sale.finalizeSale();
+
+      await expect(sale.distribute()).to.be.revertedWith("soft cap not met");
+      await sale.connect(buyer1).claimRefund(await usdt.getAddress());
+      expect(await usdt.balanceOf(await sale.getAddress())).to.equal(0);
+    });
+  });
+});
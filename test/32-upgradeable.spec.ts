@@ -0,0 +1,365 @@
+import hre, { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import SepoliaDeploymentModule from "../ignition/modules/deploy-sepolia";
+import MainnetDeploymentModule from "../ignition/modules/deploy-mainnet";
+
+describe("ECMSale - Upgradeable", function () {
+  const DAY = 24 * 60 * 60;
+  // ERC-1967 implementation slot: keccak256("eip1967.proxy.implementation") - 1
+  const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+  // TimelockedParam.Upgrade
+  const UPGRADE = 7;
+
+  async function deployFixture() {
+    const [owner, buyer1, buyer2, other] = await ethers.getSigners();
+
+    const ECMTokenFactory = await ethers.getContractFactory("ECMToken");
+    const ecmToken = await ECMTokenFactory.deploy(ethers.parseEther("1000000000"));
+
+    const MockUSDTFactory = await ethers.getContractFactory("MockUSDT");
+    const usdt = await MockUSDTFactory.deploy();
+
+    const MockPairFactory = await ethers.getContractFactory("MockUniswapV2Pair");
+    const pair = await MockPairFactory.deploy(
+      await usdt.getAddress(),
+      await ecmToken.getAddress()
+    );
+
+    // 1M USDT and 2M ECM (1 USDT = 2 ECM)
+    await pair.setReserves(
+      ethers.parseUnits("1000000", 6),
+      ethers.parseEther("2000000")
+    );
+
+    const OracleFactory = await ethers.getContractFactory("UniswapV2SpotOracle");
+    const oracle = await OracleFactory.deploy(
+      await pair.getAddress(),
+      await ecmToken.getAddress(),
+      await usdt.getAddress()
+    );
+
+    const tokens = [await ecmToken.getAddress(), await usdt.getAddress()] as const;
+    const purchases = await (await ethers.getContractFactory("ECMSalePurchases")).deploy(...tokens);
+    const locks = await (await ethers.getContractFactory("ECMSaleLocks")).deploy(...tokens);
+
+    const ECMSaleUpgradeableFactory = await ethers.getContractFactory("ECMSaleUpgradeable");
+    const implementation = await ECMSaleUpgradeableFactory.deploy(
+      ...tokens,
+      await purchases.getAddress(),
+      await locks.getAddress()
+    );
+
+    const ProxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await ProxyFactory.deploy(
+      await implementation.getAddress(),
+      implementation.interface.encodeFunctionData("initialize", [await oracle.getAddress()])
+    );
+    const sale = ECMSaleUpgradeableFactory.attach(await proxy.getAddress()) as typeof implementation;
+
+    const MockECMSaleV2Factory = await ethers.getContractFactory("MockECMSaleV2");
+    const v2 = await MockECMSaleV2Factory.deploy(
+      ...tokens,
+      await purchases.getAddress(),
+      await locks.getAddress()
+    );
+
+    await ecmToken.transfer(await sale.getAddress(), ethers.parseEther("100000000"));
+    for (const buyer of [buyer1, buyer2]) {
+      await usdt.mint(buyer.address, ethers.parseUnits("100000", 6));
+      await usdt.connect(buyer).approve(await sale.getAddress(), ethers.MaxUint256);
+    }
+
+    return { ecmToken, usdt, pair, oracle, purchases, locks, implementation, sale, v2, owner, buyer1, buyer2, other };
+  }
+
+  const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+  // buyer1 bought twice and buyer2 once, then the proxy was upgraded to MockECMSaleV2
+  async function upgradedFixture() {
+    const fixture = await deployFixture();
+    const { sale, v2, buyer1, buyer2 } = fixture;
+    await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+    await time.increase(DAY);
+    await sale.connect(buyer1).buyWithUSDT(units("500"), 0);
+    await sale.connect(buyer2).buyWithUSDT(units("2000"), 0);
+
+    const locksBefore = await sale.getUserLocks(buyer1.address);
+    const totalLockedBefore = await sale.totalLocked();
+    await sale.upgradeToAndCall(await v2.getAddress(), v2.interface.encodeFunctionData("initializeV2", [42]));
+    const upgraded = v2.attach(await sale.getAddress()) as typeof v2;
+
+    return { ...fixture, upgraded, locksBefore, totalLockedBefore };
+  }
+
+  describe("Initialization", function () {
+    it("Should initialize the proxy with the oracle and every role for the caller", async function () {
+      const { sale, oracle, owner, ecmToken, usdt } = await loadFixture(deployFixture);
+
+      expect(await sale.oracle()).to.equal(await oracle.getAddress());
+      expect(await sale.ecm()).to.equal(await ecmToken.getAddress());
+      expect(await sale.usdt()).to.equal(await usdt.getAddress());
+      expect(await sale.lockDuration()).to.equal(180 * DAY);
+      for (const role of ["DEFAULT_ADMIN_ROLE", "PAUSER_ROLE", "TREASURER_ROLE", "ORACLE_MANAGER_ROLE", "CONFIG_ADMIN_ROLE"] as const) {
+        expect(await sale.hasRole(await sale[role](), owner.address)).to.equal(true);
+      }
+    });
+
+    it("Should revert a second initialization", async function () {
+      const { sale, implementation, oracle, other } = await loadFixture(deployFixture);
+
+      await expect(
+        sale.connect(other).initialize(await oracle.getAddress())
+      ).to.be.revertedWithCustomError(sale, "InvalidInitialization");
+      await expect(
+        implementation.connect(other).initialize(await oracle.getAddress())
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+
+    it("Should reject a zero oracle", async function () {
+      const { implementation } = await loadFixture(deployFixture);
+
+      const ProxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+      await expect(
+        ProxyFactory.deploy(
+          await implementation.getAddress(),
+          implementation.interface.encodeFunctionData("initialize", [ethers.ZeroAddress])
+        )
+      ).to.be.revertedWith("zero addr");
+    });
+
+    it("Should reject modules deployed for other tokens", async function () {
+      const { ecmToken, usdt, purchases, locks } = await loadFixture(deployFixture);
+      const otherUSDT = await (await ethers.getContractFactory("MockUSDT")).deploy();
+      const otherLocks = await (await ethers.getContractFactory("ECMSaleLocks")).deploy(
+        await ecmToken.getAddress(),
+        await otherUSDT.getAddress()
+      );
+
+      const ECMSaleUpgradeableFactory = await ethers.getContractFactory("ECMSaleUpgradeable");
+      await expect(
+        ECMSaleUpgradeableFactory.deploy(
+          await ecmToken.getAddress(),
+          await otherUSDT.getAddress(),
+          await purchases.getAddress(),
+          await locks.getAddress()
+        )
+      ).to.be.revertedWith("module mismatch");
+      await expect(
+        ECMSaleUpgradeableFactory.deploy(
+          await ecmToken.getAddress(),
+          await usdt.getAddress(),
+          await purchases.getAddress(),
+          await otherLocks.getAddress()
+        )
+      ).to.be.revertedWith("module mismatch");
+    });
+
+    it("Should run purchases and claims through the proxy", async function () {
+      const { sale, ecmToken, buyer1 } = await loadFixture(deployFixture);
+
+      await sale.connect(buyer1).buyWithUSDT(units("1000"), 0);
+      expect(await sale.totalLocked()).to.equal(ethers.parseEther("2000"));
+
+      await time.increase(180 * DAY);
+      await sale.connect(buyer1).claimAllUnlocked();
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ethers.parseEther("2000"));
+    });
+  });
+
+  describe("Upgrade", function () {
+    it("Should point the proxy at the new implementation and emit Upgraded", async function () {
+      const { sale, v2 } = await loadFixture(deployFixture);
+
+      await expect(sale.upgradeToAndCall(await v2.getAddress(), "0x"))
+        .to.emit(sale, "Upgraded")
+        .withArgs(await v2.getAddress());
+
+      const slot = await ethers.provider.getStorage(await sale.getAddress(), IMPLEMENTATION_SLOT);
+      expect(ethers.getAddress(ethers.dataSlice(slot, 12))).to.equal(await v2.getAddress());
+    });
+
+    it("Should keep locks and totalLocked", async function () {
+      const { upgraded, buyer1, locksBefore, totalLockedBefore } = await loadFixture(upgradedFixture);
+
+      expect(await upgraded.version()).to.equal(2);
+      expect(await upgraded.v2Value()).to.equal(42);
+      expect(await upgraded.getUserLocks(buyer1.address)).to.deep.equal(locksBefore);
+      expect(await upgraded.totalLocked()).to.equal(totalLockedBefore);
+      expect(totalLockedBefore).to.equal(ethers.parseEther("7000"));
+    });
+
+    it("Should keep roles, accounting and configuration", async function () {
+      const { upgraded, oracle, owner, buyer1 } = await loadFixture(upgradedFixture);
+
+      expect(await upgraded.hasRole(await upgraded.DEFAULT_ADMIN_ROLE(), owner.address)).to.equal(true);
+      expect(await upgraded.oracle()).to.equal(await oracle.getAddress());
+      expect(await upgraded.usdtContributed(buyer1.address)).to.equal(units("1500"));
+      expect(await upgraded.totalUSDTRaised()).to.equal(units("3500"));
+      expect(await upgraded.paused()).to.equal(false);
+    });
+
+    it("Should keep claims and purchases working", async function () {
+      const { upgraded, ecmToken, buyer1, buyer2 } = await loadFixture(upgradedFixture);
+
+      await time.increase(180 * DAY);
+      await upgraded.connect(buyer1).claimAllUnlocked();
+      expect(await ecmToken.balanceOf(buyer1.address)).to.equal(ethers.parseEther("3000"));
+      expect(await upgraded.totalLocked()).to.equal(ethers.parseEther("4000"));
+
+      await upgraded.connect(buyer2).buyWithUSDT(units("100"), 0);
+      expect(await upgraded.totalLocked()).to.equal(ethers.parseEther("4200"));
+    });
+
+    it("Should run the reinitializer only once", async function () {
+      const { upgraded } = await loadFixture(upgradedFixture);
+
+      await expect(upgraded.initializeV2(7)).to.be.revertedWithCustomError(upgraded, "InvalidInitialization");
+    });
+
+    it("Should only let DEFAULT_ADMIN_ROLE upgrade", async function () {
+      const { sale, v2, other } = await loadFixture(deployFixture);
+      await sale.grantRole(await sale.CONFIG_ADMIN_ROLE(), other.address);
+
+      await expect(sale.connect(other).upgradeToAndCall(await v2.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(other.address, await sale.DEFAULT_ADMIN_ROLE());
+    });
+
+    it("Should reject implementations deployed for other tokens", async function () {
+      const { sale, ecmToken } = await loadFixture(deployFixture);
+      const otherUSDT = await (await ethers.getContractFactory("MockUSDT")).deploy();
+      const tokens = [await ecmToken.getAddress(), await otherUSDT.getAddress()] as const;
+      const otherPurchases = await (await ethers.getContractFactory("ECMSalePurchases")).deploy(...tokens);
+      const otherLocks = await (await ethers.getContractFactory("ECMSaleLocks")).deploy(...tokens);
+      const otherV2 = await (await ethers.getContractFactory("MockECMSaleV2")).deploy(
+        ...tokens,
+        await otherPurchases.getAddress(),
+        await otherLocks.getAddress()
+      );
+
+      await expect(
+        sale.upgradeToAndCall(await otherV2.getAddress(), "0x")
+      ).to.be.revertedWith("implementation mismatch");
+      // not an ECMSale at all
+      await expect(sale.upgradeToAndCall(await ecmToken.getAddress(), "0x")).to.be.reverted;
+    });
+
+    it("Should reject implementations without UUPS support and calls outside the proxy", async function () {
+      const { sale, implementation, v2, purchases } = await loadFixture(deployFixture);
+
+      // same ECM and USDT, but no proxiableUUID
+      await expect(sale.upgradeToAndCall(await purchases.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(sale, "ERC1967InvalidImplementation")
+        .withArgs(await purchases.getAddress());
+      await expect(
+        implementation.upgradeToAndCall(await v2.getAddress(), "0x")
+      ).to.be.revertedWithCustomError(implementation, "UUPSUnauthorizedCallContext");
+    });
+  });
+
+  describe("Timelocked upgrade", function () {
+    it("Should revert an immediate upgrade once a delay is set", async function () {
+      const { sale, v2 } = await loadFixture(deployFixture);
+      await sale.setTimelockDelay(2 * DAY);
+
+      await expect(
+        sale.upgradeToAndCall(await v2.getAddress(), v2.interface.encodeFunctionData("initializeV2", [42]))
+      ).to.be.revertedWith("no pending change");
+    });
+
+    it("Should upgrade to the proposed implementation after the delay", async function () {
+      const { sale, v2, implementation } = await loadFixture(deployFixture);
+      await sale.setTimelockDelay(2 * DAY);
+      const data = v2.interface.encodeFunctionData("initializeV2", [42]);
+
+      await sale.proposeChange(UPGRADE, await v2.getAddress());
+      await expect(sale.upgradeToAndCall(await v2.getAddress(), data)).to.be.revertedWith("change not ready");
+      await expect(
+        sale.upgradeToAndCall(await implementation.getAddress(), "0x")
+      ).to.be.revertedWith("not proposed");
+
+      await time.increase(2 * DAY);
+      await expect(sale.upgradeToAndCall(await v2.getAddress(), data))
+        .to.emit(sale, "ChangeExecuted")
+        .withArgs(UPGRADE, await v2.getAddress())
+        .and.to.emit(sale, "Upgraded")
+        .withArgs(await v2.getAddress());
+
+      const upgraded = v2.attach(await sale.getAddress()) as typeof v2;
+      expect(await upgraded.v2Value()).to.equal(42);
+      expect(await sale.pendingChanges(UPGRADE)).to.deep.equal([0n, 0n]);
+    });
+
+    it("Should only let DEFAULT_ADMIN_ROLE propose an upgrade", async function () {
+      const { sale, v2, other } = await loadFixture(deployFixture);
+      await sale.setTimelockDelay(2 * DAY);
+      await sale.grantRole(await sale.CONFIG_ADMIN_ROLE(), other.address);
+      await sale.grantRole(await sale.ORACLE_MANAGER_ROLE(), other.address);
+
+      await expect(sale.connect(other).proposeChange(UPGRADE, await v2.getAddress()))
+        .to.be.revertedWithCustomError(sale, "AccessControlUnauthorizedAccount")
+        .withArgs(other.address, await sale.DEFAULT_ADMIN_ROLE());
+      await expect(sale.proposeChange(UPGRADE, 0)).to.be.revertedWith("zero addr");
+    });
+
+    it("Should not apply upgrades through executeChange", async function () {
+      const { sale, v2 } = await loadFixture(deployFixture);
+      await sale.setTimelockDelay(2 * DAY);
+      await sale.proposeChange(UPGRADE, await v2.getAddress());
+
+      await time.increase(2 * DAY);
+      await expect(sale.executeChange(UPGRADE)).to.be.revertedWith("call the setter");
+    });
+  });
+
+  describe("Ignition", function () {
+    it("Should deploy the Sepolia sale behind a proxy", async function () {
+      const [deployer] = await ethers.getSigners();
+
+      const { ecmSale, ecmSaleImplementation, positionNFT } = await hre.ignition.deploy(SepoliaDeploymentModule, {
+        parameters: {
+          SepoliaDeployment: {
+            admin: deployer.address,
+            pauser: deployer.address,
+            treasurer: deployer.address,
+            oracleManager: deployer.address,
+            configAdmin: deployer.address,
+          },
+        },
+      });
+
+      const slot = await ethers.provider.getStorage(await ecmSale.getAddress(), IMPLEMENTATION_SLOT);
+      expect(ethers.getAddress(ethers.dataSlice(slot, 12))).to.equal(await ecmSaleImplementation.getAddress());
+      expect(await ecmSale.positionNFT()).to.equal(await positionNFT.getAddress());
+      expect(await ecmSale.hasRole(await ecmSale.DEFAULT_ADMIN_ROLE(), deployer.address)).to.equal(true);
+    });
+
+    it("Should deploy the mainnet sale behind a proxy", async function () {
+      const { ecmToken, usdt, pair } = await loadFixture(deployFixture);
+      const [, admin, pauser, treasurer, oracleManager] = await ethers.getSigners();
+
+      const { ecmSale, ecmSaleImplementation, oracle } = await hre.ignition.deploy(MainnetDeploymentModule, {
+        parameters: {
+          MainnetDeployment: {
+            ecmTokenAddress: await ecmToken.getAddress(),
+            usdtTokenAddress: await usdt.getAddress(),
+            pairAddress: await pair.getAddress(),
+            routerAddress: ethers.ZeroAddress,
+            admin: admin.address,
+            pauser: pauser.address,
+            treasurer: treasurer.address,
+            oracleManager: oracleManager.address,
+            configAdmin: admin.address,
+          },
+        },
+      });
+
+      const slot = await ethers.provider.getStorage(await ecmSale.getAddress(), IMPLEMENTATION_SLOT);
+      expect(ethers.getAddress(ethers.dataSlice(slot, 12))).to.equal(await ecmSaleImplementation.getAddress());
+      expect(await ecmSale.oracle()).to.equal(await oracle.getAddress());
+      expect(await ecmSale.ecm()).to.equal(await ecmToken.getAddress());
+      expect(await ecmSale.hasRole(await ecmSale.DEFAULT_ADMIN_ROLE(), admin.address)).to.equal(true);
+    });
+  });
+});